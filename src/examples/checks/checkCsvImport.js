@@ -0,0 +1,81 @@
+/**
+ * Checks CSV parsing and TabularDataProvider: quoted fields, line endings,
+ * class hierarchy from type columns and links from foreign key columns.
+ *
+ * Usage: node src/examples/checks/checkCsvImport.js
+ */
+'use strict';
+
+const assert = require('assert');
+
+require('./registerTypeScript');
+
+const {parseCsv} = require('../../ontodia/data/tabular/csv.ts');
+const {TabularDataProvider} = require('../../ontodia/data/tabular/tabularDataProvider.ts');
+
+const BASE = 'http://example.com/tabular/';
+
+function checkParser() {
+    assert.deepEqual(parseCsv('\uFEFFid,name\r\n1,"Smith, John"\n\n2,"say ""hi""\nthere"\n'), [
+        ['id', 'name'],
+        ['1', 'Smith, John'],
+        ['2', 'say "hi"\nthere'],
+    ], 'quoted fields, escaped quotes, line breaks and byte order mark');
+    assert.deepEqual(parseCsv('a;b;\n;c', ';'), [['a', 'b', ''], ['', 'c']], 'custom delimiter and empty cells');
+    assert.throws(() => parseCsv('a,"b'), /Unterminated/, 'unterminated quoted field is rejected');
+    assert.throws(() => parseCsv('a', '"'), /Invalid CSV delimiter/, 'quote delimiter is rejected');
+}
+
+function checkProvider() {
+    const provider = new TabularDataProvider({
+        baseIri: BASE,
+        files: [{
+            fileName: 'people.csv',
+            content: [
+                'id,name,role,parentRole,age,manager',
+                '1,Alice,Manager,Employee,42,',
+                '2,Bob,Developer,Employee,35,1',
+            ].join('\n'),
+            mapping: {
+                idColumn: 'id',
+                labelColumn: 'name',
+                typeColumn: 'role',
+                parentTypeColumn: 'parentRole',
+                propertyColumns: ['age'],
+                datatypes: {age: 'http://www.w3.org/2001/XMLSchema#integer'},
+                linkColumns: [{column: 'manager'}],
+            },
+        }],
+    });
+    const alice = BASE + 'data/people/1';
+    const bob = BASE + 'data/people/2';
+    return Promise.all([
+        provider.classTree().then(([classTree]) => {
+            const employee = classTree.filter(cls => cls.id === BASE + 'class/Employee')[0];
+            assert(employee, 'class tree contains parent type');
+            assert.deepEqual(employee.children.map(cls => cls.id).sort(),
+                [BASE + 'class/Developer', BASE + 'class/Manager'], 'types are sub classes of parent type');
+        }),
+        provider.elementInfo({elementIds: [alice, bob]}).then(elements => {
+            assert.deepEqual(Object.keys(elements).sort(), [alice, bob], 'rows are converted into elements');
+            assert.deepEqual(elements[bob].types, [BASE + 'class/Developer'], 'row type is read from type column');
+            assert.equal(elements[bob].label.values[0].text, 'Bob', 'label is read from label column');
+            const [age] = elements[alice].properties[BASE + 'property/age'].values;
+            assert.equal(age.text, '42', 'property column is converted into literal');
+        }),
+        provider.linksInfo({elementIds: [alice, bob], linkTypeIds: [BASE + 'property/manager']}).then(links => {
+            assert.deepEqual(links.map(link => [link.sourceId, link.targetId]), [[bob, alice]],
+                'link column references rows by id');
+        }),
+    ]);
+}
+
+Promise.resolve()
+    .then(checkParser)
+    .then(checkProvider)
+    .then(() => {
+        console.log('CSV import works');
+    }, error => {
+        console.error(error);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,91 @@
+/**
+ * Checks JSON-LD export and import: serialized elements, links and virtual links
+ * are read back by RdfFileDataProvider into the same models.
+ *
+ * Usage: node src/examples/checks/checkJsonLd.js
+ */
+'use strict';
+
+const assert = require('assert');
+
+require('./registerTypeScript');
+
+const {serializeJsonLd, parseJsonLd, readVirtualLinks, JSON_LD_FORMAT} = require('../../ontodia/data/rdf/jsonLd.ts');
+const {RdfFileDataProvider} = require('../../ontodia/data/rdf/rdfFileDataProvider.ts');
+const {PrefixRegistry} = require('../../ontodia/data/prefixRegistry.ts');
+
+const SCHEMA = 'http://example.com/schema/';
+const DATA = 'http://example.com/data/';
+const XSD_INTEGER = 'http://www.w3.org/2001/XMLSchema#integer';
+
+const prefixes = new PrefixRegistry();
+prefixes.register('ex', SCHEMA);
+
+const alice = {
+    id: DATA + 'alice',
+    types: [SCHEMA + 'Person'],
+    label: {values: [{text: 'Alice', lang: 'en'}, {text: 'Алиса', lang: 'ru'}]},
+    properties: {
+        [SCHEMA + 'age']: {type: 'string', values: [{text: '42', lang: '', datatype: XSD_INTEGER}]},
+        [SCHEMA + 'homepage']: {type: 'string', values: [{text: 'http://alice.example.com/', lang: '', type: 'iri'}]},
+    },
+};
+// label generated from IRI when there is no label in data
+const acme = {
+    id: DATA + 'acme',
+    types: [SCHEMA + 'Organization'],
+    label: {values: [{text: 'acme', lang: ''}]},
+    properties: {},
+};
+const worksFor = {linkTypeId: SCHEMA + 'worksFor', sourceId: alice.id, targetId: acme.id, directLink: true};
+const virtualLink = {linkTypeId: SCHEMA + 'partnerOf', sourceId: acme.id, targetId: alice.id, directLink: false};
+
+function checkSerialize() {
+    const document = serializeJsonLd({
+        elements: [alice, acme],
+        links: [worksFor],
+        virtualLinks: [virtualLink],
+        prefixes,
+    });
+    assert.equal(document['@context'].ex, SCHEMA, 'used prefixes are declared in context');
+    const [aliceNode, acmeNode] = document['@graph'];
+    assert.deepEqual(aliceNode['@type'], ['ex:Person'], 'types are compacted');
+    assert.deepEqual(aliceNode['ex:worksFor'], [{'@id': acme.id}], 'links are serialized as statements');
+    assert.equal(acmeNode['rdfs:label'], undefined, 'generated label is not serialized');
+    assert.equal(acmeNode['kce:virtualLink'].length, 1, 'virtual link is serialized as node');
+    return document;
+}
+
+function checkParse(document) {
+    const {triples} = parseJsonLd(document);
+    assert(triples.some(({subject, predicate, object}) =>
+        subject === alice.id && predicate === SCHEMA + 'age' && object === `"42"^^${XSD_INTEGER}`
+    ), 'typed literal is parsed');
+
+    const provider = new RdfFileDataProvider({files: [{content: JSON.stringify(document), type: JSON_LD_FORMAT}]});
+    return provider.loaded.then(() => {
+        assert.deepEqual(readVirtualLinks(provider.store), [virtualLink], 'virtual links are read back');
+        return Promise.all([
+            provider.elementInfo({elementIds: [alice.id, acme.id]}),
+            provider.linksInfo({elementIds: [alice.id, acme.id], linkTypeIds: [worksFor.linkTypeId]}),
+        ]);
+    }).then(([elements, links]) => {
+        const element = elements[alice.id];
+        assert.deepEqual(element.types, alice.types, 'types are read back');
+        assert.deepEqual(element.label.values.map(label => label.text).sort(), ['Alice', 'Алиса'],
+            'labels are read back');
+        assert.equal(element.properties[SCHEMA + 'age'].values[0].text, '42', 'properties are read back');
+        assert.deepEqual(links.map(link => [link.sourceId, link.linkTypeId, link.targetId]),
+            [[alice.id, worksFor.linkTypeId, acme.id]], 'links are read back');
+    });
+}
+
+Promise.resolve()
+    .then(checkSerialize)
+    .then(checkParse)
+    .then(() => {
+        console.log('JSON-LD export and import work');
+    }, error => {
+        console.error(error);
+        process.exitCode = 1;
+    });
@@ -0,0 +1,56 @@
+/**
+ * Checks KeyConceptExtractor on synthetic ontology: extracts the requested number
+ * of distinct key concepts including root, navigates hierarchy and restores saved state.
+ *
+ * Usage: node src/examples/checks/checkKeyConcepts.js
+ */
+'use strict';
+
+const assert = require('assert');
+
+require('./registerTypeScript');
+
+const {getClassTree} = require('../../ontodia/data/sparql/responseHandler.ts');
+const {KeyConceptExtractor} = require('../../ontodia/kce/keyConceptExtractor.ts');
+const {generateClassTree} = require('../kce/syntheticOntology.ts');
+
+const CLASS_COUNT = 2000;
+const KEY_CONCEPT_COUNT = 30;
+
+try {
+    const [, root] = getClassTree(generateClassTree({classCount: CLASS_COUNT}));
+    const extractor = new KeyConceptExtractor(root);
+
+    const ranked = extractor.rankConcepts();
+    assert(ranked.length >= CLASS_COUNT, 'every concept is ranked');
+    for (let i = 1; i < ranked.length; i++) {
+        assert(ranked[i - 1].score >= ranked[i].score, 'concepts are sorted by score');
+    }
+
+    const keyConcepts = extractor.extract(KEY_CONCEPT_COUNT);
+    const keyConceptIds = keyConcepts.map(concept => concept.id);
+    assert.equal(keyConcepts.length, KEY_CONCEPT_COUNT, 'requested number of key concepts is extracted');
+    assert.equal(new Set(keyConceptIds).size, KEY_CONCEPT_COUNT, 'key concepts are distinct');
+    assert(keyConceptIds.indexOf(root.id) >= 0, 'root is a key concept');
+
+    const [concept] = root.children[0].children;
+    const superConcepts = extractor.getSuperConcepts(concept);
+    assert.equal(superConcepts[0].id, root.children[0].id, 'the nearest super concept goes first');
+    assert(superConcepts.some(superConcept => superConcept.id === root.id), 'root is a super concept');
+    assert(extractor.getSubConcepts(root).length >= CLASS_COUNT - 1, 'every concept is a sub concept of root');
+
+    for (const loaded of extractor.loadMore(concept, 5)) {
+        assert(!loaded.presentOnDiagram, 'only concepts which are not on diagram are loaded');
+        assert(extractor.getSuperConcepts(loaded).indexOf(concept) >= 0, 'loaded concept is a sub concept');
+    }
+
+    const state = extractor.exportState();
+    const restored = new KeyConceptExtractor(root).importState(state);
+    assert.deepEqual(restored.map(restoredConcept => restoredConcept.id), keyConceptIds,
+        'key concepts are restored from state');
+
+    console.log('KeyConceptExtractor works');
+} catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+}
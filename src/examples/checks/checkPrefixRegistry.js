@@ -0,0 +1,48 @@
+/**
+ * Checks PrefixRegistry: CURIEs with the longest matching namespace, display names
+ * and learning prefixes from loaded data without overriding registered ones.
+ *
+ * Usage: node src/examples/checks/checkPrefixRegistry.js
+ */
+'use strict';
+
+const assert = require('assert');
+
+require('./registerTypeScript');
+
+const {PrefixRegistry, COMMON_PREFIXES, getLocalName} = require('../../ontodia/data/prefixRegistry.ts');
+
+const RDFS = COMMON_PREFIXES.rdfs;
+
+try {
+    const registry = new PrefixRegistry();
+    assert.equal(registry.toCurie(RDFS + 'label'), 'rdfs:label', 'common prefixes are registered by default');
+    assert.equal(registry.expandCurie('rdfs:label'), RDFS + 'label', 'CURIE is expanded');
+    assert.equal(registry.toCurie('http://example.com/unknown#name'), undefined, 'unknown namespace has no CURIE');
+    assert.equal(registry.compactIri('http://example.com/a b'), 'http://example.com/a b', 'IRI without CURIE');
+
+    registry.register('ex', 'http://example.com/');
+    registry.register('exs', 'http://example.com/schema/');
+    assert.equal(registry.toCurie('http://example.com/schema/Person'), 'exs:Person', 'longest namespace wins');
+    assert.equal(registry.toCurie('http://example.com/a/b'), undefined, 'local name cannot contain slash');
+    assert.equal(registry.toDisplayName('http://example.com/a/b'), 'b', 'display name falls back to local name');
+    assert.throws(() => registry.register('1ex', 'http://example.com/'), /Invalid prefix name/);
+
+    registry.learn({ex: 'http://other.com/', other: 'http://example.com/', data: 'http://data.com/', 'a b': 'x'});
+    assert.equal(registry.getNamespace('ex'), 'http://example.com/', 'learned prefix does not override registered');
+    assert(!registry.has('other'), 'already registered namespace is not learned under another prefix');
+    assert(!registry.has('a b'), 'invalid prefix is not learned');
+    assert.equal(registry.toCurie('http://data.com/item'), 'data:item', 'new prefix is learned');
+
+    const copy = registry.getPrefixes();
+    copy.ex = 'http://changed.com/';
+    assert.equal(registry.getNamespace('ex'), 'http://example.com/', 'prefixes are returned as a copy');
+
+    assert.equal(getLocalName('http://example.com/schema#name'), 'name', 'local name after hash');
+    assert.equal(getLocalName('http://example.com/schema/'), 'http://example.com/schema/', 'no local name');
+
+    console.log('PrefixRegistry works');
+} catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+}
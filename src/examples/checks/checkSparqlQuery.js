@@ -0,0 +1,52 @@
+/**
+ * Checks SPARQL query builder: escaping of literals, validation of IRIs,
+ * variables and language tags, and rejection of plain strings in `sparql` template.
+ *
+ * Usage: node src/examples/checks/checkSparqlQuery.js
+ */
+'use strict';
+
+const assert = require('assert');
+
+require('./registerTypeScript');
+
+const {
+    sparql, raw, iri, literal, integer, variable, join, values, prefixes,
+} = require('../../ontodia/data/sparql/sparqlQuery.ts');
+
+try {
+    assert.equal(literal('say "hi"\n\\ \t\r').text, '"say \\"hi\\"\\n\\\\ \\t\\r"', 'special characters are escaped');
+    assert.equal(literal('" } ; DROP ALL #').text, '"\\" } ; DROP ALL #"', 'injected query text stays in literal');
+    assert.equal(literal('text', {lang: 'en-US'}).text, '"text"@en-US', 'literal with language tag');
+    assert.equal(literal('1', {datatype: 'http://www.w3.org/2001/XMLSchema#integer'}).text,
+        '"1"^^<http://www.w3.org/2001/XMLSchema#integer>', 'literal with datatype');
+    assert.throws(() => literal('text', {lang: 'en" } #'}), /Invalid language tag/);
+    assert.throws(() => literal('1', {datatype: 'http://example.com/> } #'}), /Invalid IRI/);
+
+    assert.equal(iri('http://example.com/a').text, '<http://example.com/a>', 'IRI is wrapped into brackets');
+    for (const invalid of ['http://example.com/a>', 'http://example.com/a b', 'http://example.com/{x}']) {
+        assert.throws(() => iri(invalid), /Invalid IRI/, `IRI ${JSON.stringify(invalid)} is rejected`);
+    }
+    assert.throws(() => integer(-1), /Invalid non-negative integer/);
+    assert.throws(() => integer(1.5), /Invalid non-negative integer/);
+    assert.throws(() => variable('x y'), /Invalid variable name/);
+    assert.throws(() => prefixes({'a b': 'http://example.com/'}), /Invalid prefix name/);
+
+    const ids = ['http://example.com/a', 'http://example.com/b'];
+    assert.equal(values('inst', ids.map(iri)).text,
+        'VALUES ?inst { <http://example.com/a> <http://example.com/b> }', 'VALUES with single variable');
+    assert.equal(values(['inst', 'label'], [[iri(ids[0]), literal('A')]]).text,
+        'VALUES (?inst ?label) { (<http://example.com/a> "A") }', 'VALUES with several variables');
+    assert.throws(() => values(['inst', 'label'], [[iri(ids[0])]]), /does not match number of variables/);
+
+    const query = sparql`SELECT ${variable('inst')} WHERE { ${raw('?inst ?p ?o')}
+        FILTER (?o IN (${join(ids.map(iri))})) } LIMIT ${integer(10)}`;
+    assert.equal(query.text, 'SELECT ?inst WHERE { ?inst ?p ?o\n        FILTER '
+        + '(?o IN (<http://example.com/a>, <http://example.com/b>)) } LIMIT 10', 'fragments are interpolated');
+    assert.throws(() => sparql`SELECT * WHERE { ?s ?p ${'"x"'} }`, /Cannot interpolate non-SPARQL value/);
+
+    console.log('SPARQL query builder works');
+} catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+}
@@ -0,0 +1,15 @@
+/**
+ * Compiles TypeScript sources on the fly when they are required from Node.js check scripts.
+ */
+'use strict';
+
+const fs = require('fs');
+const ts = require('typescript');
+
+require.extensions['.ts'] = (module, filename) => {
+    const {outputText} = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+        compilerOptions: {module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES5},
+        fileName: filename,
+    });
+    module._compile(outputText, filename);
+};
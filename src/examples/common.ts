@@ -1,5 +1,8 @@
 import { LayoutData } from '../index';
 
+/** Computation worker bundle built from `worker` entry of demo webpack config. */
+export const WORKER_URL = 'worker.bundle.js';
+
 export function onPageLoad(callback: (container: HTMLDivElement) => void) {
     document.addEventListener('DOMContentLoaded', () => {
         const container = document.createElement('div');
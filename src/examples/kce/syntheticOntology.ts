@@ -0,0 +1,93 @@
+import { SparqlResponse, ClassBinding } from '../../ontodia/data/sparql/sparqlModels';
+
+export interface SyntheticOntologyParams {
+    classCount: number;
+    /**
+     * Probability of class to have second parent.
+     * @default 0.05
+     */
+    multipleInheritance?: number;
+    /**
+     * Maximum number of direct sub classes of a class.
+     * @default 12
+     */
+    maxBranching?: number;
+    /** @default 1 */
+    seed?: number;
+}
+
+const BASE_IRI = 'http://example.com/synthetic#';
+
+const WORDS = [
+    'Process', 'Cell', 'Protein', 'Activity', 'Binding', 'Region', 'Structure', 'Disorder', 'Finding',
+    'Organism', 'Substance', 'Procedure', 'Receptor', 'Membrane', 'Transport', 'Complex', 'Tissue',
+    'Signal', 'Pathway', 'Body', 'Regulation', 'Response', 'Development', 'Factor', 'Enzyme', 'Gene',
+];
+
+/**
+ * Generates class hierarchy in the form of SPARQL response for class tree query:
+ * classes are added level by level, so hierarchy has realistic depth, and each class
+ * may have a second parent from previous levels which makes hierarchy a DAG.
+ *
+ * The same params always produce the same ontology.
+ */
+export function generateClassTree(params: SyntheticOntologyParams): SparqlResponse<ClassBinding> {
+    const {classCount, multipleInheritance = 0.05, maxBranching = 12, seed = 1} = params;
+    const random = createRandom(seed);
+    const randomInt = (max: number) => Math.floor(random() * max);
+
+    const bindings: ClassBinding[] = [];
+    const names: string[] = [];
+    const addClass = (index: number, name: string, parentIndex?: number) => {
+        bindings.push({
+            class: {type: 'uri', value: BASE_IRI + index},
+            label: {type: 'literal', value: name, 'xml:lang': 'en'},
+            instcount: {type: 'literal', value: String(randomInt(100)), 'xml:lang': ''},
+            parent: parentIndex === undefined ? undefined : {type: 'uri', value: BASE_IRI + parentIndex},
+        });
+    };
+
+    names.push('Thing');
+    addClass(0, names[0]);
+
+    // breadth-first: each class of the previous level gets random number of sub classes
+    let levelStart = 0;
+    let levelEnd = 1;
+    while (names.length < classCount) {
+        for (let parent = levelStart; parent < levelEnd && names.length < classCount; parent++) {
+            const childCount = Math.min(1 + randomInt(maxBranching), classCount - names.length);
+            for (let i = 0; i < childCount; i++) {
+                const index = names.length;
+                // sub class names are usually specializations of parent name, e.g. 'Membrane Transport'
+                const word = WORDS[randomInt(WORDS.length)];
+                const parentName = names[parent];
+                const name = parent === 0 || parentName.split(' ').length >= 3 || random() < 0.3
+                    ? word : `${word} ${parentName}`;
+                names.push(name);
+                addClass(index, name, parent);
+
+                if (parent > 0 && random() < multipleInheritance) {
+                    // parents from previous levels keep hierarchy acyclic
+                    const secondParent = 1 + randomInt(levelEnd - 1);
+                    if (secondParent !== parent) {
+                        addClass(index, name, secondParent);
+                    }
+                }
+            }
+        }
+        levelStart = levelEnd;
+        levelEnd = names.length;
+    }
+
+    return {head: {vars: ['class', 'instcount', 'label', 'parent']}, results: {bindings}};
+}
+
+/** Park-Miller pseudo-random generator, returns numbers in [0, 1). */
+function createRandom(seed: number): () => number {
+    let state = seed % 2147483647;
+    if (state <= 0) { state += 2147483646; }
+    return () => {
+        state = state * 16807 % 2147483647;
+        return (state - 1) / 2147483646;
+    };
+}
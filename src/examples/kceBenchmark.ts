@@ -0,0 +1,78 @@
+import { getClassTree } from '../ontodia/data/sparql/responseHandler';
+import { KeyConceptExtractor } from '../ontodia/kce/keyConceptExtractor';
+
+import { onPageLoad } from './common';
+import { generateClassTree } from './kce/syntheticOntology';
+
+const CLASS_COUNTS = [1000, 10000, 50000];
+const KEY_CONCEPT_COUNT = 50;
+
+interface BenchmarkResult {
+    classCount: number;
+    /** Durations of benchmark steps in milliseconds. */
+    timings: Array<{ step: string; duration: number }>;
+}
+
+/**
+ * Measures each step of visualization with Key Concepts Extraction
+ * on synthetic ontology from SPARQL response to loading more concepts.
+ */
+function runBenchmark(classCount: number): BenchmarkResult {
+    const timings: BenchmarkResult['timings'] = [];
+    const measure = <T>(step: string, action: () => T): T => {
+        const start = performance.now();
+        const result = action();
+        timings.push({step, duration: performance.now() - start});
+        return result;
+    };
+
+    const response = generateClassTree({classCount});
+    const [, root] = measure('Build class tree', () => getClassTree(response));
+    const extractor = measure('Index concepts', () => new KeyConceptExtractor(root));
+    measure('Compute metrics', () => extractor.rankConcepts());
+    const keyConcepts = measure(`Extract ${KEY_CONCEPT_COUNT} key concepts`,
+        () => extractor.extract(KEY_CONCEPT_COUNT));
+    keyConcepts.forEach(concept => { concept.presentOnDiagram = true; });
+    measure('Load more concepts', () => extractor.loadMore(keyConcepts[keyConcepts.length - 1]));
+
+    return {classCount, timings};
+}
+
+function renderResult({classCount, timings}: BenchmarkResult): HTMLElement {
+    const section = document.createElement('div');
+    const heading = document.createElement('h4');
+    heading.textContent = `${classCount} classes`;
+    section.appendChild(heading);
+
+    const table = document.createElement('table');
+    table.className = 'table table-condensed';
+    const total = timings.reduce((sum, {duration}) => sum + duration, 0);
+    for (const {step, duration} of [...timings, {step: 'Total', duration: total}]) {
+        const row = table.insertRow();
+        row.insertCell().textContent = step;
+        row.insertCell().textContent = `${duration.toFixed(0)} ms`;
+    }
+    section.appendChild(table);
+    return section;
+}
+
+onPageLoad(container => {
+    container.style.overflow = 'auto';
+    container.style.padding = '10px';
+    const status = document.createElement('p');
+    container.appendChild(status);
+
+    // run benchmarks one by one to let browser render results in between
+    const runNext = (index: number) => {
+        if (index >= CLASS_COUNTS.length) {
+            status.textContent = 'Done.';
+            return;
+        }
+        status.textContent = `Running benchmark for ${CLASS_COUNTS[index]} classes...`;
+        setTimeout(() => {
+            container.insertBefore(renderResult(runBenchmark(CLASS_COUNTS[index])), status);
+            runNext(index + 1);
+        }, 50);
+    };
+    runNext(0);
+});
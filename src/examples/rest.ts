@@ -0,0 +1,40 @@
+import { createElement, ClassAttributes } from 'react';
+import * as ReactDOM from 'react-dom';
+
+import { Workspace, WorkspaceProps, RestGraphDataProvider } from '../index';
+
+import { onPageLoad, tryLoadLayoutFromLocalStorage, saveLayoutToLocalStorage, WORKER_URL } from './common';
+import { STAND_IN_MAPPING } from './rest/restMapping';
+
+require('jointjs/css/layout.css');
+require('jointjs/css/themes/default.css');
+
+function onWorkspaceMounted(workspace: Workspace) {
+    if (!workspace) { return; }
+
+    const model = workspace.getModel();
+    model.graph.on('action:iriClick', (iri: string) => window.open(iri));
+
+    // start stand-in server with `node src/examples/rest/standInServer.js`
+    const layoutData = tryLoadLayoutFromLocalStorage();
+    model.importLayout({
+        layoutData,
+        validateLinks: true,
+        dataProvider: new RestGraphDataProvider({
+            baseUrl: '/rest-api',
+            mapping: STAND_IN_MAPPING,
+        }),
+    });
+}
+
+const props: WorkspaceProps & ClassAttributes<Workspace> = {
+    ref: onWorkspaceMounted,
+    onSaveDiagram: workspace => {
+        const {layoutData} = workspace.getModel().exportLayout();
+        window.location.hash = saveLayoutToLocalStorage(layoutData);
+        window.location.reload();
+    },
+    viewOptions: {workerUrl: WORKER_URL},
+};
+
+onPageLoad(container => ReactDOM.render(createElement(Workspace, props), container));
@@ -0,0 +1,103 @@
+/**
+ * Checks RestGraphDataProvider with STAND_IN_MAPPING against the stand-in server:
+ * starts the server on a free port, runs every provider request and verifies
+ * models built from graph.json.
+ *
+ * Usage: node src/examples/rest/checkStandInServer.js
+ */
+'use strict';
+
+const assert = require('assert');
+const http = require('http');
+
+require('../checks/registerTypeScript');
+
+const {createServer} = require('./standInServer');
+
+const {RestGraphDataProvider} = require('../../ontodia/data/rest/restGraphDataProvider.ts');
+const {STAND_IN_MAPPING} = require('./restMapping.ts');
+
+const SCHEMA = 'http://example.com/schema/';
+const DATA = 'http://example.com/data/';
+
+function nodeFetch(request) {
+    return new Promise((resolve, reject) => {
+        http.get(request.url, response => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', chunk => { body += chunk; });
+            response.on('end', () => {
+                if (response.statusCode === 200) {
+                    resolve(JSON.parse(body));
+                } else {
+                    reject(new Error(`Request ${request.url} failed with status ${response.statusCode}`));
+                }
+            });
+        }).on('error', reject);
+    });
+}
+
+function runChecks(provider) {
+    const elementIds = [DATA + 'alice', DATA + 'bob', DATA + 'acme'];
+    return Promise.all([
+        provider.classTree().then(([classTree]) => {
+            const agent = classTree.filter(cls => cls.id === SCHEMA + 'Agent')[0];
+            assert(agent, 'class tree contains Agent');
+            assert.deepEqual(agent.children.map(cls => cls.id).sort(),
+                [SCHEMA + 'Organization', SCHEMA + 'Person'], 'Agent has Person and Organization subclasses');
+        }),
+        provider.linkTypes().then(linkTypes => {
+            assert.equal(linkTypes.length, 3, 'all link types are loaded');
+        }),
+        provider.elementInfo({elementIds}).then(elements => {
+            assert.deepEqual(Object.keys(elements).sort(), elementIds.slice().sort(), 'all elements are loaded');
+            const alice = elements[DATA + 'alice'];
+            assert.deepEqual(alice.types, [SCHEMA + 'Person'], 'element types are loaded');
+            assert.equal(alice.label.values.length, 2, 'labels in every language are loaded');
+            assert(alice.properties[SCHEMA + 'email'], 'literal properties are loaded');
+        }),
+        provider.linksInfo({
+            elementIds: [DATA + 'alice', DATA + 'acme'],
+            linkTypeIds: [SCHEMA + 'worksFor', SCHEMA + 'knows'],
+        }).then(links => {
+            assert.deepEqual(links.map(link => [link.sourceId, link.linkTypeId, link.targetId]),
+                [[DATA + 'alice', SCHEMA + 'worksFor', DATA + 'acme']], 'only links between given elements');
+        }),
+        provider.linkTypesOf({elementId: DATA + 'alice'}).then(linkCounts => {
+            assert(linkCounts.length > 0, 'link types of element are loaded');
+        }),
+        provider.filter({elementTypeId: SCHEMA + 'Person', text: 'ali', limit: 10, offset: 0, languageCode: 'en'})
+            .then(elements => {
+                assert.deepEqual(Object.keys(elements), [DATA + 'alice'], 'search by type and text');
+            }),
+    ]);
+}
+
+function checkUnknownPlaceholder(baseUrl) {
+    const provider = new RestGraphDataProvider({
+        baseUrl,
+        mapping: Object.assign({}, STAND_IN_MAPPING, {
+            linkTypesOf: {url: '/nodes/link-types?id={unknown}', id: 'id', count: 'count'},
+        }),
+        fetch: nodeFetch,
+    });
+    return provider.linkTypesOf({elementId: DATA + 'alice'}).then(
+        () => assert.fail('request with unknown URL placeholder should fail'),
+        error => assert(/Unknown parameter \{unknown\}/.test(error.message), 'unknown placeholder is reported')
+    );
+}
+
+const server = createServer();
+server.listen(0, () => {
+    const baseUrl = `http://localhost:${server.address().port}`;
+    const provider = new RestGraphDataProvider({baseUrl, mapping: STAND_IN_MAPPING, fetch: nodeFetch});
+    runChecks(provider)
+        .then(() => checkUnknownPlaceholder(baseUrl))
+        .then(() => {
+            console.log('RestGraphDataProvider works with stand-in server');
+        }, error => {
+            console.error(error);
+            process.exitCode = 1;
+        })
+        .then(() => server.close());
+});
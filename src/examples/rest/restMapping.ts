@@ -0,0 +1,31 @@
+import { RestGraphMapping } from '../../index';
+
+/**
+ * Mapping of RestGraphDataProvider requests to the stand-in server API (see standInServer.js).
+ */
+export const STAND_IN_MAPPING: RestGraphMapping = {
+    classTree: {url: '/classes', id: 'id', label: 'label', parent: 'parents[*]', count: 'count'},
+    linkTypes: {url: '/link-types', id: 'id', label: 'label', count: 'count'},
+    elementInfo: {
+        url: '/nodes?ids={elementIds}',
+        id: 'id',
+        label: 'labels[*]',
+        types: 'types[*]',
+        properties: 'properties',
+    },
+    linksInfo: {
+        url: '/edges?ids={elementIds}&types={linkTypeIds}',
+        source: 'from',
+        type: 'type',
+        target: 'to',
+    },
+    linkTypesOf: {url: '/nodes/link-types?id={elementId}', id: 'id', count: 'count'},
+    filter: {
+        url: '/search?type={elementTypeId}&text={text}&ref={refElementId}&refLink={refElementLinkId}' +
+            '&limit={limit}&offset={offset}',
+        items: '$.results[*]',
+        id: 'id',
+        label: 'labels[*]',
+        types: 'types[*]',
+    },
+};
@@ -0,0 +1,126 @@
+/**
+ * Tiny stand-in for a JSON graph REST API which serves graph.json
+ * for the RestGraphDataProvider example (see restMapping.ts).
+ *
+ * Usage: node src/examples/rest/standInServer.js [port]
+ *
+ * The provider is checked against this server with `npm run check-rest`.
+ *
+ *     GET /classes                         -> [{id, label, parents, count}]
+ *     GET /link-types                      -> [{id, label, count}]
+ *     GET /nodes?ids=a,b                   -> [{id, labels, types, properties}]
+ *     GET /edges?ids=a,b&types=x,y         -> [{from, type, to}] between given nodes
+ *     GET /nodes/link-types?id=a           -> [{id, count}] of edges incident to node
+ *     GET /search?type=&text=&ref=&refLink=&limit=&offset=
+ *                                          -> {total, results: [{id, labels, types}]}
+ */
+'use strict';
+
+const http = require('http');
+const url = require('url');
+const path = require('path');
+const fs = require('fs');
+
+const graph = JSON.parse(fs.readFileSync(path.join(__dirname, 'graph.json'), 'utf8'));
+
+function splitIds(value) {
+    return value ? value.split(',').filter(id => id.length > 0) : [];
+}
+
+function countBy(items, getKey) {
+    const counts = {};
+    for (const item of items) {
+        const key = getKey(item);
+        counts[key] = (counts[key] || 0) + 1;
+    }
+    return counts;
+}
+
+function matchesText(node, text) {
+    if (!text) { return true; }
+    const needle = text.toLowerCase();
+    return node.labels.some(label => label.value.toLowerCase().indexOf(needle) >= 0);
+}
+
+function isLinked(nodeId, refId, linkType) {
+    return graph.edges.some(edge => (!linkType || edge.type === linkType) && (
+        (edge.from === refId && edge.to === nodeId) ||
+        (edge.to === refId && edge.from === nodeId)
+    ));
+}
+
+const routes = {
+    '/classes': () => {
+        const instanceCounts = {};
+        for (const node of graph.nodes) {
+            for (const type of node.types) {
+                instanceCounts[type] = (instanceCounts[type] || 0) + 1;
+            }
+        }
+        return graph.classes.map(cls => Object.assign({parents: [], count: instanceCounts[cls.id] || 0}, cls));
+    },
+    '/link-types': () => {
+        const counts = countBy(graph.edges, edge => edge.type);
+        return graph.linkTypes.map(type => Object.assign({count: counts[type.id] || 0}, type));
+    },
+    '/nodes': query => {
+        const ids = splitIds(query.ids);
+        return graph.nodes.filter(node => ids.indexOf(node.id) >= 0);
+    },
+    '/edges': query => {
+        const ids = splitIds(query.ids);
+        const types = splitIds(query.types);
+        return graph.edges.filter(edge =>
+            ids.indexOf(edge.from) >= 0 && ids.indexOf(edge.to) >= 0 && types.indexOf(edge.type) >= 0);
+    },
+    '/nodes/link-types': query => {
+        const incident = graph.edges.filter(edge => edge.from === query.id || edge.to === query.id);
+        const counts = countBy(incident, edge => edge.type);
+        return Object.keys(counts).map(id => ({id, count: counts[id]}));
+    },
+    '/search': query => {
+        const limit = Number(query.limit) || 100;
+        const offset = Number(query.offset) || 0;
+        const found = graph.nodes.filter(node =>
+            (!query.type || node.types.indexOf(query.type) >= 0) &&
+            (!query.ref || isLinked(node.id, query.ref, query.refLink)) &&
+            matchesText(node, query.text)
+        );
+        return {
+            total: found.length,
+            results: found.slice(offset, offset + limit).map(node => ({
+                id: node.id,
+                labels: node.labels,
+                types: node.types,
+            })),
+        };
+    },
+};
+
+function createServer() {
+    return http.createServer((request, response) => {
+        const parsed = url.parse(request.url, true);
+        const route = routes[parsed.pathname];
+        response.setHeader('Access-Control-Allow-Origin', '*');
+        response.setHeader('Access-Control-Allow-Headers', 'Accept, Authorization, Content-Type');
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204);
+            response.end();
+        } else if (request.method !== 'GET' || !route) {
+            response.writeHead(404, {'Content-Type': 'application/json'});
+            response.end(JSON.stringify({error: `Not found: ${request.method} ${parsed.pathname}`}));
+        } else {
+            response.writeHead(200, {'Content-Type': 'application/json; charset=utf-8'});
+            response.end(JSON.stringify(route(parsed.query)));
+        }
+    });
+}
+
+module.exports = {createServer};
+
+if (require.main === module) {
+    const port = Number(process.argv[2]) || 10445;
+    createServer().listen(port, () => {
+        console.log(`REST graph stand-in server is listening on http://localhost:${port}`);
+    });
+}
@@ -1,10 +1,9 @@
 import { createElement, ClassAttributes } from 'react';
 import * as ReactDOM from 'react-dom';
-import Config  from '../../stardogConfig';
 
 import { Workspace, WorkspaceProps, SparqlDataProvider } from '../index';
 
-import { onPageLoad, tryLoadLayoutFromLocalStorage, saveLayoutToLocalStorage } from './common';
+import { onPageLoad, tryLoadLayoutFromLocalStorage, saveLayoutToLocalStorage, WORKER_URL } from './common';
 
 require('jointjs/css/layout.css');
 require('jointjs/css/themes/default.css');
@@ -19,6 +18,8 @@ function onWorkspaceMounted(workspace: Workspace) {
     });
 
     let stardogEndpoint = getParam('uri');
+    const username = getParam('user');
+    const password = getParam('password');
 
     // load default stardog endpoint from config file if param uri not found
     // if(!stardogEndpoint) {
@@ -32,6 +33,7 @@ function onWorkspaceMounted(workspace: Workspace) {
         validateLinks: true,
         dataProvider: new SparqlDataProvider({
             endpointUrl: stardogEndpoint,
+            auth: username ? {type: 'basic', username, password} : {type: 'none'},
             imageClassUris: [
                 'http://collection.britishmuseum.org/id/ontology/PX_has_main_representation',
                 'http://xmlns.com/foaf/0.1/img',
@@ -55,6 +57,7 @@ const props: WorkspaceProps & ClassAttributes<Workspace> = {
         window.location.hash = saveLayoutToLocalStorage(layoutData);
         window.location.reload();
     },
+    viewOptions: {workerUrl: WORKER_URL},
 };
 
 onPageLoad(container => ReactDOM.render(createElement(Workspace, props), container));
@@ -4,13 +4,34 @@ require('../styles/main.scss');
 
 export * from './ontodia/customization/props';
 export * from './ontodia/customization/defaultTemplate';
+export * from './ontodia/customization/propertyValueFormat';
 export * from './ontodia/customization/templates/stringTemplates';
 export * from './ontodia/data/model';
 export * from './ontodia/data/provider';
+export * from './ontodia/data/cancellation';
+export * from './ontodia/data/prefixRegistry';
 export { RdfNode, RdfIri, RdfLiteral, Triple } from './ontodia/data/sparql/sparqlModels';
 export * from './ontodia/data/sparql/provider';
+export * from './ontodia/data/sparql/sparqlTransport';
+export * from './ontodia/data/sparql/textSearch';
+export * from './ontodia/data/sparql/sparqlQuery';
+export * from './ontodia/data/rdf/rdfFileDataProvider';
+export * from './ontodia/data/rdf/jsonLd';
+export * from './ontodia/data/rdf/rdfSerializer';
+export * from './ontodia/data/rest/jsonPath';
+export * from './ontodia/data/rest/restGraphDataProvider';
+export * from './ontodia/data/tabular/csv';
+export * from './ontodia/data/tabular/tabularDataProvider';
+export * from './ontodia/data/cache/cachingDataProvider';
+export * from './ontodia/data/composite/compositeDataProvider';
 export { Element, Link } from './ontodia/diagram/elements';
 export { LayoutData, LayoutCell, LayoutElement, LayoutLink } from './ontodia/diagram/layoutData';
 export * from './ontodia/diagram/model';
 export * from './ontodia/diagram/view';
+export * from './ontodia/kce/conceptRanking';
+export * from './ontodia/kce/keyConceptExtractor';
+export * from './ontodia/worker/computationWorker';
+export { ComputationProgress } from './ontodia/worker/protocol';
+export * from './ontodia/export/exportedGraph';
+export * from './ontodia/export/graphExport';
 export { Workspace, Props as WorkspaceProps } from './ontodia/workspace/workspace';
@@ -56,6 +56,89 @@ const LINK_TYPE_OF: LinkStyle = {
     },
 };
 
+const LINK_EQUIVALENT_CLASS: LinkStyle = {
+    connection: {
+        stroke: '#3a9b48',
+        'stroke-width': 3,
+    },
+    markerSource: {
+        d: 'M9,0 L9,8 L0,4 z',
+        width: 9,
+        height: 8,
+        fill: '#3a9b48',
+        stroke: '#2b7336',
+    },
+    markerTarget: {
+        fill: '#3a9b48',
+        stroke: '#2b7336',
+    },
+};
+
+const LINK_DISJOINT_WITH: LinkStyle = {
+    connection: {
+        stroke: '#d9534f',
+        'stroke-width': 2,
+        'stroke-dasharray': '8,4',
+    },
+    markerSource: {
+        d: 'M9,0 L9,8 L0,4 z',
+        width: 9,
+        height: 8,
+        fill: '#d9534f',
+        stroke: '#a94442',
+    },
+    markerTarget: {
+        fill: '#d9534f',
+        stroke: '#a94442',
+    },
+};
+
+const LINK_UNION_OF: LinkStyle = {
+    connection: {
+        stroke: '#8e44ad',
+        'stroke-width': 2,
+        'stroke-dasharray': '2,4',
+    },
+    markerTarget: {
+        fill: '#8e44ad',
+        stroke: '#6c3483',
+    },
+};
+
+const LINK_INTERSECTION_OF: LinkStyle = {
+    connection: {
+        stroke: '#8e44ad',
+        'stroke-width': 2,
+    },
+    markerTarget: {
+        fill: '#8e44ad',
+        stroke: '#6c3483',
+    },
+};
+
+const LINK_SOME_VALUES_FROM: LinkStyle = {
+    connection: {
+        stroke: '#e67e22',
+        'stroke-width': 2,
+        'stroke-dasharray': '6,3',
+    },
+    markerTarget: {
+        fill: '#e67e22',
+        stroke: '#b9651b',
+    },
+};
+
+const LINK_ALL_VALUES_FROM: LinkStyle = {
+    connection: {
+        stroke: '#e67e22',
+        'stroke-width': 2,
+    },
+    markerTarget: {
+        fill: '#e67e22',
+        stroke: '#b9651b',
+    },
+};
+
 export const DefaultLinkStyleBundle: LinkStyleResolver[] = [
     (type, directLink)  => {
         if (type === 'http://www.w3.org/2000/01/rdf-schema#subClassOf') {
@@ -72,6 +155,18 @@ export const DefaultLinkStyleBundle: LinkStyleResolver[] = [
             return LINK_TYPE_OF;
         } else if (type === 'http://www.semanticweb.org/tuyenhuynh/ontologies/2017/1/kce#hasRelationWith') {
             return LINK_INDIRECT_RELATION;
+        } else if (type === 'http://www.w3.org/2002/07/owl#equivalentClass') {
+            return LINK_EQUIVALENT_CLASS;
+        } else if (type === 'http://www.w3.org/2002/07/owl#disjointWith') {
+            return LINK_DISJOINT_WITH;
+        } else if (type === 'http://www.w3.org/2002/07/owl#unionOf') {
+            return LINK_UNION_OF;
+        } else if (type === 'http://www.w3.org/2002/07/owl#intersectionOf') {
+            return LINK_INTERSECTION_OF;
+        } else if (type === 'http://www.w3.org/2002/07/owl#someValuesFrom') {
+            return LINK_SOME_VALUES_FROM;
+        } else if (type === 'http://www.w3.org/2002/07/owl#allValuesFrom') {
+            return LINK_ALL_VALUES_FROM;
         } else {
             return undefined;
         }
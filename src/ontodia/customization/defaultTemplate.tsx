@@ -1,6 +1,9 @@
 import * as React from 'react';
 
+import { PropertyValue } from '../data/model';
+
 import { TemplateProps } from './props';
+import { formatPropertyValue, getReferencedResource, getPropertyValueUrl } from './propertyValueFormat';
 
 const CLASS_NAME = 'ontodia-default-template';
 
@@ -19,15 +22,17 @@ export class DefaultTemplate extends React.Component<TemplateProps, {}> {
         if (props.propsAsList && props.propsAsList.length > 0) {
             propertyTable = <div className='ontodia-default-template_body_expander_property-table'>
                 {props.propsAsList.map(prop => {
-                    const values = prop.property.values.map(({text}, index) =>
+                    const values = prop.property.values.map((value, index) =>
                         <div className='ontodia-default-template_body_expander_property-table_row_key_values__value'
-                            key={index} title={text}>
-                            {text}
+                            key={index} title={value.text}>
+                            {renderPropertyValue(value)}
                         </div>
                     );
+                    const sources = prop.property.sources && prop.property.sources.length > 0
+                        ? ' from ' + prop.property.sources.join(', ') : '';
                     return (
                         <div key={prop.id} className='ontodia-default-template_body_expander_property-table_row'>
-                            <div title={prop.name + ' (' + prop.id + ')'}
+                            <div title={prop.name + ' (' + prop.id + ')' + sources}
                                 className='ontodia-default-template_body_expander_property-table_row__key'>
                                 {prop.name}
                             </div>
@@ -42,6 +47,17 @@ export class DefaultTemplate extends React.Component<TemplateProps, {}> {
             propertyTable = <div>no properties</div>;
         }
 
+        const sources = props.sources && props.sources.length > 0 ? (
+            <div className='ontodia-default-template_body_expander'>
+                <div className='ontodia-default-template_body_expander__sources-label'>
+                    Sources:
+                </div>
+                <div className='ontodia-default-template_body_expander_sources' title={props.sources.join(', ')}>
+                    {props.sources.join(', ')}
+                </div>
+            </div>
+        ) : undefined;
+
         const expander = props.isExpanded ? (
             <div>
                 <div className='ontodia-default-template_body_expander'>
@@ -54,6 +70,7 @@ export class DefaultTemplate extends React.Component<TemplateProps, {}> {
                         </a>
                     </div>
                 </div>
+                {sources}
                 <hr className='ontodia-default-template_body_expander__hr'/>
                 {propertyTable}
             </div>
@@ -85,3 +102,22 @@ export class DefaultTemplate extends React.Component<TemplateProps, {}> {
         );
     }
 }
+
+/**
+ * Renders references to other resources as links which add the resource to the diagram
+ * (handled by `data-add-element` attribute) and web links as ordinary links.
+ */
+function renderPropertyValue(value: PropertyValue): React.ReactNode {
+    const text = formatPropertyValue(value);
+    const resource = getReferencedResource(value);
+    if (resource) {
+        return (
+            <a className='ontodia-default-template_body_expander_property-table_row_key_values__resource-link'
+                href={resource} data-add-element={resource} title={`Add ${resource} to diagram`}>
+                {text}
+            </a>
+        );
+    }
+    const url = getPropertyValueUrl(value);
+    return url ? <a href={url}>{text}</a> : text;
+}
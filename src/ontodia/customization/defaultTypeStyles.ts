@@ -4,6 +4,9 @@ const THING_URL = 'http://www.w3.org/2002/07/owl#Thing';
 
 export const DefaultTypeStyleBundle: TypeStyleResolver[] = [
     (id: string, types: string[], recentlyExtracted: boolean) => {
+        if (types.indexOf('http://www.semanticweb.org/tuyenhuynh/ontologies/2017/1/kce#ClassExpression') !== -1) {
+            return {color: '#8e44ad', icon: undefined};
+        }
         if(id !== THING_URL && types.indexOf(THING_URL) !== -1) {
             return {color: '#bf2f28', icon: 'ontodia-class-icon'};
         }
@@ -5,6 +5,7 @@ import { compile as compileTemplate, HandlebarsTemplateDelegate } from 'handleba
 import { Dictionary, Property } from '../data/model';
 
 import { TemplateProps } from './props';
+import { formatPropertyValue } from './propertyValueFormat';
 
 export interface HandlebarsTemplateProps {
     template: string;
@@ -15,7 +16,7 @@ export interface HandlebarsTemplateProps {
 const HANDLEBARS_HELPERS = {
     getProperty: (props: Dictionary<Property>, id: string) => {
         if (props && props[id]) {
-            return props[id].values.map(v => v.text).join(', ');
+            return props[id].values.map(formatPropertyValue).join(', ');
         } else {
             return undefined;
         }
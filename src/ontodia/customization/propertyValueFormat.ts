@@ -0,0 +1,58 @@
+import { PropertyValue } from '../data/model';
+
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const INTEGER_TYPES = [
+    'integer', 'int', 'long', 'short', 'byte', 'nonNegativeInteger', 'nonPositiveInteger',
+    'positiveInteger', 'negativeInteger', 'unsignedInt', 'unsignedLong', 'unsignedShort', 'unsignedByte',
+].map(type => XSD + type);
+const DECIMAL_TYPES = ['decimal', 'double', 'float'].map(type => XSD + type);
+
+const XSD_BOOLEAN = XSD + 'boolean';
+const XSD_DATE = XSD + 'date';
+const XSD_DATE_TIME = XSD + 'dateTime';
+
+const URL_PATTERN = /^(https?|ftp|mailto):/i;
+
+/**
+ * Returns human-readable representation of property value
+ * with respect to its XSD datatype, e.g. "1,234.5" for xsd:double.
+ */
+export function formatPropertyValue(value: PropertyValue): string {
+    const {text, datatype} = value;
+    if (value.type === 'iri' || !datatype) {
+        return text;
+    } else if (INTEGER_TYPES.indexOf(datatype) >= 0 || DECIMAL_TYPES.indexOf(datatype) >= 0) {
+        const parsed = Number(text);
+        return text.trim() !== '' && isFinite(parsed) ? parsed.toLocaleString() : text;
+    } else if (datatype === XSD_BOOLEAN) {
+        if (text === 'true' || text === '1') { return 'yes'; }
+        if (text === 'false' || text === '0') { return 'no'; }
+        return text;
+    } else if (datatype === XSD_DATE || datatype === XSD_DATE_TIME) {
+        const timestamp = Date.parse(text);
+        if (isNaN(timestamp)) { return text; }
+        const date = new Date(timestamp);
+        // date without time zone is parsed as UTC midnight
+        return datatype === XSD_DATE
+            ? date.toLocaleDateString(undefined, {timeZone: 'UTC'})
+            : date.toLocaleString();
+    }
+    return text;
+}
+
+/**
+ * Returns IRI of another resource if property value references it.
+ */
+export function getReferencedResource(value: PropertyValue): string | undefined {
+    return value.type === 'iri' ? value.text : undefined;
+}
+
+/**
+ * Returns external URL to open if property value is a web link with a safe scheme
+ * (http, https, ftp or mailto), even if literal is xsd:anyURI.
+ */
+export function getPropertyValueUrl(value: PropertyValue): string | undefined {
+    if (value.type === 'iri') { return undefined; }
+    return URL_PATTERN.test(value.text) ? value.text : undefined;
+}
@@ -23,6 +23,8 @@ export interface TemplateProps {
     isExpanded?: boolean;
     propsAsList?: PropArray;
     props?: Dictionary<Property>;
+    /** Names of data sources which provided the element. */
+    sources?: string[];
 }
 
 export type PropArray = Array<{
@@ -0,0 +1,379 @@
+import { DataProvider, FilterParams } from '../provider';
+import {
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount, ConceptModel,
+    ClassAxiom, PropertySignature,
+} from '../model';
+import { CancellationToken } from '../cancellation';
+import { PrefixRegistry } from '../prefixRegistry';
+
+import { LruCache } from './lruCache';
+import { IndexedDbCache } from './indexedDbCache';
+
+export interface CachingDataProviderOptions {
+    /** Wrapped data provider which responses are cached. */
+    provider: DataProvider;
+    /**
+     * Cache namespace, e.g. endpoint URL; responses from different
+     * namespaces are never mixed in a shared persistent cache.
+     */
+    namespace: string;
+    /**
+     * Maximum number of in-memory entries.
+     * @default 1000
+     */
+    maxEntries?: number;
+    /**
+     * Time to live for cached responses in milliseconds.
+     * @default no expiration
+     */
+    ttl?: number;
+    /**
+     * Name of IndexedDB database to persist responses between page loads;
+     * responses are only cached in memory if not specified.
+     */
+    indexedDbName?: string;
+}
+
+export type CachedMethod =
+    'classTree' | 'classInfo' | 'propertyInfo' | 'linkTypes' | 'linkTypesInfo' | 'elementInfo' |
+    'linksInfo' | 'linkTypesOf' | 'filter' | 'propertyCountOfClasses' | 'propertyCountOfIndividuals' |
+    'instanceConceptsTree' | 'classAxioms' | 'propertySignatures' | 'propertyConceptsTree';
+
+export interface CacheStats {
+    /** Requests served from memory or persistent cache. */
+    hits: number;
+    memoryHits: number;
+    persistentHits: number;
+    /** Requests forwarded to wrapped provider. */
+    misses: number;
+    /** Entries found in cache but discarded due to expired TTL. */
+    expired: number;
+    /** Entries removed from memory to stay within `maxEntries`. */
+    evictions: number;
+    /** Current number of in-memory entries. */
+    memoryEntries: number;
+}
+
+interface CacheEntry {
+    /** serialized value */
+    value: string;
+    timestamp: number;
+}
+
+/**
+ * Converts cached values to and from JSON-compatible form.
+ */
+interface Codec<T> {
+    encode(value: T): any;
+    decode(data: any): T;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Data provider decorator which memoizes responses of wrapped provider
+ * per method and arguments in memory (LRU) and optionally in IndexedDB.
+ *
+ * Cached values are stored serialized, so each call returns fresh objects
+ * which can be safely modified by the caller.
+ *
+ * elementInfo() is cached per element, so only missing elements are requested.
+ */
+export class CachingDataProvider implements DataProvider {
+    private readonly memory: LruCache<CacheEntry>;
+    private readonly persistent: IndexedDbCache | undefined;
+    private stats: CacheStats;
+
+    // optional methods are defined only if wrapped provider supports them
+    propertyInfo?: (params: {
+        propertyIds: string[];
+        signal?: CancellationToken;
+    }) => Promise<Dictionary<PropertyModel>>;
+    classAxioms?: (params: { classIds: string[]; signal?: CancellationToken; }) => Promise<ClassAxiom[]>;
+    propertySignatures?: (params?: { signal?: CancellationToken; }) => Promise<PropertySignature[]>;
+    propertyConceptsTree?: (params?: { signal?: CancellationToken; }) => Promise<ConceptModel>;
+
+    constructor(private options: CachingDataProviderOptions) {
+        this.memory = new LruCache<CacheEntry>(
+            options.maxEntries || DEFAULT_MAX_ENTRIES,
+            () => { this.stats.evictions++; });
+        this.persistent = options.indexedDbName ? new IndexedDbCache(options.indexedDbName) : undefined;
+        this.resetStats();
+
+        const {provider} = options;
+        if (provider.propertyInfo) {
+            this.propertyInfo = params =>
+                this.cached('propertyInfo', params, JSON_CODEC, () => provider.propertyInfo(params));
+        }
+        if (provider.classAxioms) {
+            this.classAxioms = params =>
+                this.cached('classAxioms', params, JSON_CODEC, () => provider.classAxioms(params));
+        }
+        if (provider.propertySignatures) {
+            this.propertySignatures = (params = {}) =>
+                this.cached('propertySignatures', {}, JSON_CODEC, () => provider.propertySignatures(params));
+        }
+        if (provider.propertyConceptsTree) {
+            this.propertyConceptsTree = (params = {}) => this.cached('propertyConceptsTree', {}, CONCEPT_TREE_CODEC,
+                () => provider.propertyConceptsTree(params));
+        }
+    }
+
+    get provider() { return this.options.provider; }
+    get prefixes(): PrefixRegistry | undefined { return this.options.provider.prefixes; }
+
+    getStats(): CacheStats {
+        return {...this.stats, memoryEntries: this.memory.size};
+    }
+
+    resetStats() {
+        this.stats = {
+            hits: 0,
+            memoryHits: 0,
+            persistentHits: 0,
+            misses: 0,
+            expired: 0,
+            evictions: 0,
+            memoryEntries: 0,
+        };
+    }
+
+    /**
+     * Removes cached responses of specified method or every method in the namespace.
+     */
+    invalidate(method?: CachedMethod): Promise<void> {
+        const prefix = method ? this.methodPrefix(method) : this.namespacePrefix();
+        for (const key of this.memory.keys()) {
+            if (key.indexOf(prefix) === 0) {
+                this.memory.delete(key);
+            }
+        }
+        return this.persistent ? this.persistent.deleteByPrefix(prefix) : Promise.resolve();
+    }
+
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        return this.cached('classTree', {}, CLASS_TREE_CODEC, () => this.provider.classTree(params));
+    }
+
+    classInfo(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassModel[]> {
+        return this.cached('classInfo', params, JSON_CODEC, () => this.provider.classInfo(params));
+    }
+
+    linkTypes(params: { signal?: CancellationToken; } = {}): Promise<LinkType[]> {
+        return this.cached('linkTypes', {}, JSON_CODEC, () => this.provider.linkTypes(params));
+    }
+
+    linkTypesInfo(params: { linkTypeIds: string[]; signal?: CancellationToken; }): Promise<LinkType[]> {
+        return this.cached('linkTypesInfo', params, JSON_CODEC, () => this.provider.linkTypesInfo(params));
+    }
+
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        const result: Dictionary<ElementModel> = {};
+        const missingIds: string[] = [];
+        return Promise.all(params.elementIds.map(elementId =>
+            this.lookup(this.makeKey('elementInfo', elementId)).then(data => {
+                if (data === undefined) {
+                    missingIds.push(elementId);
+                } else {
+                    result[elementId] = JSON_CODEC.decode(data);
+                }
+            })
+        )).then(() => {
+            if (missingIds.length === 0) { return result; }
+            return this.provider.elementInfo({elementIds: missingIds, signal: params.signal}).then(loaded => {
+                for (const elementId in loaded) {
+                    if (!loaded.hasOwnProperty(elementId)) { continue; }
+                    const model = loaded[elementId];
+                    this.store(this.makeKey('elementInfo', elementId), JSON_CODEC.encode(model));
+                    result[elementId] = model;
+                }
+                return result;
+            });
+        });
+    }
+
+    linksInfo(params: {
+        elementIds: string[];
+        linkTypeIds: string[];
+        signal?: CancellationToken;
+    }): Promise<LinkModel[]> {
+        return this.cached('linksInfo', params, JSON_CODEC, () => this.provider.linksInfo(params));
+    }
+
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        return this.cached('linkTypesOf', params, JSON_CODEC, () => this.provider.linkTypesOf(params));
+    }
+
+    filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
+        return this.cached('filter', params, JSON_CODEC, () => this.provider.filter(params));
+    }
+
+    propertyCountOfClasses(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.cached('propertyCountOfClasses', {}, JSON_CODEC,
+            () => this.provider.propertyCountOfClasses(params));
+    }
+
+    propertyCountOfIndividuals(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.cached('propertyCountOfIndividuals', {}, JSON_CODEC,
+            () => this.provider.propertyCountOfIndividuals(params));
+    }
+
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params: { signal?: CancellationToken; } = {},
+    ): Promise<ConceptModel> {
+        return this.cached('instanceConceptsTree', {classifierIds, inverseClassifierIds}, CONCEPT_TREE_CODEC,
+            () => this.provider.instanceConceptsTree(classifierIds, inverseClassifierIds, params));
+    }
+
+    private cached<T>(method: CachedMethod, args: any, codec: Codec<T>, load: () => Promise<T>): Promise<T> {
+        const key = this.makeKey(method, args);
+        return this.lookup(key).then(data => {
+            if (data !== undefined) {
+                return codec.decode(data);
+            }
+            return load().then(value => {
+                this.store(key, codec.encode(value));
+                return value;
+            });
+        });
+    }
+
+    /**
+     * Looks up entry in memory then in persistent cache and updates stats;
+     * resolves to decoded JSON data or undefined if not found.
+     */
+    private lookup(key: string): Promise<any> {
+        const inMemory = this.memory.get(key);
+        if (inMemory && !this.isExpired(inMemory)) {
+            this.stats.hits++;
+            this.stats.memoryHits++;
+            return Promise.resolve(JSON.parse(inMemory.value));
+        } else if (inMemory) {
+            this.stats.expired++;
+            this.memory.delete(key);
+        }
+
+        if (!this.persistent) {
+            this.stats.misses++;
+            return Promise.resolve(undefined);
+        }
+
+        return this.persistent.get(key).then(entry => {
+            if (entry && !this.isExpired(entry)) {
+                this.stats.hits++;
+                this.stats.persistentHits++;
+                this.memory.set(key, {value: entry.value, timestamp: entry.timestamp});
+                return JSON.parse(entry.value);
+            } else if (entry) {
+                this.stats.expired++;
+                this.persistent.delete(key);
+            }
+            this.stats.misses++;
+            return undefined;
+        });
+    }
+
+    private store(key: string, data: any) {
+        const entry: CacheEntry = {value: JSON.stringify(data), timestamp: Date.now()};
+        this.memory.set(key, entry);
+        if (this.persistent) {
+            this.persistent.put({key, value: entry.value, timestamp: entry.timestamp});
+        }
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        const {ttl} = this.options;
+        return ttl !== undefined && entry.timestamp + ttl < Date.now();
+    }
+
+    private namespacePrefix() {
+        return this.options.namespace + '\n';
+    }
+
+    private methodPrefix(method: CachedMethod) {
+        return this.namespacePrefix() + method + '\n';
+    }
+
+    private makeKey(method: CachedMethod, args: any): string {
+        // cancellation signal doesn't affect response
+        const serializedArgs = JSON.stringify(args, (key, value) => key === 'signal' ? undefined : value);
+        return this.methodPrefix(method) + serializedArgs;
+    }
+}
+
+const JSON_CODEC: Codec<any> = {
+    encode: value => value,
+    decode: data => data,
+};
+
+type ConceptReferenceKey = 'children' | 'parent' | 'subKeyConcepts';
+const CONCEPT_REFERENCE_KEYS: ConceptReferenceKey[] = ['children', 'parent', 'subKeyConcepts'];
+
+interface EncodedConcept {
+    /** concept with empty reference arrays */
+    fields: ConceptModel;
+    /** references replaced by indices of concepts in `EncodedConceptTree.concepts` */
+    references: { [K in ConceptReferenceKey]?: number[] };
+}
+
+interface EncodedConceptTree {
+    /** root concept is the first one */
+    concepts: EncodedConcept[];
+}
+
+/**
+ * Concept trees are cyclic graphs (children <-> parent, super concepts, etc.),
+ * so they are stored as flat concept list with references replaced by indices.
+ */
+const CONCEPT_TREE_CODEC: Codec<ConceptModel> = {
+    encode: root => {
+        const indices = new Map<ConceptModel, number>();
+        const concepts: ConceptModel[] = [];
+        const visit = (concept: ConceptModel) => {
+            if (indices.has(concept)) { return; }
+            indices.set(concept, concepts.length);
+            concepts.push(concept);
+            for (const key of CONCEPT_REFERENCE_KEYS) {
+                const references = concept[key];
+                if (references) { references.forEach(visit); }
+            }
+        };
+        // providers return undefined tree if there are no concepts
+        if (root) { visit(root); }
+
+        const encoded: EncodedConceptTree = {
+            concepts: concepts.map((concept): EncodedConcept => {
+                const fields: ConceptModel = {...concept};
+                const references: EncodedConcept['references'] = {};
+                for (const key of CONCEPT_REFERENCE_KEYS) {
+                    if (concept[key]) {
+                        references[key] = concept[key].map(reference => indices.get(reference));
+                        fields[key] = [];
+                    }
+                }
+                return {fields, references};
+            }),
+        };
+        return encoded;
+    },
+    decode: (data: EncodedConceptTree) => {
+        const concepts = data.concepts.map(({fields}): ConceptModel => ({...fields}));
+        data.concepts.forEach(({references}, index) => {
+            for (const key of CONCEPT_REFERENCE_KEYS) {
+                if (references[key]) {
+                    concepts[index][key] = references[key].map(referenceIndex => concepts[referenceIndex]);
+                }
+            }
+        });
+        return concepts[0];
+    },
+};
+
+const CLASS_TREE_CODEC: Codec<[ClassModel[], ConceptModel]> = {
+    encode: ([classes, rootConcept]) => [classes, CONCEPT_TREE_CODEC.encode(rootConcept)],
+    decode: ([classes, rootConcept]) => [classes, CONCEPT_TREE_CODEC.decode(rootConcept)],
+};
+
+export default CachingDataProvider;
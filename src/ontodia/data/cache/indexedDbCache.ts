@@ -0,0 +1,89 @@
+export interface PersistentCacheEntry {
+    key: string;
+    /** serialized value */
+    value: string;
+    /** time when the entry was stored, in milliseconds since epoch */
+    timestamp: number;
+}
+
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/**
+ * Persistent key-value store for cache entries backed by IndexedDB.
+ *
+ * All operations fail silently (resolving to an empty result) when IndexedDB
+ * is unavailable, e.g. in private browsing mode, so it can be used as
+ * an optional cache layer.
+ */
+export class IndexedDbCache {
+    private database: Promise<IDBDatabase | undefined>;
+
+    constructor(readonly databaseName: string) {
+        this.database = openDatabase(databaseName).catch(error => {
+            console.warn(`Failed to open IndexedDB cache '${databaseName}'`, error);
+            return undefined;
+        });
+    }
+
+    get(key: string): Promise<PersistentCacheEntry | undefined> {
+        return this.transaction<PersistentCacheEntry | undefined>('readonly', undefined, store => store.get(key));
+    }
+
+    put(entry: PersistentCacheEntry): Promise<void> {
+        return this.transaction<void>('readwrite', undefined, store => { store.put(entry); });
+    }
+
+    delete(key: string): Promise<void> {
+        return this.transaction<void>('readwrite', undefined, store => { store.delete(key); });
+    }
+
+    /**
+     * Deletes every entry which key starts with specified prefix.
+     */
+    deleteByPrefix(prefix: string): Promise<void> {
+        // '\uffff' sorts after any other character in string keys
+        const range = IDBKeyRange.bound(prefix, prefix + '\uffff');
+        return this.transaction<void>('readwrite', undefined, store => { store.delete(range); });
+    }
+
+    private transaction<T>(
+        mode: 'readonly' | 'readwrite',
+        defaultResult: T,
+        action: (store: IDBObjectStore) => IDBRequest | void,
+    ): Promise<T> {
+        return this.database.then(database => {
+            if (!database) { return defaultResult; }
+            return new Promise<T>((resolve, reject) => {
+                const transaction = database.transaction(STORE_NAME, mode);
+                const request = action(transaction.objectStore(STORE_NAME));
+                transaction.oncomplete = () => resolve(request ? request.result : defaultResult);
+                transaction.onerror = () => reject(transaction.error);
+                transaction.onabort = () => reject(transaction.error);
+            });
+        }).catch(error => {
+            console.warn('IndexedDB cache operation failed', error);
+            return defaultResult;
+        });
+    }
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+    return new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not supported'));
+            return;
+        }
+        const request = indexedDB.open(name, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+            const database: IDBDatabase = request.result;
+            if (!database.objectStoreNames.contains(STORE_NAME)) {
+                database.createObjectStore(STORE_NAME, {keyPath: 'key'});
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export default IndexedDbCache;
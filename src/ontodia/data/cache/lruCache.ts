@@ -0,0 +1,115 @@
+import { Dictionary } from '../model';
+
+interface LruNode<V> {
+    key: string;
+    value: V;
+    previous: LruNode<V> | undefined;
+    next: LruNode<V> | undefined;
+}
+
+/**
+ * Fixed-capacity key-value cache which evicts least recently used entries first.
+ */
+export class LruCache<V> {
+    private nodes: Dictionary<LruNode<V>> = {};
+    private count = 0;
+    /** most recently used node */
+    private head: LruNode<V> | undefined;
+    /** least recently used node */
+    private tail: LruNode<V> | undefined;
+
+    /**
+     * @param capacity - maximum number of entries
+     * @param onEvict - called for every entry removed to free space
+     */
+    constructor(
+        readonly capacity: number,
+        private onEvict?: (key: string, value: V) => void,
+    ) {
+        if (capacity < 1) {
+            throw new Error('LRU cache capacity should be positive');
+        }
+    }
+
+    get size() { return this.count; }
+
+    has(key: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.nodes, key);
+    }
+
+    /**
+     * Returns value for the key and marks it as the most recently used.
+     */
+    get(key: string): V | undefined {
+        if (!this.has(key)) { return undefined; }
+        const node = this.nodes[key];
+        this.unlink(node);
+        this.pushFront(node);
+        return node.value;
+    }
+
+    set(key: string, value: V) {
+        if (this.has(key)) {
+            const existing = this.nodes[key];
+            existing.value = value;
+            this.unlink(existing);
+            this.pushFront(existing);
+            return;
+        }
+
+        if (this.count >= this.capacity && this.tail) {
+            const evicted = this.tail;
+            this.delete(evicted.key);
+            if (this.onEvict) { this.onEvict(evicted.key, evicted.value); }
+        }
+
+        const node: LruNode<V> = {key, value, previous: undefined, next: undefined};
+        this.nodes[key] = node;
+        this.count++;
+        this.pushFront(node);
+    }
+
+    delete(key: string): boolean {
+        if (!this.has(key)) { return false; }
+        this.unlink(this.nodes[key]);
+        delete this.nodes[key];
+        this.count--;
+        return true;
+    }
+
+    keys(): string[] {
+        return Object.keys(this.nodes);
+    }
+
+    clear() {
+        this.nodes = {};
+        this.count = 0;
+        this.head = undefined;
+        this.tail = undefined;
+    }
+
+    private pushFront(node: LruNode<V>) {
+        node.previous = undefined;
+        node.next = this.head;
+        if (this.head) { this.head.previous = node; }
+        this.head = node;
+        if (!this.tail) { this.tail = node; }
+    }
+
+    private unlink(node: LruNode<V>) {
+        if (node.previous) {
+            node.previous.next = node.next;
+        } else {
+            this.head = node.next;
+        }
+        if (node.next) {
+            node.next.previous = node.previous;
+        } else {
+            this.tail = node.previous;
+        }
+        node.previous = undefined;
+        node.next = undefined;
+    }
+}
+
+export default LruCache;
@@ -0,0 +1,85 @@
+/**
+ * Read-only side of `Cancellation` passed to cancellable operations,
+ * modelled after DOM `AbortSignal` which is not available in every supported browser.
+ */
+export interface CancellationToken {
+    readonly aborted: boolean;
+    addListener(listener: () => void): void;
+    removeListener(listener: () => void): void;
+}
+
+/**
+ * Controls cancellation of one or more operations through its `signal`.
+ *
+ * @example
+ * const cancellation = new Cancellation();
+ * dataProvider.filter({...params, signal: cancellation.signal});
+ * // later, when result is no longer needed:
+ * cancellation.abort();
+ */
+export class Cancellation {
+    private isAborted = false;
+    private listeners: Array<() => void> = [];
+
+    readonly signal: CancellationToken;
+
+    constructor() {
+        const self = this;
+        this.signal = {
+            get aborted() { return self.isAborted; },
+            addListener: listener => {
+                if (this.listeners.indexOf(listener) < 0) {
+                    this.listeners.push(listener);
+                }
+            },
+            removeListener: listener => {
+                const index = this.listeners.indexOf(listener);
+                if (index >= 0) { this.listeners.splice(index, 1); }
+            },
+        };
+    }
+
+    abort() {
+        if (this.isAborted) { return; }
+        this.isAborted = true;
+        const listeners = this.listeners;
+        this.listeners = [];
+        for (const listener of listeners) {
+            listener();
+        }
+    }
+}
+
+export const CANCELLED_ERROR_NAME = 'CancelledError';
+
+export function createCancelledError(): Error {
+    const error = new Error('Operation has been cancelled');
+    error.name = CANCELLED_ERROR_NAME;
+    return error;
+}
+
+export function isCancelledError(error: any): boolean {
+    return Boolean(error) && error.name === CANCELLED_ERROR_NAME;
+}
+
+/**
+ * Returns promise resolved after specified number of milliseconds or
+ * rejected with CancelledError when signal is aborted.
+ */
+export function delay(milliseconds: number, signal?: CancellationToken): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal && signal.aborted) {
+            reject(createCancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(createCancelledError());
+        };
+        const timeout = setTimeout(() => {
+            if (signal) { signal.removeListener(onAbort); }
+            resolve();
+        }, milliseconds);
+        if (signal) { signal.addListener(onAbort); }
+    });
+}
@@ -0,0 +1,486 @@
+import { union } from 'lodash';
+
+import { DataProvider, FilterParams } from '../provider';
+import {
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount, ConceptModel,
+    LocalizedString, PropertyValue, ClassAxiom, PropertySignature,
+} from '../model';
+import { CancellationToken } from '../cancellation';
+import {
+    completeClassTree, completeConceptTree, getFallbackLabel, isLocalizedEqual, isPropertyValueEqual,
+} from '../sparql/responseHandler';
+
+const THING_URI = 'http://www.w3.org/2002/07/owl#Thing';
+
+export interface CompositeDataProviderOptions {
+    providers: DataProviderSource[];
+}
+
+export interface DataProviderSource {
+    /** Source name to display in templates, e.g. 'Ontology' or endpoint URL. */
+    name: string;
+    provider: DataProvider;
+}
+
+interface SourceResult<T> {
+    source: string;
+    result: T;
+}
+
+/** Checks whether label of entity was generated from its IRI, see `getFallbackLabel()`. */
+type FallbackLabelTest = (id: string, label: LocalizedString) => boolean;
+
+/**
+ * Data provider which federates requests to several providers and merges results:
+ *     - classes, link types and properties are merged by id with union of labels
+ *       and sum of instance counts;
+ *     - elements are merged with union of types, labels and property values;
+ *     - links are merged by source, type and target.
+ *
+ * Labels generated from IRI are dropped if any provider returns a real label.
+ * Merged elements, properties and links have `sources` field with names of
+ * providers which returned them.
+ *
+ * Returned promise is rejected if request to any of the providers fails.
+ *
+ * Note that filter() passes the same limit and offset to every provider,
+ * so the merged page may contain up to `limit * providers.length` elements.
+ */
+export class CompositeDataProvider implements DataProvider {
+    constructor(private options: CompositeDataProviderOptions) {}
+
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        return this.fanOut(provider => provider.classTree(params))
+            .then(results => mergeClassTrees(results.map(({result}) => result[0]), this.isFallbackLabel));
+    }
+
+    classInfo(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassModel[]> {
+        return this.fanOut(provider => provider.classInfo(params))
+            .then(results => mergeById(results, (target, item) => mergeClass(target, item, this.isFallbackLabel)));
+    }
+
+    propertyInfo(params: {
+        propertyIds: string[];
+        signal?: CancellationToken;
+    }): Promise<Dictionary<PropertyModel>> {
+        return this.fanOut(provider => provider.propertyInfo ? provider.propertyInfo(params) : undefined)
+            .then(results => {
+                const merged: Dictionary<PropertyModel> = {};
+                for (const {result} of results) {
+                    for (const id in result) {
+                        if (!result.hasOwnProperty(id)) { continue; }
+                        const property = result[id];
+                        if (merged[id]) {
+                            mergeLabels(id, merged[id].label.values, property.label.values, this.isFallbackLabel);
+                        } else {
+                            merged[id] = {id, label: {values: [...property.label.values]}};
+                        }
+                    }
+                }
+                return merged;
+            });
+    }
+
+    linkTypes(params: { signal?: CancellationToken; } = {}): Promise<LinkType[]> {
+        return this.fanOut(provider => provider.linkTypes(params))
+            .then(results => mergeById(results, (target, item) => mergeLinkType(target, item, this.isFallbackLabel)));
+    }
+
+    linkTypesInfo(params: { linkTypeIds: string[]; signal?: CancellationToken; }): Promise<LinkType[]> {
+        return this.fanOut(provider => provider.linkTypesInfo(params))
+            .then(results => mergeById(results, (target, item) => mergeLinkType(target, item, this.isFallbackLabel)));
+    }
+
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        return this.fanOut(provider => provider.elementInfo(params))
+            .then(results => mergeElements(results, this.isFallbackLabel));
+    }
+
+    linksInfo(params: {
+        elementIds: string[];
+        linkTypeIds: string[];
+        signal?: CancellationToken;
+    }): Promise<LinkModel[]> {
+        return this.fanOut(provider => provider.linksInfo(params)).then(results => {
+            const links: Dictionary<LinkModel> = {};
+            for (const {source, result} of results) {
+                for (const link of result) {
+                    const key = `${link.sourceId} ${link.linkTypeId} ${link.targetId}`;
+                    if (links[key]) {
+                        addSource(links[key], source);
+                    } else {
+                        links[key] = {...link, sources: [source]};
+                    }
+                }
+            }
+            return Object.keys(links).map(key => links[key]);
+        });
+    }
+
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        return this.fanOut(provider => provider.linkTypesOf(params)).then(results => mergeById(results, mergeCount));
+    }
+
+    classAxioms(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassAxiom[]> {
+        return this.fanOut(provider => provider.classAxioms ? provider.classAxioms(params) : undefined)
+            .then(results => {
+                const merged: ClassAxiom[] = [];
+                const keys: Dictionary<boolean> = {};
+                for (const {result} of results) {
+                    for (const axiom of result) {
+                        const key = JSON.stringify(axiom);
+                        if (!keys[key]) {
+                            keys[key] = true;
+                            merged.push(axiom);
+                        }
+                    }
+                }
+                return merged;
+            });
+    }
+
+    propertySignatures(params: { signal?: CancellationToken; } = {}): Promise<PropertySignature[]> {
+        return this.fanOut(provider => provider.propertySignatures ? provider.propertySignatures(params) : undefined)
+            .then(results => mergeById(results,
+                (target, item) => mergePropertySignature(target, item, this.isFallbackLabel)));
+    }
+
+    filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
+        return this.fanOut(provider => provider.filter({...params}))
+            .then(results => mergeElements(results, this.isFallbackLabel));
+    }
+
+    propertyCountOfClasses(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.fanOut(provider => provider.propertyCountOfClasses(params))
+            .then(results => mergeById(results, mergeCount));
+    }
+
+    propertyCountOfIndividuals(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.fanOut(provider => provider.propertyCountOfIndividuals(params))
+            .then(results => mergeById(results, mergeCount));
+    }
+
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params: { signal?: CancellationToken; } = {},
+    ): Promise<ConceptModel> {
+        return this.fanOut(provider => provider.instanceConceptsTree(classifierIds, inverseClassifierIds, params))
+            .then(results => mergeConceptTrees(results.map(({result}) => result), this.isFallbackLabel));
+    }
+
+    propertyConceptsTree(params: { signal?: CancellationToken; } = {}): Promise<ConceptModel> {
+        return this.fanOut(provider =>
+            provider.propertyConceptsTree ? provider.propertyConceptsTree(params) : undefined
+        ).then(results => mergeConceptTrees(results.map(({result}) => result), this.isFallbackLabel));
+    }
+
+    /**
+     * Calls every provider and collects results; rejects if any of the requests fails.
+     *
+     * @param request - returns undefined if provider doesn't support the request
+     */
+    private fanOut<T>(request: (provider: DataProvider) => Promise<T> | undefined): Promise<SourceResult<T>[]> {
+        const requests: Promise<SourceResult<T>>[] = [];
+        for (const {name, provider} of this.options.providers) {
+            let promise: Promise<T> | undefined;
+            try {
+                promise = request(provider);
+            } catch (error) {
+                // reject instead of throwing synchronously as other requests do
+                promise = Promise.reject(error);
+            }
+            if (promise) {
+                requests.push(promise.then((result): SourceResult<T> => ({source: name, result})));
+            }
+        }
+        return Promise.all(requests);
+    }
+
+    /** Label is generated if it matches fallback label from prefixes of any provider. */
+    private isFallbackLabel: FallbackLabelTest = (id, {text, lang}) =>
+        !lang && this.options.providers.some(({provider}) => getFallbackLabel(id, provider.prefixes) === text);
+}
+
+/**
+ * Adds missing labels to the target and drops generated ones if there is a real label.
+ */
+function mergeLabels(id: string, target: LocalizedString[], labels: LocalizedString[], isFallback: FallbackLabelTest) {
+    for (const label of labels) {
+        if (!target.some(existing => isLocalizedEqual(existing, label))) { target.push(label); }
+    }
+    if (target.some(label => !isFallback(id, label))) {
+        for (let i = target.length - 1; i >= 0; i--) {
+            if (isFallback(id, target[i])) { target.splice(i, 1); }
+        }
+    }
+}
+
+function mergePropertyValues(target: PropertyValue[], values: PropertyValue[]) {
+    for (const value of values) {
+        if (!target.some(existing => isPropertyValueEqual(existing, value))) { target.push(value); }
+    }
+}
+
+function addSource(target: { sources?: string[] }, source: string) {
+    if (!target.sources) {
+        target.sources = [source];
+    } else if (target.sources.indexOf(source) < 0) {
+        target.sources.push(source);
+    }
+}
+
+function mergeById<T extends { id: string }>(
+    results: SourceResult<T[]>[],
+    merge: (target: T | undefined, item: T) => T,
+): T[] {
+    const merged: Dictionary<T> = {};
+    const order: string[] = [];
+    for (const {result} of results) {
+        for (const item of result) {
+            if (!merged[item.id]) { order.push(item.id); }
+            merged[item.id] = merge(merged[item.id], item);
+        }
+    }
+    return order.map(id => merged[id]);
+}
+
+function mergeCount(target: LinkCount | undefined, item: LinkCount): LinkCount {
+    if (!target) { return {...item}; }
+    target.count += item.count;
+    return target;
+}
+
+function mergeLinkType(target: LinkType | undefined, item: LinkType, isFallback: FallbackLabelTest): LinkType {
+    if (!target) { return {...item, label: {values: [...item.label.values]}}; }
+    mergeLabels(item.id, target.label.values, item.label.values, isFallback);
+    target.count += item.count;
+    return target;
+}
+
+function mergePropertySignature(
+    target: PropertySignature | undefined, item: PropertySignature, isFallback: FallbackLabelTest
+): PropertySignature {
+    if (!target) {
+        return {
+            ...item,
+            label: {values: [...item.label.values]},
+            cardinalities: [...item.cardinalities],
+        };
+    }
+    mergeLabels(item.id, target.label.values, item.label.values, isFallback);
+    target.domains = union(target.domains, item.domains);
+    target.ranges = union(target.ranges, item.ranges);
+    for (const cardinality of item.cardinalities) {
+        if (!target.cardinalities.some(({classId}) => classId === cardinality.classId)) {
+            target.cardinalities.push(cardinality);
+        }
+    }
+    return target;
+}
+
+function mergeClass(target: ClassModel | undefined, item: ClassModel, isFallback: FallbackLabelTest): ClassModel {
+    if (!target) {
+        return {
+            ...item,
+            label: {values: [...item.label.values]},
+            children: [...item.children],
+            parents: [...item.parents],
+        };
+    }
+    mergeLabels(item.id, target.label.values, item.label.values, isFallback);
+    target.count += item.count;
+    target.parents = union(target.parents, item.parents);
+    return target;
+}
+
+/**
+ * Unions class trees by class id. Root classes which were put under owl:Thing
+ * by each provider are detached from it and the merged tree completed again.
+ */
+function mergeClassTrees(trees: ClassModel[][], isFallback: FallbackLabelTest): [ClassModel[], ConceptModel] {
+    const nodes: Dictionary<ClassModel> = {};
+    const childIds: Dictionary<string[]> = {};
+
+    const visit = (node: ClassModel, visited: Dictionary<boolean>) => {
+        if (visited[node.id]) { return; }
+        visited[node.id] = true;
+
+        let merged = nodes[node.id];
+        if (merged) {
+            mergeLabels(node.id, merged.label.values, node.label.values, isFallback);
+            merged.count += node.count;
+            merged.parents = union(merged.parents, node.parents);
+        } else {
+            merged = nodes[node.id] = {
+                id: node.id,
+                label: {values: [...node.label.values]},
+                count: node.count,
+                children: [],
+                parents: [...node.parents],
+            };
+            childIds[node.id] = [];
+        }
+
+        for (const child of node.children) {
+            if (childIds[node.id].indexOf(child.id) < 0) {
+                childIds[node.id].push(child.id);
+            }
+            visit(child, visited);
+        }
+    };
+    for (const tree of trees) {
+        const visited: Dictionary<boolean> = {};
+        for (const root of tree) {
+            visit(root, visited);
+        }
+    }
+
+    const hasParent: Dictionary<boolean> = {};
+    for (const id in nodes) {
+        if (!nodes.hasOwnProperty(id) || id === THING_URI) { continue; }
+        const node = nodes[id];
+        node.children = childIds[id].map(childId => nodes[childId]);
+        for (const childId of childIds[id]) {
+            hasParent[childId] = true;
+        }
+    }
+
+    const thingNode = nodes[THING_URI];
+    if (thingNode) {
+        for (const childId of childIds[THING_URI]) {
+            nodes[childId].parents = nodes[childId].parents.filter(parentId => parentId !== THING_URI);
+        }
+    }
+
+    const roots = Object.keys(nodes).filter(id => !hasParent[id]).map(id => nodes[id]);
+    return completeClassTree(roots, thingNode);
+}
+
+/**
+ * Unions concept trees by concept id with union of labels and sum of counts,
+ * synthetic owl:Thing roots are dropped and re-created by `completeConceptTree()` if necessary.
+ */
+function mergeConceptTrees(trees: ConceptModel[], isFallback: FallbackLabelTest): ConceptModel {
+    const concepts: Dictionary<ConceptModel> = {};
+
+    const getOrCreate = (concept: ConceptModel) => {
+        if (!concepts[concept.id]) {
+            concepts[concept.id] = {
+                id: concept.id,
+                label: {values: []},
+                count: 0,
+                children: [],
+                parent: [],
+                subKeyConcepts: [],
+            };
+        }
+        return concepts[concept.id];
+    };
+
+    const visit = (concept: ConceptModel, visited: Dictionary<boolean>) => {
+        if (visited[concept.id]) { return; }
+        visited[concept.id] = true;
+        const isThing = concept.id === THING_URI;
+        const merged = isThing ? undefined : getOrCreate(concept);
+        if (merged) {
+            // concept is visited once per tree, so counts from each provider are summed
+            mergeLabels(concept.id, merged.label.values, concept.label.values, isFallback);
+            merged.count += concept.count;
+        }
+        for (const child of concept.children) {
+            if (merged && child.id !== THING_URI) {
+                const mergedChild = getOrCreate(child);
+                if (merged.children.indexOf(mergedChild) < 0) {
+                    merged.children.push(mergedChild);
+                    mergedChild.parent.push(merged);
+                }
+            }
+            visit(child, visited);
+        }
+    };
+    for (const tree of trees) {
+        if (tree) { visit(tree, {}); }
+    }
+
+    return completeConceptTree(concepts);
+}
+
+/**
+ * Detects element returned by provider for unknown IRI (see `getElementsInfo()` in responseHandler):
+ * without types except owl:Thing, properties, image and with at most one non-localized label.
+ */
+function isPlaceholderElement(element: ElementModel) {
+    return element.types.every(type => type === THING_URI)
+        && !element.image
+        && Object.keys(element.properties).length === 0
+        && element.label.values.length <= 1
+        && element.label.values.every(({lang}) => !lang);
+}
+
+function mergeElements(
+    results: SourceResult<Dictionary<ElementModel>>[], isFallback: FallbackLabelTest
+): Dictionary<ElementModel> {
+    const merged: Dictionary<ElementModel> = {};
+    const placeholders: Dictionary<ElementModel> = {};
+
+    for (const {source, result} of results) {
+        for (const id in result) {
+            if (!result.hasOwnProperty(id)) { continue; }
+            const element = result[id];
+            if (isPlaceholderElement(element)) {
+                if (!placeholders[id]) { placeholders[id] = element; }
+            } else if (merged[id]) {
+                mergeElement(merged[id], element, source, isFallback);
+            } else {
+                merged[id] = copyElement(element, source);
+            }
+        }
+    }
+
+    for (const id in placeholders) {
+        if (placeholders.hasOwnProperty(id) && !merged[id]) {
+            merged[id] = placeholders[id];
+        }
+    }
+    return merged;
+}
+
+function copyElement(element: ElementModel, source: string): ElementModel {
+    const properties: ElementModel['properties'] = {};
+    for (const propertyId in element.properties) {
+        if (!element.properties.hasOwnProperty(propertyId)) { continue; }
+        const property = element.properties[propertyId];
+        properties[propertyId] = {...property, values: [...property.values], sources: [source]};
+    }
+    return {
+        ...element,
+        types: [...element.types],
+        label: {values: [...element.label.values]},
+        properties,
+        sources: [source],
+    };
+}
+
+function mergeElement(target: ElementModel, element: ElementModel, source: string, isFallback: FallbackLabelTest) {
+    for (const type of element.types) {
+        if (target.types.indexOf(type) < 0) { target.types.push(type); }
+    }
+    mergeLabels(element.id, target.label.values, element.label.values, isFallback);
+    if (!target.image) { target.image = element.image; }
+
+    for (const propertyId in element.properties) {
+        if (!element.properties.hasOwnProperty(propertyId)) { continue; }
+        const property = element.properties[propertyId];
+        const existing = target.properties[propertyId];
+        if (existing) {
+            mergePropertyValues(existing.values, property.values);
+            addSource(existing, source);
+        } else {
+            target.properties[propertyId] = {...property, values: [...property.values], sources: [source]};
+        }
+    }
+    addSource(target, source);
+}
+
+export default CompositeDataProvider;
@@ -5,7 +5,23 @@ export interface LocalizedString {
     lang: string;
 }
 
-export type Property = { type: 'string'; values: LocalizedString[]; };
+/**
+ * Property value: literal with optional language tag or XSD datatype,
+ * or IRI which references another resource.
+ */
+export interface PropertyValue extends LocalizedString {
+    /** @default 'literal' */
+    type?: 'literal' | 'iri';
+    /** Datatype IRI of typed literal, e.g. http://www.w3.org/2001/XMLSchema#integer */
+    datatype?: string;
+}
+
+export type Property = {
+    type: 'string';
+    values: PropertyValue[];
+    /** Names of data sources which provided the property values (see CompositeDataProvider). */
+    sources?: string[];
+};
 
 export interface ElementModel {
     id: string;
@@ -13,6 +29,8 @@ export interface ElementModel {
     label: { values: LocalizedString[] };
     image?: string;
     properties: { [id: string]: Property };
+    /** Names of data sources which provided the element (see CompositeDataProvider). */
+    sources?: string[];
 }
 
 export interface LinkModel {
@@ -20,6 +38,8 @@ export interface LinkModel {
     sourceId: string;
     targetId: string;
     directLink: boolean;
+    /** Names of data sources which provided the link (see CompositeDataProvider). */
+    sources?: string[];
 }
 
 export interface ClassModel {
@@ -27,7 +47,54 @@ export interface ClassModel {
     label: { values: LocalizedString[] };
     count: number;
     children: ClassModel[];
-    parent: string;
+    /** IRIs of direct superclasses, the class is a child of each of them in class tree. */
+    parents: string[];
+}
+
+/**
+ * Class-level OWL axiom stated for a named class: equivalence or disjointness with
+ * another named class, or equivalence (`owl:equivalentClass`) or subsumption (`rdfs:subClassOf`)
+ * of an anonymous class expression.
+ */
+export interface ClassAxiom {
+    classId: string;
+    /** owl:equivalentClass, owl:disjointWith or rdfs:subClassOf */
+    predicate: string;
+    /** Named class the axiom refers to; either targetId or expression is set. */
+    targetId?: string;
+    expression?: ClassExpression;
+}
+
+/**
+ * Anonymous class expression; only named classes are kept as operands,
+ * nested anonymous expressions are skipped.
+ */
+export interface ClassExpression {
+    /** owl:unionOf, owl:intersectionOf, owl:someValuesFrom or owl:allValuesFrom */
+    operator: string;
+    /** Restricted property of owl:someValuesFrom and owl:allValuesFrom restrictions. */
+    onProperty?: string;
+    /** Classes combined by union or intersection, or filler class of restriction. */
+    operandIds: string[];
+}
+
+/**
+ * Object property as an edge between classes of schema: domains and ranges
+ * are inherited from super properties when the property doesn't declare its own.
+ */
+export interface PropertySignature {
+    id: string;
+    label: { values: LocalizedString[] };
+    domains: string[];
+    ranges: string[];
+    cardinalities: PropertyCardinality[];
+}
+
+/** Cardinality of the property on the class from owl:Restriction. */
+export interface PropertyCardinality {
+    classId: string;
+    min?: number;
+    max?: number;
 }
 
 export interface PropertyCount {
@@ -67,10 +134,6 @@ export interface ConceptModel {
     propertyCount?: number;
     score?: number;
     overallScore?: number;
-    covered: ConceptModel[];
-    allSuperConcepts: ConceptModel[];
-    allSubConcepts: ConceptModel[];
-    indirectSubConcepts: ConceptModel[];
     subKeyConcepts: ConceptModel[];
     presentOnDiagram?: boolean;
 }
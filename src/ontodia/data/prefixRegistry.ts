@@ -0,0 +1,166 @@
+import { Dictionary } from './model';
+
+/**
+ * Namespaces of widely used vocabularies.
+ */
+export const COMMON_PREFIXES: Dictionary<string> = {
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+    owl: 'http://www.w3.org/2002/07/owl#',
+    xsd: 'http://www.w3.org/2001/XMLSchema#',
+    skos: 'http://www.w3.org/2004/02/skos/core#',
+    foaf: 'http://xmlns.com/foaf/0.1/',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    dcterms: 'http://purl.org/dc/terms/',
+    schema: 'http://schema.org/',
+    prov: 'http://www.w3.org/ns/prov#',
+    vcard: 'http://www.w3.org/2006/vcard/ns#',
+    geo: 'http://www.w3.org/2003/01/geo/wgs84_pos#',
+    sioc: 'http://rdfs.org/sioc/ns#',
+    void: 'http://rdfs.org/ns/void#',
+    dbo: 'http://dbpedia.org/ontology/',
+    dbr: 'http://dbpedia.org/resource/',
+    wd: 'http://www.wikidata.org/entity/',
+    wdt: 'http://www.wikidata.org/prop/direct/',
+    crm: 'http://www.cidoc-crm.org/cidoc-crm/',
+};
+
+const PREFIX_NAME = /^([A-Za-z][A-Za-z0-9_.-]*)?$/;
+// simplified PN_LOCAL production of SPARQL grammar
+const LOCAL_NAME = /^[A-Za-z0-9_]([A-Za-z0-9_.-]*[A-Za-z0-9_-])?$/;
+
+/**
+ * Mapping between prefixes and namespace IRIs used to display IRIs
+ * as compact `prefix:localName` names (CURIEs) and to declare prefixes in SPARQL queries.
+ */
+export class PrefixRegistry {
+    private namespaces: Dictionary<string> = {};
+
+    constructor(prefixes: Dictionary<string> = COMMON_PREFIXES) {
+        this.registerAll(prefixes);
+    }
+
+    /**
+     * Registers namespace for prefix replacing previous one if it exists.
+     */
+    register(prefix: string, namespace: string) {
+        if (!PREFIX_NAME.test(prefix)) {
+            throw new Error(`Invalid prefix name: ${JSON.stringify(prefix)}`);
+        }
+        this.namespaces[prefix] = namespace;
+    }
+
+    registerAll(prefixes: Dictionary<string>) {
+        for (const prefix of Object.keys(prefixes)) {
+            this.register(prefix, prefixes[prefix]);
+        }
+    }
+
+    /**
+     * Registers prefixes declared in loaded data, e.g. in Turtle file;
+     * ignores invalid prefixes and ones which conflict with already registered.
+     */
+    learn(prefixes: Dictionary<string>) {
+        const knownNamespaces = this.namespaceSet();
+        for (const prefix of Object.keys(prefixes)) {
+            const namespace = prefixes[prefix];
+            if (!PREFIX_NAME.test(prefix) || this.has(prefix) || knownNamespaces[namespace]) { continue; }
+            this.namespaces[prefix] = namespace;
+            knownNamespaces[namespace] = true;
+        }
+    }
+
+    unregister(prefix: string) {
+        delete this.namespaces[prefix];
+    }
+
+    has(prefix: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.namespaces, prefix);
+    }
+
+    getNamespace(prefix: string): string | undefined {
+        return this.has(prefix) ? this.namespaces[prefix] : undefined;
+    }
+
+    /** Returns copy of prefix -> namespace dictionary. */
+    getPrefixes(): Dictionary<string> {
+        return {...this.namespaces};
+    }
+
+    /**
+     * Returns CURIE for IRI using the longest matching namespace,
+     * or undefined if there is no such namespace or the rest of IRI is not a valid local name.
+     */
+    toCurie(iri: string): string | undefined {
+        let bestPrefix: string | undefined;
+        let bestLength = 0;
+        for (const prefix of Object.keys(this.namespaces)) {
+            const namespace = this.namespaces[prefix];
+            if (namespace.length > bestLength && iri.indexOf(namespace) === 0) {
+                const localName = iri.substring(namespace.length);
+                if (localName.length === 0 || LOCAL_NAME.test(localName)) {
+                    bestPrefix = prefix;
+                    bestLength = namespace.length;
+                }
+            }
+        }
+        return bestPrefix === undefined ? undefined : bestPrefix + ':' + iri.substring(bestLength);
+    }
+
+    /**
+     * Returns full IRI for CURIE or undefined if its prefix is not registered.
+     */
+    expandCurie(curie: string): string | undefined {
+        const colonIndex = curie.indexOf(':');
+        if (colonIndex < 0) { return undefined; }
+        const namespace = this.getNamespace(curie.substring(0, colonIndex));
+        return namespace === undefined ? undefined : namespace + curie.substring(colonIndex + 1);
+    }
+
+    /**
+     * Returns CURIE for IRI if possible, otherwise the IRI itself.
+     */
+    compactIri(iri: string): string {
+        const curie = this.toCurie(iri);
+        return curie === undefined ? iri : curie;
+    }
+
+    /**
+     * Returns CURIE for IRI if possible, otherwise local name after last `#` or `/`.
+     */
+    toDisplayName(iri: string): string {
+        const curie = this.toCurie(iri);
+        return curie === undefined ? getLocalName(iri) : curie;
+    }
+
+    private namespaceSet(): Dictionary<boolean> {
+        const result: Dictionary<boolean> = {};
+        for (const prefix of Object.keys(this.namespaces)) {
+            result[this.namespaces[prefix]] = true;
+        }
+        return result;
+    }
+}
+
+/**
+ * Returns part of IRI after last `#` or `/`, or the whole IRI if there is no such part.
+ */
+export function getLocalName(iri: string): string {
+    const hashIndex = iri.lastIndexOf('#');
+    if (hashIndex !== -1 && hashIndex !== iri.length - 1) {
+        return iri.substring(hashIndex + 1);
+    }
+    const lastPartStart = iri.lastIndexOf('/');
+    if (lastPartStart !== -1 && lastPartStart !== iri.length - 1) {
+        return iri.substring(lastPartStart + 1);
+    }
+    return iri;
+}
+
+/**
+ * Registry shared by data providers and diagram to generate fallback labels;
+ * extend it at runtime to display IRIs from custom vocabularies as CURIEs.
+ */
+export const defaultPrefixRegistry = new PrefixRegistry();
+
+export default PrefixRegistry;
@@ -1,38 +1,76 @@
 import {
-    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount, ConceptModel
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount, ConceptModel,
+    ClassAxiom, PropertySignature,
 } from './model';
+import { CancellationToken } from './cancellation';
+import { PrefixRegistry } from './prefixRegistry';
 
+/**
+ * Every method accepts optional cancellation `signal`; when it is aborted
+ * the provider should stop the request and reject returned promise.
+ */
 export interface DataProvider {
-    classTree(): Promise<[ClassModel[], ConceptModel]>;
+    /**
+     * Prefixes used to display IRIs of provided data, e.g. in fallback labels;
+     * defaultPrefixRegistry is used if provider doesn't have its own.
+     */
+    readonly prefixes?: PrefixRegistry;
+
+    classTree(params?: { signal?: CancellationToken; }): Promise<[ClassModel[], ConceptModel]>;
 
     classInfo(params: {
         classIds: string[];
+        signal?: CancellationToken;
     }): Promise<ClassModel[]>;
 
-    propertyInfo?(params: { propertyIds: string[] }): Promise<Dictionary<PropertyModel>>;
+    propertyInfo?(params: { propertyIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<PropertyModel>>;
 
-    linkTypes(): Promise<LinkType[]>;
+    linkTypes(params?: { signal?: CancellationToken; }): Promise<LinkType[]>;
 
     linkTypesInfo(params: {
         linkTypeIds: string[];
+        signal?: CancellationToken;
     }): Promise<LinkType[]>;
 
-    elementInfo(params: { elementIds: string[]; }): Promise<Dictionary<ElementModel>>;
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>>;
 
     linksInfo(params: {
         elementIds: string[];
         linkTypeIds: string[];
+        signal?: CancellationToken;
     }): Promise<LinkModel[]>;
 
-    linkTypesOf(params: { elementId: string; }): Promise<LinkCount[]>;
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]>;
+
+    /**
+     * Returns OWL axioms (equivalence, disjointness, unions, intersections and restrictions)
+     * stated for the classes; named superclasses are excluded as they are part of class tree.
+     */
+    classAxioms?(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassAxiom[]>;
+
+    /**
+     * Returns object properties with their domains, ranges and cardinalities
+     * to draw schema as a class diagram.
+     */
+    propertySignatures?(params?: { signal?: CancellationToken; }): Promise<PropertySignature[]>;
 
     filter(params: FilterParams): Promise<Dictionary<ElementModel>>;
 
-    propertyCountOfClasses(): Promise<PropertyCount[]>;
+    propertyCountOfClasses(params?: { signal?: CancellationToken; }): Promise<PropertyCount[]>;
+
+    propertyCountOfIndividuals(params?: { signal?: CancellationToken; }): Promise<PropertyCount[]>;
 
-    propertyCountOfIndividuals(): Promise<PropertyCount[]>;
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params?: { signal?: CancellationToken; },
+    ): Promise<ConceptModel>;
 
-    instanceConceptsTree(classifierIds: string[], inverseClassifierIds: string[]): Promise<ConceptModel>;
+    /**
+     * Returns concept tree of object and datatype property hierarchies (`rdfs:subPropertyOf`)
+     * where usage count of property stands for instance count; undefined if there are no properties.
+     */
+    propertyConceptsTree?(params?: { signal?: CancellationToken; }): Promise<ConceptModel>;
 }
 
 export default DataProvider;
@@ -45,4 +83,5 @@ export interface FilterParams {
     limit: number;
     offset: number;
     languageCode: string;
+    signal?: CancellationToken;
 }
@@ -0,0 +1,282 @@
+import * as N3 from 'n3';
+
+import { Dictionary, ElementModel, LinkModel, PropertyValue } from '../model';
+import { PrefixRegistry, defaultPrefixRegistry } from '../prefixRegistry';
+
+import { RdfStore, RdfTriple, ParsedRdf } from './rdfStore';
+
+export const JSON_LD_FORMAT = 'application/ld+json';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * Namespace of predicates which describe diagram-only data, e.g. virtual links between key concepts.
+ */
+export const KCE_NAMESPACE = 'http://www.semanticweb.org/tuyenhuynh/ontologies/2017/1/kce#';
+const KCE_PREFIX = 'kce';
+const KCE_VIRTUAL_LINK = KCE_NAMESPACE + 'virtualLink';
+const KCE_LINK_TYPE = KCE_NAMESPACE + 'linkType';
+const KCE_TARGET = KCE_NAMESPACE + 'target';
+
+export interface JsonLdDocument {
+    '@context': Dictionary<string>;
+    '@graph': JsonLdNode[];
+}
+
+export interface JsonLdNode {
+    '@id'?: string;
+    '@type'?: string[];
+    [key: string]: any;
+}
+
+export interface JsonLdValue {
+    '@id'?: string;
+    '@value'?: string;
+    '@language'?: string;
+    '@type'?: string;
+}
+
+export interface JsonLdSerializeParams {
+    elements: ElementModel[];
+    links: LinkModel[];
+    /**
+     * Links which exist only on the diagram (e.g. between extracted key concepts);
+     * serialized as `kce:virtualLink` nodes instead of statements with link type predicate.
+     */
+    virtualLinks?: LinkModel[];
+    /**
+     * Prefixes to compact IRIs; also used to detect labels generated from IRI
+     * which aren't serialized.
+     * @default defaultPrefixRegistry
+     */
+    prefixes?: PrefixRegistry;
+}
+
+/**
+ * Serializes elements and links into JSON-LD document with `@context`
+ * generated from registered prefixes which are used in the document.
+ */
+export function serializeJsonLd(params: JsonLdSerializeParams): JsonLdDocument {
+    const {elements, links, virtualLinks = [], prefixes = defaultPrefixRegistry} = params;
+    const context: Dictionary<string> = {};
+    const compact = (iri: string) => {
+        const curie = prefixes.toCurie(iri);
+        if (curie === undefined) { return iri; }
+        const prefix = curie.substring(0, curie.indexOf(':'));
+        // empty prefix cannot be declared in JSON-LD context
+        if (prefix === '') { return iri; }
+        context[prefix] = prefixes.getNamespace(prefix);
+        return curie;
+    };
+
+    const nodes: Dictionary<JsonLdNode> = {};
+    const graph: JsonLdNode[] = [];
+    const addValue = (node: JsonLdNode, predicate: string, value: JsonLdValue) => {
+        const key = compact(predicate);
+        if (!node[key]) { node[key] = []; }
+        node[key].push(value);
+    };
+
+    for (const element of elements) {
+        const node: JsonLdNode = {'@id': compact(element.id)};
+        if (element.types.length > 0) {
+            node['@type'] = element.types.map(compact);
+        }
+        for (const label of element.label.values) {
+            // skip label generated from IRI when there is no label in data
+            if (!label.lang && label.text === prefixes.toDisplayName(element.id)) { continue; }
+            const value: JsonLdValue = {'@value': label.text};
+            if (label.lang) { value['@language'] = label.lang; }
+            addValue(node, RDFS_LABEL, value);
+        }
+        for (const propertyId of Object.keys(element.properties)) {
+            for (const value of element.properties[propertyId].values) {
+                addValue(node, propertyId, serializePropertyValue(value, compact));
+            }
+        }
+        nodes[element.id] = node;
+        graph.push(node);
+    }
+
+    for (const link of links) {
+        const source = nodes[link.sourceId];
+        if (!source) { continue; }
+        addValue(source, link.linkTypeId, {'@id': compact(link.targetId)});
+    }
+
+    for (const link of virtualLinks) {
+        const source = nodes[link.sourceId];
+        if (!source) { continue; }
+        context[KCE_PREFIX] = KCE_NAMESPACE;
+        if (!source['kce:virtualLink']) { source['kce:virtualLink'] = []; }
+        source['kce:virtualLink'].push({
+            'kce:linkType': {'@id': compact(link.linkTypeId)},
+            'kce:target': {'@id': compact(link.targetId)},
+        });
+    }
+
+    return {'@context': context, '@graph': graph};
+}
+
+/**
+ * Reads virtual links serialized by serializeJsonLd() as `kce:virtualLink` nodes
+ * from the store filled with parsed JSON-LD document.
+ */
+export function readVirtualLinks(store: RdfStore): LinkModel[] {
+    const links: LinkModel[] = [];
+    for (const {subject, object} of store.match(undefined, KCE_VIRTUAL_LINK, undefined)) {
+        const [linkTypeId] = store.objects(object, KCE_LINK_TYPE);
+        const [targetId] = store.objects(object, KCE_TARGET);
+        if (linkTypeId && targetId) {
+            links.push({linkTypeId, sourceId: subject, targetId, directLink: false});
+        }
+    }
+    return links;
+}
+
+function serializePropertyValue(value: PropertyValue, compact: (iri: string) => string): JsonLdValue {
+    if (value.type === 'iri') {
+        return {'@id': compact(value.text)};
+    } else if (value.lang) {
+        return {'@value': value.text, '@language': value.lang};
+    } else if (value.datatype && value.datatype !== XSD + 'string') {
+        return {'@value': value.text, '@type': compact(value.datatype)};
+    }
+    return {'@value': value.text};
+}
+
+/**
+ * Converts JSON-LD document into triples.
+ *
+ * Supports commonly used subset of JSON-LD 1.0: `@context` with prefix and term
+ * definitions (including `@vocab`), `@graph`, nested and referenced node objects,
+ * value objects and native values; remote contexts and `@list` ordering are not supported.
+ */
+export function parseJsonLd(document: any): ParsedRdf {
+    const triples: RdfTriple[] = [];
+    const prefixes: Dictionary<string> = {};
+    let blankNodeCounter = 0;
+
+    const readContext = (context: any, parent: JsonLdContext): JsonLdContext => {
+        const result: JsonLdContext = {terms: {...parent.terms}, vocab: parent.vocab};
+        const contexts: any[] = Array.isArray(context) ? context : context ? [context] : [];
+        for (const definitions of contexts) {
+            if (typeof definitions !== 'object' || definitions === null) {
+                throw new Error('Remote JSON-LD contexts are not supported');
+            }
+            for (const term of Object.keys(definitions)) {
+                const definition = definitions[term];
+                if (term === '@vocab') {
+                    result.vocab = definition;
+                } else if (typeof definition === 'string') {
+                    result.terms[term] = {id: definition};
+                    if (/[#/:]$/.test(definition)) { prefixes[term] = definition; }
+                } else if (definition && typeof definition === 'object') {
+                    result.terms[term] = {id: definition['@id'] || term, type: definition['@type']};
+                }
+            }
+        }
+        // term definitions may reference each other by compact IRIs
+        for (const term of Object.keys(result.terms)) {
+            const definition = result.terms[term];
+            result.terms[term] = {
+                id: expandIri(definition.id, result, false),
+                type: definition.type && definition.type !== '@id'
+                    ? expandIri(definition.type, result, false) : definition.type,
+            };
+        }
+        return result;
+    };
+
+    const readNode = (node: any, context: JsonLdContext): string => {
+        const nodeContext = node['@context'] ? readContext(node['@context'], context) : context;
+        const subject = node['@id'] ? expandIri(node['@id'], nodeContext, false) : `_:b${blankNodeCounter++}`;
+        for (const key of Object.keys(node)) {
+            const value = node[key];
+            if (key === '@type') {
+                for (const type of toArray(value)) {
+                    triples.push({subject, predicate: RDF_TYPE, object: expandIri(type, nodeContext, true)});
+                }
+            } else if (key === '@graph') {
+                for (const child of toArray(value)) { readNode(child, nodeContext); }
+            } else if (key[0] !== '@') {
+                const predicate = expandIri(key, nodeContext, true);
+                const term = Object.prototype.hasOwnProperty.call(nodeContext.terms, key)
+                    ? nodeContext.terms[key] : undefined;
+                for (const item of toArray(value)) {
+                    for (const object of readObjects(item, nodeContext, term ? term.type : undefined)) {
+                        triples.push({subject, predicate, object});
+                    }
+                }
+            }
+        }
+        return subject;
+    };
+
+    const readObjects = (value: any, context: JsonLdContext, coercedType?: string): string[] => {
+        if (value === null || value === undefined) {
+            return [];
+        } else if (typeof value === 'string') {
+            if (coercedType === '@id') { return [expandIri(value, context, false)]; }
+            return [coercedType ? N3.Util.createLiteral(value, coercedType) : N3.Util.createLiteral(value)];
+        } else if (typeof value === 'number') {
+            const datatype = value % 1 === 0 ? XSD + 'integer' : XSD + 'double';
+            return [N3.Util.createLiteral(String(value), datatype)];
+        } else if (typeof value === 'boolean') {
+            return [N3.Util.createLiteral(String(value), XSD + 'boolean')];
+        } else if (Array.isArray(value)) {
+            return flatten(value.map(item => readObjects(item, context, coercedType)));
+        } else if ('@value' in value) {
+            if (value['@language']) {
+                return [N3.Util.createLiteral(String(value['@value']), value['@language'])];
+            } else if (value['@type']) {
+                return [N3.Util.createLiteral(String(value['@value']), expandIri(value['@type'], context, true))];
+            }
+            return readObjects(value['@value'], context);
+        } else if ('@list' in value || '@set' in value) {
+            // list items are added as separate values of the same property
+            return readObjects(value['@list'] || value['@set'], context, coercedType);
+        }
+        return [readNode(value, context)];
+    };
+
+    const rootContext = readContext(document['@context'], {terms: {}});
+    for (const node of toArray(document)) {
+        readNode(node, rootContext);
+    }
+    return {triples, prefixes};
+}
+
+interface JsonLdContext {
+    terms: Dictionary<{ id: string; type?: string }>;
+    vocab?: string;
+}
+
+function expandIri(value: string, context: JsonLdContext, vocab: boolean): string {
+    if (value.indexOf('_:') === 0) {
+        return value;
+    }
+    if (Object.prototype.hasOwnProperty.call(context.terms, value)) {
+        return context.terms[value].id;
+    }
+    const colonIndex = value.indexOf(':');
+    if (colonIndex > 0) {
+        const prefix = value.substring(0, colonIndex);
+        const suffix = value.substring(colonIndex + 1);
+        if (suffix.indexOf('//') !== 0 && Object.prototype.hasOwnProperty.call(context.terms, prefix)) {
+            return context.terms[prefix].id + suffix;
+        }
+        return value;
+    }
+    return vocab && context.vocab ? context.vocab + value : value;
+}
+
+function flatten<T>(arrays: T[][]): T[] {
+    return Array.prototype.concat.apply([], arrays);
+}
+
+function toArray(value: any): any[] {
+    return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,593 @@
+import { DataProvider, FilterParams } from '../provider';
+import { CancellationToken, createCancelledError } from '../cancellation';
+import { PrefixRegistry, defaultPrefixRegistry } from '../prefixRegistry';
+import {
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount,
+    ConceptModel, ClassAxiom, PropertySignature,
+} from '../model';
+import {
+    getClassTree,
+    getClassInfo,
+    getLinkTypes,
+    getElementsInfo,
+    getLinksInfo,
+    getLinksTypesOf,
+    getFilteredData,
+    getLinkTypesInfo,
+    getPropertyInfo,
+    getPropertyCountOfConcepts,
+    getInstanceConceptsTree,
+    getNameFromId,
+    getClassAxioms,
+    getPropertySignatures,
+    getPropertyConceptsTree,
+} from '../sparql/responseHandler';
+import {
+    RdfLiteral, SparqlResponse, ClassBinding, ElementBinding, LinkBinding,
+    LinkTypeBinding, LinkTypeInfoBinding, PropertyBinding, PropertyCountBinding, ConceptBinding,
+    ClassAxiomBinding, RdfBlankNode, PropertySignatureBinding, PropertyConceptBinding,
+} from '../sparql/sparqlModels';
+import { optional, toSet } from '../utils';
+
+import { JSON_LD_FORMAT } from './jsonLd';
+import {
+    RdfStore, parseRdf, isIriTerm, isBlankTerm, isLiteralTerm, toRdfIri, toRdfLiteral, toRdfNode,
+} from './rdfStore';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDF_FIRST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#first';
+const RDF_REST = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#rest';
+const RDF_PROPERTY = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#Property';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const RDFS_SUB_CLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const RDFS_DOMAIN = 'http://www.w3.org/2000/01/rdf-schema#domain';
+const RDFS_RANGE = 'http://www.w3.org/2000/01/rdf-schema#range';
+const RDFS_SUB_PROPERTY_OF = 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf';
+const OWL_THING = 'http://www.w3.org/2002/07/owl#Thing';
+const OWL_CLASS = 'http://www.w3.org/2002/07/owl#Class';
+const OWL_OBJECT_PROPERTY = 'http://www.w3.org/2002/07/owl#ObjectProperty';
+const OWL_DATATYPE_PROPERTY = 'http://www.w3.org/2002/07/owl#DatatypeProperty';
+const OWL_NAMED_INDIVIDUAL = 'http://www.w3.org/2002/07/owl#NamedIndividual';
+const OWL_EQUIVALENT_CLASS = 'http://www.w3.org/2002/07/owl#equivalentClass';
+const OWL_DISJOINT_WITH = 'http://www.w3.org/2002/07/owl#disjointWith';
+const OWL_ON_PROPERTY = 'http://www.w3.org/2002/07/owl#onProperty';
+const SET_OPERATORS = [
+    'http://www.w3.org/2002/07/owl#unionOf',
+    'http://www.w3.org/2002/07/owl#intersectionOf',
+];
+const RESTRICTION_OPERATORS = [
+    'http://www.w3.org/2002/07/owl#someValuesFrom',
+    'http://www.w3.org/2002/07/owl#allValuesFrom',
+];
+const CARDINALITY_KINDS = [
+    'http://www.w3.org/2002/07/owl#cardinality',
+    'http://www.w3.org/2002/07/owl#minCardinality',
+    'http://www.w3.org/2002/07/owl#maxCardinality',
+    'http://www.w3.org/2002/07/owl#qualifiedCardinality',
+    'http://www.w3.org/2002/07/owl#minQualifiedCardinality',
+    'http://www.w3.org/2002/07/owl#maxQualifiedCardinality',
+];
+const XSD_INTEGER = 'http://www.w3.org/2001/XMLSchema#integer';
+
+export interface RdfFile {
+    content: string;
+    /**
+     * Media type of the content, e.g. 'text/turtle', 'application/n-triples' or 'application/ld+json';
+     * guessed from fileName extension when omitted.
+     */
+    type?: string;
+    fileName?: string;
+}
+
+export interface RdfFileDataProviderOptions {
+    files: RdfFile[];
+    /**
+     * Registry to learn prefixes declared in the files, used to display IRIs
+     * from these namespaces as CURIEs in fallback labels.
+     * @default own registry with prefixes of defaultPrefixRegistry
+     */
+    prefixes?: PrefixRegistry;
+    /**
+     * Predicates which values are used as labels, in priority order;
+     * see SparqlDataProviderOptions.labelPredicates.
+     * @default [rdfs:label]
+     */
+    labelPredicates?: string[];
+}
+
+/**
+ * Data provider which answers all requests from an in-memory triple index
+ * filled from Turtle, N-Triples or JSON-LD files, without any SPARQL endpoint.
+ *
+ * Responses are shaped as SPARQL result bindings and processed by the same
+ * handlers as SparqlDataProvider, so both providers produce identical models.
+ */
+export class RdfFileDataProvider implements DataProvider {
+    readonly store = new RdfStore();
+    /** Resolves when all files are parsed and indexed. */
+    readonly loaded: Promise<void>;
+    readonly prefixes: PrefixRegistry;
+
+    constructor(private options: RdfFileDataProviderOptions) {
+        this.prefixes = options.prefixes || new PrefixRegistry(defaultPrefixRegistry.getPrefixes());
+        this.loaded = Promise.all(options.files.map(file =>
+            parseRdf(file.content, file.type || guessFormat(file.fileName))
+        )).then(results => {
+            for (const {triples, prefixes} of results) {
+                this.store.addAll(triples);
+                this.prefixes.learn(prefixes);
+            }
+        });
+    }
+
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        return this.select<ClassBinding>(params.signal, () => {
+            const bindings: ClassBinding[] = [];
+            const addClass = (classId: string, instcount?: RdfLiteral) => {
+                for (const label of optional(this.labelsOf(classId))) {
+                    for (const parent of optional(this.store.objects(classId, RDFS_SUB_CLASS_OF).filter(isIriTerm))) {
+                        bindings.push({
+                            class: toRdfIri(classId),
+                            instcount,
+                            label,
+                            parent: parent ? toRdfIri(parent) : undefined,
+                        });
+                    }
+                }
+            };
+
+            const instanceCounts: Dictionary<number> = {};
+            for (const {object} of this.store.match(undefined, RDF_TYPE, undefined)) {
+                if (!isIriTerm(object)) { continue; }
+                instanceCounts[object] = (instanceCounts[object] || 0) + 1;
+            }
+            for (const classId of Object.keys(instanceCounts)) {
+                addClass(classId, countLiteral(instanceCounts[classId]));
+            }
+            for (const classId of this.store.subjects(RDF_TYPE, OWL_CLASS).filter(isIriTerm)) {
+                addClass(classId);
+            }
+            return bindings;
+        }).then(response => getClassTree(response, this.prefixes));
+    }
+
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params: { signal?: CancellationToken; } = {},
+    ): Promise<ConceptModel> {
+        return this.select<ConceptBinding>(params.signal, () => {
+            const classifiedIndividuals = (conceptId: string, relations: string[]) => {
+                const result: Array<{ node: string; label: RdfLiteral }> = [];
+                for (const relation of relations) {
+                    for (const node of this.store.objects(conceptId, relation)) {
+                        if (!this.store.has(node, RDF_TYPE, OWL_NAMED_INDIVIDUAL)) { continue; }
+                        for (const label of optional(this.labelsOf(node))) {
+                            result.push({node, label});
+                        }
+                    }
+                }
+                return optional(result);
+            };
+
+            const concepts: Dictionary<boolean> = {};
+            for (const {subject, object} of this.store.match(undefined, RDF_TYPE, undefined)) {
+                if (isIriTerm(subject) && this.store.has(object, RDF_TYPE, OWL_CLASS)) {
+                    concepts[subject] = true;
+                }
+            }
+
+            const bindings: ConceptBinding[] = [];
+            for (const conceptId of Object.keys(concepts)) {
+                const children = classifiedIndividuals(conceptId, inverseClassifierIds);
+                const parents = classifiedIndividuals(conceptId, classifierIds);
+                for (const label of optional(this.labelsOf(conceptId))) {
+                    for (const child of children) {
+                        for (const parent of parents) {
+                            bindings.push({
+                                concept: toRdfIri(conceptId),
+                                label,
+                                child: child ? toRdfIri(child.node) : undefined,
+                                childLabel: child ? child.label : undefined,
+                                parent: parent ? toRdfIri(parent.node) : undefined,
+                                parentLabel: parent ? parent.label : undefined,
+                            });
+                        }
+                    }
+                }
+            }
+            return bindings;
+        }).then(getInstanceConceptsTree);
+    }
+
+    propertyConceptsTree(params: { signal?: CancellationToken; } = {}): Promise<ConceptModel> {
+        return this.select<PropertyConceptBinding>(params.signal, () => {
+            const bindings: PropertyConceptBinding[] = [];
+            for (const type of [OWL_OBJECT_PROPERTY, OWL_DATATYPE_PROPERTY]) {
+                for (const propertyId of this.store.subjects(RDF_TYPE, type).filter(isIriTerm)) {
+                    const usage = countLiteral(this.store.match(undefined, propertyId, undefined).length);
+                    const superProperties = this.store.objects(propertyId, RDFS_SUB_PROPERTY_OF)
+                        .filter(superProperty => isIriTerm(superProperty) && superProperty !== propertyId);
+                    for (const label of optional(this.labelsOf(propertyId))) {
+                        for (const superProperty of optional(superProperties)) {
+                            bindings.push({
+                                property: toRdfIri(propertyId),
+                                type: toRdfIri(type),
+                                label,
+                                superProperty: superProperty ? toRdfIri(superProperty) : undefined,
+                                usage,
+                            });
+                        }
+                    }
+                }
+            }
+            return bindings;
+        }).then(response => getPropertyConceptsTree(response, this.prefixes));
+    }
+
+    propertyInfo(params: { propertyIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<PropertyModel>> {
+        return this.select<PropertyBinding>(params.signal, () => {
+            const bindings: PropertyBinding[] = [];
+            for (const propertyId of params.propertyIds) {
+                for (const label of this.labelsOf(propertyId)) {
+                    bindings.push({prop: toRdfIri(propertyId), label});
+                }
+            }
+            return bindings;
+        }).then(response => getPropertyInfo(response, this.prefixes));
+    }
+
+    classInfo(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassModel[]> {
+        return this.select<ClassBinding>(params.signal, () => {
+            const bindings: ClassBinding[] = [];
+            for (const classId of params.classIds) {
+                const instcount = countLiteral(this.store.subjects(RDF_TYPE, classId).length);
+                for (const label of this.labelsOf(classId)) {
+                    bindings.push({class: toRdfIri(classId), label, instcount});
+                }
+            }
+            return bindings;
+        }).then(response => getClassInfo(response, this.prefixes));
+    }
+
+    linkTypesInfo(params: { linkTypeIds: string[]; signal?: CancellationToken; }): Promise<LinkType[]> {
+        return this.select<LinkTypeInfoBinding>(params.signal, () => {
+            const bindings: LinkTypeInfoBinding[] = [];
+            for (const linkTypeId of params.linkTypeIds) {
+                const instcount = countLiteral(this.store.match(undefined, linkTypeId, undefined).length);
+                for (const label of this.labelsOf(linkTypeId)) {
+                    bindings.push({typeId: toRdfIri(linkTypeId), label, instcount});
+                }
+            }
+            return bindings;
+        }).then(response => getLinkTypesInfo(response, this.prefixes));
+    }
+
+    linkTypes(params: { signal?: CancellationToken; } = {}): Promise<LinkType[]> {
+        return this.select<LinkTypeBinding>(params.signal, () => {
+            const bindings: LinkTypeBinding[] = [];
+            const addLinkType = (linkTypeId: string, instcount?: RdfLiteral) => {
+                for (const label of optional(this.labelsOf(linkTypeId))) {
+                    bindings.push({link: toRdfIri(linkTypeId), instcount, label});
+                }
+            };
+
+            const linkCounts: Dictionary<number> = {};
+            for (const {predicate, object} of this.store.match()) {
+                if (!isIriTerm(object)) { continue; }
+                linkCounts[predicate] = (linkCounts[predicate] || 0) + 1;
+            }
+            for (const linkTypeId of Object.keys(linkCounts)) {
+                addLinkType(linkTypeId, countLiteral(linkCounts[linkTypeId]));
+            }
+            for (const linkTypeId of this.store.subjects(RDF_TYPE, OWL_OBJECT_PROPERTY).filter(isIriTerm)) {
+                addLinkType(linkTypeId);
+            }
+            return bindings;
+        }).then(response => getLinkTypes(response, this.prefixes));
+    }
+
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        return this.select<ElementBinding>(params.signal, () => {
+            const bindings: ElementBinding[] = [];
+            for (const elementId of params.elementIds) {
+                const inst = toRdfIri(elementId);
+                const types = this.store.objects(elementId, RDF_TYPE).filter(isIriTerm);
+                for (const type of optional(types)) {
+                    for (const label of optional(this.labelsOf(elementId))) {
+                        bindings.push({inst, class: type ? toRdfIri(type) : undefined, label});
+                    }
+                }
+                const propertyTriples = this.store.match(elementId, undefined, undefined).filter(({predicate, object}) =>
+                    isLiteralTerm(object) || (isIriTerm(object) && predicate !== RDF_TYPE));
+                for (const triple of optional(propertyTriples)) {
+                    bindings.push({
+                        inst,
+                        propType: triple ? toRdfIri(triple.predicate) : undefined,
+                        propValue: triple ? toRdfNode(triple.object) : undefined,
+                    });
+                }
+            }
+            return bindings;
+        }).then(response => getElementsInfo(response, params.elementIds, this.prefixes));
+    }
+
+    linksInfo(params: {
+        elementIds: string[];
+        linkTypeIds: string[];
+        signal?: CancellationToken;
+    }): Promise<LinkModel[]> {
+        return this.select<LinkBinding>(params.signal, () => {
+            const elementIds = toSet(params.elementIds);
+            const linkTypeIds = toSet(params.linkTypeIds);
+            const bindings: LinkBinding[] = [];
+            for (const sourceId of params.elementIds) {
+                for (const {predicate, object} of this.store.match(sourceId, undefined, undefined)) {
+                    if (linkTypeIds[predicate] && elementIds[object]) {
+                        bindings.push({
+                            source: toRdfIri(sourceId),
+                            type: toRdfIri(predicate),
+                            target: toRdfIri(object),
+                        });
+                    }
+                }
+            }
+            return bindings;
+        }).then(getLinksInfo);
+    }
+
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        return this.select<LinkTypeBinding>(params.signal, () => {
+            const linkCounts: Dictionary<number> = {};
+            const outgoing = this.store.match(params.elementId, undefined, undefined)
+                .filter(({object}) => isIriTerm(object));
+            const incoming = this.store.match(undefined, undefined, params.elementId);
+            for (const {predicate} of outgoing.concat(incoming)) {
+                linkCounts[predicate] = (linkCounts[predicate] || 0) + 1;
+            }
+            return Object.keys(linkCounts).map(linkTypeId => ({
+                link: toRdfIri(linkTypeId),
+                instcount: countLiteral(linkCounts[linkTypeId]),
+            }));
+        }).then(response => getLinksTypesOf(response, this.prefixes));
+    }
+
+    classAxioms(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassAxiom[]> {
+        return this.select<ClassAxiomBinding>(params.signal, () => {
+            const bindings: ClassAxiomBinding[] = [];
+            for (const classId of params.classIds) {
+                for (const predicate of [OWL_EQUIVALENT_CLASS, OWL_DISJOINT_WITH, RDFS_SUB_CLASS_OF]) {
+                    for (const target of this.store.objects(classId, predicate)) {
+                        const axiom = {class: toRdfIri(classId), predicate: toRdfIri(predicate)};
+                        if (isIriTerm(target) && predicate !== RDFS_SUB_CLASS_OF) {
+                            bindings.push({...axiom, target: toRdfIri(target)});
+                        }
+                        if (!isBlankTerm(target) || predicate === OWL_DISJOINT_WITH) { continue; }
+
+                        const blankTarget: RdfBlankNode = {type: 'bnode', value: target};
+                        for (const operator of SET_OPERATORS) {
+                            for (const list of this.store.objects(target, operator)) {
+                                for (const operand of this.listItems(list).filter(isIriTerm)) {
+                                    bindings.push({
+                                        ...axiom,
+                                        target: blankTarget,
+                                        operator: toRdfIri(operator),
+                                        operand: toRdfIri(operand),
+                                    });
+                                }
+                            }
+                        }
+                        for (const onProperty of this.store.objects(target, OWL_ON_PROPERTY).filter(isIriTerm)) {
+                            for (const operator of RESTRICTION_OPERATORS) {
+                                for (const operand of this.store.objects(target, operator).filter(isIriTerm)) {
+                                    bindings.push({
+                                        ...axiom,
+                                        target: blankTarget,
+                                        operator: toRdfIri(operator),
+                                        onProperty: toRdfIri(onProperty),
+                                        operand: toRdfIri(operand),
+                                    });
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+            return bindings;
+        }).then(getClassAxioms);
+    }
+
+    propertySignatures(params: { signal?: CancellationToken; } = {}): Promise<PropertySignature[]> {
+        return this.select<PropertySignatureBinding>(params.signal, () => {
+            const bindings: PropertySignatureBinding[] = [];
+            const propertyIds = toSet([
+                ...this.store.subjects(RDF_TYPE, OWL_OBJECT_PROPERTY),
+                ...this.store.subjects(RDF_TYPE, RDF_PROPERTY),
+            ].filter(isIriTerm));
+            for (const propertyId of Object.keys(propertyIds)) {
+                const property = toRdfIri(propertyId);
+                for (const label of optional(this.labelsOf(propertyId))) {
+                    bindings.push({property, label});
+                }
+                for (const domain of this.store.objects(propertyId, RDFS_DOMAIN).filter(isIriTerm)) {
+                    bindings.push({property, domain: toRdfIri(domain)});
+                }
+                for (const range of this.store.objects(propertyId, RDFS_RANGE).filter(isIriTerm)) {
+                    bindings.push({property, range: toRdfIri(range)});
+                }
+                for (const superProperty of this.store.objects(propertyId, RDFS_SUB_PROPERTY_OF).filter(isIriTerm)) {
+                    if (superProperty === propertyId) { continue; }
+                    bindings.push({property, superProperty: toRdfIri(superProperty)});
+                }
+            }
+            for (const {subject, object: restriction} of this.store.match(undefined, RDFS_SUB_CLASS_OF, undefined)) {
+                if (!isIriTerm(subject) || isLiteralTerm(restriction)) { continue; }
+                for (const propertyId of this.store.objects(restriction, OWL_ON_PROPERTY).filter(isIriTerm)) {
+                    for (const cardinalityKind of CARDINALITY_KINDS) {
+                        const cardinalities = this.store.objects(restriction, cardinalityKind).filter(isLiteralTerm);
+                        for (const cardinality of cardinalities) {
+                            bindings.push({
+                                property: toRdfIri(propertyId),
+                                restrictedClass: toRdfIri(subject),
+                                cardinalityKind: toRdfIri(cardinalityKind),
+                                cardinality: toRdfLiteral(cardinality),
+                            });
+                        }
+                    }
+                }
+            }
+            return bindings;
+        }).then(response => getPropertySignatures(response, this.prefixes));
+    }
+
+    propertyCountOfClasses(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.select<PropertyCountBinding>(params.signal, () =>
+            this.store.subjects(RDF_TYPE, OWL_CLASS).filter(isIriTerm).map(classId => ({
+                id: toRdfIri(classId),
+                count: countLiteral(this.store.subjects(RDFS_DOMAIN, classId).length),
+            }))
+        ).then(getPropertyCountOfConcepts);
+    }
+
+    propertyCountOfIndividuals(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        return this.select<PropertyCountBinding>(params.signal, () =>
+            this.store.subjects(RDF_TYPE, OWL_NAMED_INDIVIDUAL).filter(isIriTerm).map(individualId => ({
+                id: toRdfIri(individualId),
+                count: countLiteral(this.store.match(individualId, undefined, undefined).length),
+            }))
+        ).then(getPropertyCountOfConcepts);
+    }
+
+    filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
+        if (params.limit === 0) { params.limit = 100; }
+
+        if (!params.refElementId && params.refElementLinkId) {
+            return Promise.reject(new Error(`Can't execute refElementLink filter without refElement`));
+        }
+
+        return this.select<ElementBinding>(params.signal, () => {
+            let candidates: string[];
+            if (params.refElementId) {
+                const {refElementId, refElementLinkId} = params;
+                candidates = this.store.objects(refElementId, refElementLinkId)
+                    .concat(this.store.subjects(refElementLinkId, refElementId));
+            } else if (params.elementTypeId) {
+                candidates = this.store.subjects(RDF_TYPE, params.elementTypeId);
+            } else {
+                candidates = this.store.match().map(triple => triple.subject);
+            }
+
+            if (params.refElementId && params.elementTypeId) {
+                candidates = candidates.filter(id => this.store.has(id, RDF_TYPE, params.elementTypeId));
+            }
+
+            const text = params.text ? params.text.toLowerCase() : undefined;
+            const sortLabels: Dictionary<string> = {};
+            for (const id of candidates) {
+                if (!isIriTerm(id) || Object.prototype.hasOwnProperty.call(sortLabels, id)) { continue; }
+                const labels = this.labelsOf(id);
+                if (text) {
+                    const searchable = labels.length > 0 ? labels.map(label => label.value) : [getNameFromId(id)];
+                    if (!searchable.some(value => value.toLowerCase().indexOf(text) >= 0)) { continue; }
+                }
+                sortLabels[id] = chooseSortLabel(id, labels, params.languageCode);
+            }
+
+            const found = Object.keys(sortLabels)
+                .sort((a, b) => sortLabels[a].localeCompare(sortLabels[b]))
+                .slice(params.offset, params.offset + params.limit);
+
+            const bindings: ElementBinding[] = [];
+            for (const id of found) {
+                const types = this.store.objects(id, RDF_TYPE).filter(isIriTerm);
+                for (const type of (types.length > 0 ? types : [OWL_THING])) {
+                    for (const label of optional(this.labelsOf(id))) {
+                        bindings.push({inst: toRdfIri(id), class: toRdfIri(type), label});
+                    }
+                }
+            }
+            return bindings;
+        }).then(response => getFilteredData(response, this.prefixes));
+    }
+
+    /**
+     * Returns labels of each language from the first label predicate which has labels in that language.
+     */
+    private labelsOf(id: string): RdfLiteral[] {
+        const {labelPredicates = [RDFS_LABEL]} = this.options;
+        const coveredLanguages: Dictionary<boolean> = {};
+        const result: RdfLiteral[] = [];
+        for (const predicate of labelPredicates) {
+            const labels = this.store.objects(id, predicate).filter(isLiteralTerm).map(toRdfLiteral)
+                .filter(label => !coveredLanguages[label['xml:lang']]);
+            for (const label of labels) {
+                coveredLanguages[label['xml:lang']] = true;
+                result.push(label);
+            }
+        }
+        return result;
+    }
+
+    /** Returns items of RDF collection (rdf:first/rdf:rest list). */
+    private listItems(list: string): string[] {
+        const items: string[] = [];
+        const visited: Dictionary<boolean> = {};
+        let node = list;
+        while (node && !visited[node]) {
+            visited[node] = true;
+            items.push(...this.store.objects(node, RDF_FIRST));
+            node = this.store.objects(node, RDF_REST)[0];
+        }
+        return items;
+    }
+
+    private select<Binding>(
+        signal: CancellationToken | undefined,
+        getBindings: () => Binding[],
+    ): Promise<SparqlResponse<Binding>> {
+        return this.loaded.then(() => {
+            if (signal && signal.aborted) {
+                return Promise.reject<SparqlResponse<Binding>>(createCancelledError());
+            }
+            return {
+                head: {vars: []},
+                results: {bindings: getBindings()},
+            };
+        });
+    }
+}
+
+/**
+ * Guesses RDF media type by file extension, e.g. 'ontology.nt' -> 'application/n-triples'.
+ */
+export function guessFormat(fileName?: string): string | undefined {
+    if (!fileName) { return undefined; }
+    const extension = fileName.substring(fileName.lastIndexOf('.') + 1).toLowerCase();
+    if (extension === 'nt') {
+        return 'application/n-triples';
+    } else if (extension === 'ttl') {
+        return 'text/turtle';
+    } else if (extension === 'jsonld') {
+        return JSON_LD_FORMAT;
+    } else {
+        return undefined;
+    }
+}
+
+function countLiteral(count: number): RdfLiteral {
+    return {type: 'literal', value: count.toString(), datatype: XSD_INTEGER, 'xml:lang': ''};
+}
+
+function chooseSortLabel(id: string, labels: RdfLiteral[], languageCode: string): string {
+    let defaultLabel: string;
+    for (const label of labels) {
+        if (label['xml:lang'] === languageCode) {
+            return label.value;
+        } else if (!label['xml:lang'] && defaultLabel === undefined) {
+            defaultLabel = label.value;
+        }
+    }
+    return defaultLabel === undefined ? getNameFromId(id) : defaultLabel;
+}
+
+export default RdfFileDataProvider;
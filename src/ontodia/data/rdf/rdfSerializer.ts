@@ -0,0 +1,115 @@
+import * as N3 from 'n3';
+
+import { Dictionary } from '../model';
+import { PrefixRegistry, defaultPrefixRegistry } from '../prefixRegistry';
+
+import { RdfTriple, isIriTerm, isLiteralTerm } from './rdfStore';
+
+export type RdfSerializationFormat = 'text/turtle' | 'application/n-triples';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+
+/**
+ * Serializes triples in N3.js representation as Turtle or N-Triples document.
+ *
+ * Turtle output groups triples by subject and abbreviates IRIs with prefixes
+ * from registry; only prefixes which are used in the document are declared.
+ */
+export function serializeRdf(
+    triples: RdfTriple[],
+    format: RdfSerializationFormat,
+    prefixes: PrefixRegistry = defaultPrefixRegistry,
+): string {
+    if (format === 'application/n-triples') {
+        return triples.map(({subject, predicate, object}) =>
+            `${writeTerm(subject)} ${writeTerm(predicate)} ${writeTerm(object)} .\n`
+        ).join('');
+    }
+
+    const usedPrefixes: Dictionary<string> = {};
+    const writeTurtleTerm = (term: string, isPredicate = false): string => {
+        if (isPredicate && term === RDF_TYPE) {
+            return 'a';
+        } else if (isIriTerm(term)) {
+            const curie = prefixes.toCurie(term);
+            if (curie === undefined) { return writeIri(term); }
+            const prefix = curie.substring(0, curie.indexOf(':'));
+            usedPrefixes[prefix] = prefixes.getNamespace(prefix);
+            return curie;
+        } else if (isLiteralTerm(term)) {
+            return writeLiteral(term, datatype => writeTurtleTerm(datatype));
+        }
+        return term;
+    };
+
+    const subjects: string[] = [];
+    const bySubject: Dictionary<RdfTriple[]> = {};
+    for (const triple of triples) {
+        if (!Object.prototype.hasOwnProperty.call(bySubject, triple.subject)) {
+            bySubject[triple.subject] = [];
+            subjects.push(triple.subject);
+        }
+        bySubject[triple.subject].push(triple);
+    }
+
+    const statements = subjects.map(subject => {
+        const predicates: string[] = [];
+        const objectsByPredicate: Dictionary<string[]> = {};
+        for (const {predicate, object} of bySubject[subject]) {
+            if (!Object.prototype.hasOwnProperty.call(objectsByPredicate, predicate)) {
+                objectsByPredicate[predicate] = [];
+                predicates.push(predicate);
+            }
+            objectsByPredicate[predicate].push(writeTurtleTerm(object));
+        }
+        const predicateList = predicates.map(predicate =>
+            writeTurtleTerm(predicate, true) + ' ' + objectsByPredicate[predicate].join(', ')
+        ).join(' ;\n    ');
+        return `${writeTurtleTerm(subject)} ${predicateList} .\n`;
+    });
+
+    const declarations = Object.keys(usedPrefixes).sort().map(prefix =>
+        `@prefix ${prefix}: ${writeIri(usedPrefixes[prefix])} .\n`
+    ).join('');
+    return declarations + (declarations ? '\n' : '') + statements.join('\n');
+}
+
+function writeTerm(term: string): string {
+    if (isIriTerm(term)) {
+        return writeIri(term);
+    } else if (isLiteralTerm(term)) {
+        return writeLiteral(term, writeIri);
+    }
+    return term;
+}
+
+function writeLiteral(term: string, writeDatatype: (datatype: string) => string): string {
+    const datatype = N3.Util.getLiteralType(term);
+    const language = N3.Util.getLiteralLanguage(term);
+    const value = writeString(N3.Util.getLiteralValue(term));
+    if (language) {
+        return `${value}@${language}`;
+    } else if (datatype && datatype !== XSD_STRING) {
+        return `${value}^^${writeDatatype(datatype)}`;
+    }
+    return value;
+}
+
+function writeIri(iri: string): string {
+    const escaped = iri.replace(/[\u0000- <>"{}|^`\\]/g, char => {
+        const code = char.charCodeAt(0).toString(16).toUpperCase();
+        return '\\u' + '0000'.substring(code.length) + code;
+    });
+    return `<${escaped}>`;
+}
+
+function writeString(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+}
@@ -0,0 +1,152 @@
+import * as N3 from 'n3';
+
+import { Dictionary } from '../model';
+import { RdfNode, RdfIri, RdfLiteral } from '../sparql/sparqlModels';
+
+import { JSON_LD_FORMAT, parseJsonLd } from './jsonLd';
+
+export type RdfTriple = N3.Triple;
+
+/**
+ * In-memory triple index with lookup by subject, predicate and object.
+ *
+ * Terms are kept in N3.js representation: IRIs as plain strings,
+ * blank nodes as '_:id' and literals as '"value"@lang' or '"value"^^datatype'.
+ */
+export class RdfStore {
+    private triples: RdfTriple[] = [];
+    private keys: Dictionary<boolean> = {};
+
+    private bySubject: Dictionary<RdfTriple[]> = {};
+    private byPredicate: Dictionary<RdfTriple[]> = {};
+    private byObject: Dictionary<RdfTriple[]> = {};
+
+    get size() { return this.triples.length; }
+
+    add(triple: RdfTriple) {
+        const {subject, predicate, object} = triple;
+        const key = subject + ' ' + predicate + ' ' + object;
+        if (this.keys[key]) { return; }
+        this.keys[key] = true;
+
+        const stored: RdfTriple = {subject, predicate, object};
+        this.triples.push(stored);
+        addToIndex(this.bySubject, subject, stored);
+        addToIndex(this.byPredicate, predicate, stored);
+        addToIndex(this.byObject, object, stored);
+    }
+
+    addAll(triples: RdfTriple[]) {
+        for (const triple of triples) {
+            this.add(triple);
+        }
+    }
+
+    /**
+     * Returns triples matching the pattern; undefined pattern term matches anything.
+     */
+    match(subject?: string, predicate?: string, object?: string): RdfTriple[] {
+        let candidates = this.triples;
+        if (subject !== undefined) {
+            candidates = smallest(candidates, this.bySubject[subject]);
+        }
+        if (predicate !== undefined) {
+            candidates = smallest(candidates, this.byPredicate[predicate]);
+        }
+        if (object !== undefined) {
+            candidates = smallest(candidates, this.byObject[object]);
+        }
+        return candidates.filter(triple =>
+            (subject === undefined || triple.subject === subject) &&
+            (predicate === undefined || triple.predicate === predicate) &&
+            (object === undefined || triple.object === object)
+        );
+    }
+
+    objects(subject: string, predicate: string): string[] {
+        return this.match(subject, predicate, undefined).map(triple => triple.object);
+    }
+
+    subjects(predicate: string, object: string): string[] {
+        return this.match(undefined, predicate, object).map(triple => triple.subject);
+    }
+
+    has(subject: string, predicate: string, object: string): boolean {
+        return this.match(subject, predicate, object).length > 0;
+    }
+}
+
+function addToIndex(index: Dictionary<RdfTriple[]>, key: string, triple: RdfTriple) {
+    if (!Object.prototype.hasOwnProperty.call(index, key)) {
+        index[key] = [];
+    }
+    index[key].push(triple);
+}
+
+function smallest(current: RdfTriple[], indexed: RdfTriple[] | undefined): RdfTriple[] {
+    if (!indexed) { return []; }
+    return indexed.length < current.length ? indexed : current;
+}
+
+export interface ParsedRdf {
+    triples: RdfTriple[];
+    prefixes: Dictionary<string>;
+}
+
+/**
+ * Parses Turtle, N-Triples or JSON-LD document.
+ *
+ * @param format - media type or format name, e.g. 'text/turtle', 'application/n-triples'
+ *     or 'application/ld+json'; when omitted the document is parsed as Turtle
+ *     (which is a superset of N-Triples)
+ */
+export function parseRdf(content: string, format?: string): Promise<ParsedRdf> {
+    if (format === JSON_LD_FORMAT) {
+        return new Promise<ParsedRdf>(resolve => resolve(parseJsonLd(JSON.parse(content))));
+    }
+    return new Promise<ParsedRdf>((resolve, reject) => {
+        const triples: RdfTriple[] = [];
+        N3.Parser({format}).parse(content, (error, triple, prefixes) => {
+            if (error) {
+                reject(error);
+            } else if (triple) {
+                triples.push(triple);
+            } else {
+                resolve({triples, prefixes: {...prefixes}});
+            }
+        });
+    });
+}
+
+export function isIriTerm(term: string): boolean {
+    return Boolean(term) && N3.Util.isIRI(term);
+}
+
+export function isBlankTerm(term: string): boolean {
+    return Boolean(term) && N3.Util.isBlank(term);
+}
+
+export function isLiteralTerm(term: string): boolean {
+    return Boolean(term) && N3.Util.isLiteral(term);
+}
+
+export function toRdfIri(term: string): RdfIri {
+    return {type: 'uri', value: term};
+}
+
+export function toRdfNode(term: string): RdfNode {
+    return isIriTerm(term) ? toRdfIri(term) : toRdfLiteral(term);
+}
+
+export function toRdfLiteral(term: string): RdfLiteral {
+    if (!isLiteralTerm(term)) {
+        return {type: 'literal', value: term, 'xml:lang': ''};
+    }
+    const lang = N3.Util.getLiteralLanguage(term);
+    return {
+        type: 'literal',
+        value: N3.Util.getLiteralValue(term),
+        datatype: lang ? undefined : N3.Util.getLiteralType(term),
+        'xml:lang': lang,
+    };
+}
@@ -0,0 +1,110 @@
+import { Dictionary } from '../model';
+
+type JsonPathSegment =
+    { type: 'member'; name: string; } |
+    { type: 'index'; index: number; } |
+    { type: 'wildcard'; } |
+    { type: 'descendant'; segment: JsonPathSegment; };
+
+const MEMBER_NAME = /^[^.\[\]]+/;
+const parsedPaths: Dictionary<JsonPathSegment[]> = {};
+
+/**
+ * Evaluates JSONPath expression and returns all matched values.
+ *
+ * Supports commonly used subset of JSONPath: `$` root, `.name` and `['name']` members,
+ * `[0]` array indices, `*` and `[*]` wildcards and `..name` recursive descent;
+ * paths without leading `$` (e.g. `label.en`) are evaluated relative to the value.
+ */
+export function evaluateJsonPath(value: any, path: string): any[] {
+    if (!Object.prototype.hasOwnProperty.call(parsedPaths, path)) {
+        parsedPaths[path] = parseJsonPath(path);
+    }
+    let values = [value];
+    for (const segment of parsedPaths[path]) {
+        values = flatMap(values, item => selectSegment(item, segment));
+    }
+    return values.filter(item => item !== undefined);
+}
+
+/**
+ * Returns the first value matched by JSONPath expression or undefined.
+ */
+export function evaluateJsonPathFirst(value: any, path: string): any {
+    return evaluateJsonPath(value, path)[0];
+}
+
+function parseJsonPath(path: string): JsonPathSegment[] {
+    const segments: JsonPathSegment[] = [];
+    let index = path[0] === '$' ? 1 : 0;
+
+    const fail = (): never => {
+        throw new Error(`Invalid JSON path "${path}" at position ${index}`);
+    };
+    const readName = (): JsonPathSegment => {
+        if (path[index] === '*') {
+            index++;
+            return {type: 'wildcard'};
+        }
+        const match = MEMBER_NAME.exec(path.substring(index));
+        if (!match) { return fail(); }
+        index += match[0].length;
+        return {type: 'member', name: match[0]};
+    };
+    const readBracket = (): JsonPathSegment => {
+        const end = path.indexOf(']', index);
+        if (end < 0) { return fail(); }
+        const content = path.substring(index + 1, end).trim();
+        index = end + 1;
+        if (content === '*') {
+            return {type: 'wildcard'};
+        } else if (/^\d+$/.test(content)) {
+            return {type: 'index', index: Number(content)};
+        } else if (/^'[^']*'$|^"[^"]*"$/.test(content)) {
+            return {type: 'member', name: content.substring(1, content.length - 1)};
+        }
+        return fail();
+    };
+
+    while (index < path.length) {
+        if (path.substr(index, 2) === '..') {
+            index += 2;
+            const segment = path[index] === '[' ? readBracket() : readName();
+            segments.push({type: 'descendant', segment});
+        } else if (path[index] === '.') {
+            index++;
+            segments.push(readName());
+        } else if (path[index] === '[') {
+            segments.push(readBracket());
+        } else if (index === 0) {
+            segments.push(readName());
+        } else {
+            fail();
+        }
+    }
+    return segments;
+}
+
+function selectSegment(value: any, segment: JsonPathSegment): any[] {
+    if (value === null || typeof value !== 'object') {
+        return [];
+    } else if (segment.type === 'member') {
+        return Object.prototype.hasOwnProperty.call(value, segment.name) ? [value[segment.name]] : [];
+    } else if (segment.type === 'index') {
+        return Array.isArray(value) && segment.index < value.length ? [value[segment.index]] : [];
+    } else if (segment.type === 'wildcard') {
+        return Array.isArray(value) ? value : Object.keys(value).map(key => value[key]);
+    } else {
+        const descendants = flatMap(selectSegment(value, {type: 'wildcard'}), child =>
+            selectSegment(child, segment));
+        return selectSegment(value, segment.segment).concat(descendants);
+    }
+}
+
+function flatMap<T, R>(items: T[], map: (item: T) => R[]): R[] {
+    const result: R[] = [];
+    for (const item of items) {
+        result.push(...map(item));
+    }
+    return result;
+}
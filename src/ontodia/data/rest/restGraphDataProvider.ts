@@ -0,0 +1,395 @@
+import { DataProvider, FilterParams } from '../provider';
+import { CancellationToken, createCancelledError } from '../cancellation';
+import {
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyCount, ConceptModel,
+} from '../model';
+import {
+    getClassTree,
+    getClassInfo,
+    getLinkTypes,
+    getElementsInfo,
+    getLinksInfo,
+    getLinksTypesOf,
+    getFilteredData,
+    getLinkTypesInfo,
+    getInstanceConceptsTree,
+} from '../sparql/responseHandler';
+import {
+    RdfNode, RdfIri, RdfLiteral, SparqlResponse, ClassBinding, ElementBinding, LinkBinding,
+    LinkTypeBinding, LinkTypeInfoBinding, ConceptBinding,
+} from '../sparql/sparqlModels';
+import { SparqlAuth, SparqlFetch, SparqlRequest, getAuthHeaders, jqueryFetch } from '../sparql/sparqlTransport';
+import { optional, toSet } from '../utils';
+
+import { evaluateJsonPath, evaluateJsonPathFirst } from './jsonPath';
+
+const OWL_THING = 'http://www.w3.org/2002/07/owl#Thing';
+const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+/**
+ * HTTP endpoint which answers one kind of data provider request.
+ *
+ * URL template placeholders like `{elementId}` are replaced with URL-encoded request
+ * parameters; array parameters (e.g. `{elementIds}`) are joined with commas.
+ */
+export interface RestEndpoint {
+    /** URL template relative to `baseUrl`, e.g. '/nodes?ids={elementIds}'. */
+    url: string;
+    /**
+     * POST requests send all request parameters as JSON body.
+     * @default 'GET'
+     */
+    method?: 'GET' | 'POST';
+    /**
+     * JSON path to the array of result items in response.
+     * @default '$'
+     */
+    items?: string;
+}
+
+/**
+ * JSON paths of item fields are relative to each result item; label paths may
+ * select strings or `{value, lang}` objects (e.g. `labels[*]`).
+ */
+export interface RestClassMapping extends RestEndpoint {
+    id: string;
+    label?: string;
+    /** Path to parent class IDs. */
+    parent?: string;
+    /** Path to number of class instances. */
+    count?: string;
+}
+
+export interface RestElementMapping extends RestEndpoint {
+    id: string;
+    label?: string;
+    /** Path to type (class) IDs. */
+    types?: string;
+    /**
+     * Path to object with property IDs as keys; values are primitive values,
+     * `{value, lang?, datatype?}` literals, `{iri}` references or arrays of them.
+     */
+    properties?: string;
+}
+
+export interface RestLinkMapping extends RestEndpoint {
+    source: string;
+    target: string;
+    type: string;
+}
+
+export interface RestLinkTypeMapping extends RestEndpoint {
+    id: string;
+    label?: string;
+    count?: string;
+}
+
+export interface RestGraphMapping {
+    /** Request parameters: none. */
+    classTree: RestClassMapping;
+    /** Request parameters: `classIds`; filtered class tree is used when omitted. */
+    classInfo?: RestClassMapping;
+    /** Request parameters: none; no link types are known in advance when omitted. */
+    linkTypes?: RestLinkTypeMapping;
+    /** Request parameters: `linkTypeIds`; filtered link types are used when omitted. */
+    linkTypesInfo?: RestLinkTypeMapping;
+    /** Request parameters: `elementIds`. */
+    elementInfo: RestElementMapping;
+    /** Request parameters: `elementIds`, `linkTypeIds`. */
+    linksInfo: RestLinkMapping;
+    /** Request parameters: `elementId`. */
+    linkTypesOf: RestLinkTypeMapping;
+    /**
+     * Request parameters: `elementTypeId`, `text`, `refElementId`, `refElementLinkId`,
+     * `limit`, `offset`, `languageCode`; unspecified parameters are empty strings.
+     */
+    filter: RestElementMapping;
+}
+
+export interface RestGraphDataProviderOptions {
+    /** Base URL prepended to every endpoint URL template. */
+    baseUrl: string;
+    mapping: RestGraphMapping;
+    /** @default {type: 'none'} */
+    auth?: SparqlAuth;
+    /** Additional headers sent with every request. */
+    headers?: Dictionary<string>;
+    /** @default jqueryFetch */
+    fetch?: SparqlFetch;
+}
+
+type RequestParams = Dictionary<string | number | string[]>;
+
+/**
+ * Data provider for existing JSON graph APIs which is configured with endpoint
+ * URL templates and JSON-path mappings of response fields.
+ *
+ * Responses are converted into SPARQL result bindings and processed by the same
+ * handlers as SparqlDataProvider, so both providers produce identical models.
+ */
+export class RestGraphDataProvider implements DataProvider {
+    constructor(private options: RestGraphDataProviderOptions) {}
+
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        const {classTree} = this.options.mapping;
+        return this.select(classTree, {}, params.signal, item => classBindings(item, classTree))
+            .then(getClassTree);
+    }
+
+    classInfo(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassModel[]> {
+        const {classInfo, classTree} = this.options.mapping;
+        const mapping = classInfo || classTree;
+        const classIds = toSet(params.classIds);
+        return this.select(mapping, {classIds: params.classIds}, params.signal, item =>
+            classBindings(item, mapping).filter(binding => classIds[binding.class.value])
+        ).then(getClassInfo);
+    }
+
+    linkTypes(params: { signal?: CancellationToken; } = {}): Promise<LinkType[]> {
+        const {linkTypes} = this.options.mapping;
+        if (!linkTypes) { return Promise.resolve([]); }
+        return this.select(linkTypes, {}, params.signal, item => linkTypeBindings(item, linkTypes))
+            .then(getLinkTypes);
+    }
+
+    linkTypesInfo(params: { linkTypeIds: string[]; signal?: CancellationToken; }): Promise<LinkType[]> {
+        const mapping = this.options.mapping.linkTypesInfo || this.options.mapping.linkTypes;
+        if (!mapping) { return Promise.resolve([]); }
+        const linkTypeIds = toSet(params.linkTypeIds);
+        return this.select<LinkTypeInfoBinding>(mapping, {linkTypeIds: params.linkTypeIds}, params.signal, item =>
+            linkTypeBindings(item, mapping)
+                .filter(binding => linkTypeIds[binding.link.value])
+                .map(({link, label, instcount}) => ({typeId: link, label, instcount}))
+        ).then(getLinkTypesInfo);
+    }
+
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        const {elementInfo} = this.options.mapping;
+        return this.select(elementInfo, {elementIds: params.elementIds}, params.signal, item =>
+            elementBindings(item, elementInfo, true)
+        ).then(response => getElementsInfo(response, params.elementIds));
+    }
+
+    linksInfo(params: {
+        elementIds: string[];
+        linkTypeIds: string[];
+        signal?: CancellationToken;
+    }): Promise<LinkModel[]> {
+        const {linksInfo} = this.options.mapping;
+        const requestParams = {elementIds: params.elementIds, linkTypeIds: params.linkTypeIds};
+        return this.select<LinkBinding>(linksInfo, requestParams, params.signal, item => {
+            const source = readString(item, linksInfo.source);
+            const type = readString(item, linksInfo.type);
+            const target = readString(item, linksInfo.target);
+            if (source === undefined || type === undefined || target === undefined) { return []; }
+            return [{source: iri(source), type: iri(type), target: iri(target)}];
+        }).then(getLinksInfo);
+    }
+
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        const {linkTypesOf} = this.options.mapping;
+        return this.select(linkTypesOf, {elementId: params.elementId}, params.signal, item =>
+            linkTypeBindings(item, linkTypesOf)
+        ).then(getLinksTypesOf);
+    }
+
+    filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
+        if (params.limit === 0) { params.limit = 100; }
+        const {filter} = this.options.mapping;
+        const requestParams: RequestParams = {
+            elementTypeId: params.elementTypeId || '',
+            text: params.text || '',
+            refElementId: params.refElementId || '',
+            refElementLinkId: params.refElementLinkId || '',
+            limit: params.limit,
+            offset: params.offset,
+            languageCode: params.languageCode || '',
+        };
+        return this.select(filter, requestParams, params.signal, item =>
+            elementBindings(item, filter, false)
+        ).then(getFilteredData);
+    }
+
+    propertyCountOfClasses(): Promise<PropertyCount[]> {
+        return Promise.resolve([]);
+    }
+
+    propertyCountOfIndividuals(): Promise<PropertyCount[]> {
+        return Promise.resolve([]);
+    }
+
+    /**
+     * Generic JSON graph APIs have no notion of classifier relations, so there are
+     * no individual concepts and the tree is empty (see completeConceptTree()).
+     */
+    instanceConceptsTree(): Promise<ConceptModel> {
+        const response: SparqlResponse<ConceptBinding> = {head: {vars: []}, results: {bindings: []}};
+        return Promise.resolve(getInstanceConceptsTree(response));
+    }
+
+    private select<Binding>(
+        endpoint: RestEndpoint,
+        params: RequestParams,
+        signal: CancellationToken | undefined,
+        toBindings: (item: any) => Binding[],
+    ): Promise<SparqlResponse<Binding>> {
+        if (signal && signal.aborted) {
+            return Promise.reject<SparqlResponse<Binding>>(createCancelledError());
+        }
+        const fetch = this.options.fetch || jqueryFetch;
+        // create request inside promise chain to reject on invalid URL template instead of throwing
+        return Promise.resolve().then<any>(() => fetch(this.createRequest(endpoint, params), signal)).then(body => {
+            if (signal && signal.aborted) {
+                return Promise.reject<SparqlResponse<Binding>>(createCancelledError());
+            }
+            const json = typeof body === 'string' ? JSON.parse(body) : body;
+            const items = flatten(evaluateJsonPath(json, endpoint.items || '$'));
+            const bindings: Binding[] = [];
+            for (const item of items) {
+                bindings.push(...toBindings(item));
+            }
+            return {head: {vars: []}, results: {bindings}};
+        });
+    }
+
+    private createRequest(endpoint: RestEndpoint, params: RequestParams): SparqlRequest {
+        const {baseUrl, auth, headers = {}} = this.options;
+        const url = baseUrl + endpoint.url.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+            const value = params[name];
+            if (value === undefined) {
+                throw new Error(`Unknown parameter ${placeholder} in REST endpoint URL template`);
+            }
+            return Array.isArray(value) ? value.map(encodeURIComponent).join(',') : encodeURIComponent(String(value));
+        });
+        const request: SparqlRequest = {
+            method: endpoint.method || 'GET',
+            url,
+            headers: {'Accept': 'application/json', ...headers},
+        };
+        if (request.method === 'POST') {
+            request.headers['Content-Type'] = 'application/json; charset=UTF-8';
+            request.body = JSON.stringify(params);
+        }
+        request.headers = {...request.headers, ...getAuthHeaders(auth, request)};
+        return request;
+    }
+}
+
+function classBindings(item: any, mapping: RestClassMapping): ClassBinding[] {
+    const id = readString(item, mapping.id);
+    if (id === undefined) { return []; }
+    const count = mapping.count ? readString(item, mapping.count) : undefined;
+    const instcount = count === undefined ? undefined : literal(count, XSD + 'integer');
+    const parents = mapping.parent ? readStrings(item, mapping.parent) : [];
+    const bindings: ClassBinding[] = [];
+    for (const label of optional(readLabels(item, mapping.label))) {
+        for (const parent of optional(parents)) {
+            bindings.push({class: iri(id), label, instcount, parent: parent ? iri(parent) : undefined});
+        }
+    }
+    return bindings;
+}
+
+function linkTypeBindings(item: any, mapping: RestLinkTypeMapping): LinkTypeBinding[] {
+    const id = readString(item, mapping.id);
+    if (id === undefined) { return []; }
+    const count = mapping.count ? readString(item, mapping.count) : undefined;
+    const instcount = count === undefined ? undefined : literal(count, XSD + 'integer');
+    return optional(readLabels(item, mapping.label)).map(label => ({link: iri(id), label, instcount}));
+}
+
+function elementBindings(item: any, mapping: RestElementMapping, withProperties: boolean): ElementBinding[] {
+    const id = readString(item, mapping.id);
+    if (id === undefined) { return []; }
+    const inst = iri(id);
+    const types = mapping.types ? readStrings(item, mapping.types) : [];
+    const bindings: ElementBinding[] = [];
+    // filter() results should always have a type like in SparqlDataProvider
+    const defaultTypes = withProperties ? [undefined] : [OWL_THING];
+    for (const type of (types.length > 0 ? types : defaultTypes)) {
+        for (const label of optional(readLabels(item, mapping.label))) {
+            bindings.push({inst, class: type ? iri(type) : undefined, label});
+        }
+    }
+    if (withProperties && mapping.properties) {
+        const properties = evaluateJsonPathFirst(item, mapping.properties);
+        if (properties && typeof properties === 'object') {
+            for (const propertyId of Object.keys(properties)) {
+                for (const value of toArray(properties[propertyId])) {
+                    const propValue = readPropertyValue(value);
+                    if (propValue) {
+                        bindings.push({inst, propType: iri(propertyId), propValue});
+                    }
+                }
+            }
+        }
+    }
+    return bindings;
+}
+
+function readPropertyValue(value: any): RdfNode | undefined {
+    if (value === null || value === undefined) {
+        return undefined;
+    } else if (typeof value === 'number') {
+        return literal(String(value), value % 1 === 0 ? XSD + 'integer' : XSD + 'double');
+    } else if (typeof value === 'boolean') {
+        return literal(String(value), XSD + 'boolean');
+    } else if (typeof value === 'object') {
+        if (typeof value.iri === 'string') {
+            return iri(value.iri);
+        } else if (value.value !== undefined) {
+            return {type: 'literal', value: String(value.value), datatype: value.datatype, 'xml:lang': value.lang || ''};
+        }
+        return undefined;
+    }
+    return literal(String(value));
+}
+
+function readLabels(item: any, path: string | undefined): RdfLiteral[] {
+    if (!path) { return []; }
+    const labels: RdfLiteral[] = [];
+    for (const value of flatten(evaluateJsonPath(item, path))) {
+        if (typeof value === 'string') {
+            labels.push(literal(value));
+        } else if (value && typeof value === 'object' && value.value !== undefined) {
+            labels.push({type: 'literal', value: String(value.value), 'xml:lang': value.lang || ''});
+        }
+    }
+    return labels;
+}
+
+function readString(item: any, path: string): string | undefined {
+    return readStrings(item, path)[0];
+}
+
+function readStrings(item: any, path: string): string[] {
+    return flatten(evaluateJsonPath(item, path))
+        .filter(value => value !== null && value !== undefined && typeof value !== 'object')
+        .map(String);
+}
+
+function iri(value: string): RdfIri {
+    return {type: 'uri', value};
+}
+
+function literal(value: string, datatype?: string): RdfLiteral {
+    return {type: 'literal', value, datatype, 'xml:lang': ''};
+}
+
+function flatten(values: any[]): any[] {
+    const result: any[] = [];
+    for (const value of values) {
+        if (Array.isArray(value)) {
+            result.push(...value);
+        } else {
+            result.push(value);
+        }
+    }
+    return result;
+}
+
+function toArray(value: any): any[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+export default RestGraphDataProvider;
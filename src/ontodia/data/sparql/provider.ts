@@ -1,9 +1,10 @@
-import * as $ from 'jquery';
-
+import { keyBy } from 'lodash';
 import { DataProvider, FilterParams } from '../provider';
+import { CancellationToken, isCancelledError } from '../cancellation';
+import { PrefixRegistry, defaultPrefixRegistry } from '../prefixRegistry';
 import {
     Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount,
-    ConceptModel
+    ConceptModel, ClassAxiom, PropertySignature,
 } from '../model';
 import {
     getClassTree,
@@ -18,31 +19,76 @@ import {
     getPropertyInfo,
     getPropertyCountOfConcepts,
     getInstanceConceptsTree,
+    getClassAxioms,
+    getPropertySignatures,
+    getPropertyConceptsTree,
 } from './responseHandler';
 import {
-    SparqlResponse, ClassBinding, ElementBinding, LinkBinding,
+    ClassBinding, ElementBinding, LinkBinding,
     LinkTypeBinding, LinkTypeInfoBinding, ElementImageBinding,
-    PropertyBinding, PropertyCountBinding, ConceptBinding,
+    PropertyBinding, PropertyCountBinding, ConceptBinding, ClassAxiomBinding, PropertySignatureBinding,
+    PropertyConceptBinding, RdfLiteral,
 } from './sparqlModels';
-import Config from './stardogConfig';
+import { SparqlTransportOptions, executeSparqlQuery } from './sparqlTransport';
+import { TextSearchStrategy, RegexTextSearch } from './textSearch';
+import { SparqlFragment, sparql, iri, literal, integer, variable, join, values, prefixes } from './sparqlQuery';
 
-const DEFAULT_PREFIX =
-`PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
- PREFIX rdf:  <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
- PREFIX owl:  <http://www.w3.org/2002/07/owl#>
-` + '\n\n';
+/** Prefixes used by built-in queries which cannot be overridden by registry. */
+const QUERY_PREFIXES = {
+    rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    owl: 'http://www.w3.org/2002/07/owl#',
+};
 
-export interface SparqlDataProviderOptions {
-    endpointUrl: string;
+export interface SparqlDataProviderOptions extends SparqlTransportOptions {
     prepareImages?: (elementInfo: Dictionary<ElementModel>) => Promise<Dictionary<string>>;
     imageClassUris?: string[];
+    /**
+     * Maximum number of element IRIs in a single elementInfo() query and of source
+     * IRIs in a single linksInfo() query; larger requests are split into several queries.
+     * @default 200
+     */
+    batchSize?: number;
+    /**
+     * Maximum number of batch queries running at the same time.
+     * @default 4
+     */
+    maxParallelRequests?: number;
+    /**
+     * Full-text search implementation used by filter().
+     * @default RegexTextSearch
+     */
+    textSearch?: TextSearchStrategy;
+    /**
+     * Prefixes declared in every query in addition to rdf, rdfs and owl
+     * which can be used by custom query patterns; also used for fallback labels.
+     * @default own registry with prefixes of defaultPrefixRegistry
+     */
+    prefixes?: PrefixRegistry;
+    /**
+     * Predicates which values are used as labels, in priority order,
+     * e.g. [skos:prefLabel, rdfs:label, schema:name].
+     *
+     * Labels of lower priority predicate are used only for languages
+     * which have no labels with higher priority predicates.
+     * @default [rdfs:label]
+     */
+    labelPredicates?: string[];
 }
 
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_LABEL_PREDICATES = ['http://www.w3.org/2000/01/rdf-schema#label'];
+const DEFAULT_MAX_PARALLEL_REQUESTS = 4;
+
 export class SparqlDataProvider implements DataProvider {
-    constructor(private options: SparqlDataProviderOptions) {}
+    readonly prefixes: PrefixRegistry;
+
+    constructor(private options: SparqlDataProviderOptions) {
+        this.prefixes = options.prefixes || new PrefixRegistry(defaultPrefixRegistry.getPrefixes());
+    }
 
-    classTree(): Promise<[ClassModel[], ConceptModel]> {
-        const query = DEFAULT_PREFIX + `
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?class ?instcount ?label ?parent
             WHERE {
                 {{
@@ -54,91 +100,157 @@ export class SparqlDataProvider implements DataProvider {
                 }} UNION {
                     ?class a owl:Class
                 }
-                OPTIONAL { ?class rdfs:label ?label.}
+                OPTIONAL { ${this.labelPattern('?class', '?label')} }
                 OPTIONAL {?class rdfs:subClassOf ?parent}
             }
         `;
         return executeSparqlQuery<ClassBinding>(
-            this.options.endpointUrl, query).then(getClassTree);
+            this.options, query.text, params.signal).then(response => getClassTree(response, this.prefixes));
     }
 
-    instanceConceptsTree(classifierIds: string[], inverseClassifierIds: string[]): Promise<ConceptModel> {
-        const classifiers = classifierIds.map(escapeIri).join(', ');
-        const inverseClassifiers = inverseClassifierIds.map(escapeIri).join(', ');
-        const query = DEFAULT_PREFIX + `
-            SELECT ?concept ?label ?child ?childLabel ?parent ?parentLabel
-            WHERE {
-              {
-                ?concept rdf:type ?type.
-                ?type a owl:Class
-              }
-              OPTIONAL {
-                ?concept rdfs:label ?label.
-              }
-              OPTIONAL {
-                ?concept ?reverseClassifierRel ?child.
-                ?child a owl:NamedIndividual.
-                filter(?reverseClassifierRel in (${inverseClassifiers})).
-                OPTIONAL {
-                  ?child rdfs:label ?childLabel
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params: { signal?: CancellationToken; } = {},
+    ): Promise<ConceptModel> {
+        return Promise.resolve().then(() => {
+            const classifiers = join(classifierIds.map(iri));
+            const inverseClassifiers = join(inverseClassifierIds.map(iri));
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?concept ?label ?child ?childLabel ?parent ?parentLabel
+                WHERE {
+                  {
+                    ?concept rdf:type ?type.
+                    ?type a owl:Class
+                  }
+                  OPTIONAL {
+                    ${this.labelPattern('?concept', '?label')}
+                  }
+                  OPTIONAL {
+                    ?concept ?reverseClassifierRel ?child.
+                    ?child a owl:NamedIndividual.
+                    filter(?reverseClassifierRel in (${inverseClassifiers})).
+                    OPTIONAL {
+                      ${this.labelPattern('?child', '?childLabel')}
+                    }
+                  }
+                  OPTIONAL {
+                    ?concept ?directClassifierRel ?parent.
+                    ?parent a owl:NamedIndividual.
+                    filter(?directClassifierRel in (${classifiers})).
+                    OPTIONAL {
+                      ${this.labelPattern('?parent', '?parentLabel')}
+                    }
+                  }
                 }
-              }
-              OPTIONAL {
-                ?concept ?directClassifierRel ?parent.
-                ?parent a owl:NamedIndividual.
-                filter(?directClassifierRel in (${classifiers})).
+            `;
+            return executeSparqlQuery<ConceptBinding>(
+                this.options, query.text, params.signal).then(getInstanceConceptsTree);
+        });
+    }
+
+    propertyConceptsTree(params: { signal?: CancellationToken; } = {}): Promise<ConceptModel> {
+        const query = sparql`${this.prefixDeclarations()}
+            SELECT ?property ?type ?label ?superProperty
+            WHERE {
+                VALUES ?type { owl:ObjectProperty owl:DatatypeProperty }
+                ?property a ?type.
+                FILTER (IsIRI(?property))
+                OPTIONAL { ${this.labelPattern('?property', '?label')} }
                 OPTIONAL {
-                  ?parent rdfs:label ?parentLabel
+                    ?property rdfs:subPropertyOf ?superProperty.
+                    FILTER (IsIRI(?superProperty) && ?superProperty != ?property)
                 }
-              }
             }
         `;
-        return executeSparqlQuery<ConceptBinding> (this.options.endpointUrl, query).then(getInstanceConceptsTree);
+        return executeSparqlQuery<PropertyConceptBinding>(this.options, query.text, params.signal).then(response => {
+            const {bindings} = response.results;
+            const propertyIds = Object.keys(keyBy(bindings, ({property}) => property.value));
+            return this.executeInBatches(propertyIds, batch => this.propertyUsageBatch(batch, params.signal))
+                .then(mergeDictionaries)
+                .then(usages => {
+                    for (const binding of bindings) {
+                        binding.usage = usages[binding.property.value];
+                    }
+                    return getPropertyConceptsTree(response, this.prefixes);
+                });
+        });
     }
 
-    propertyInfo(params: { propertyIds: string[] }): Promise<Dictionary<PropertyModel>> {
-        const ids = params.propertyIds.map(escapeIri).map(id => ` ( ${id} )`).join(' ');
-        const query = DEFAULT_PREFIX + `
-            SELECT ?prop ?label
+    /**
+     * Counts usage of a batch of properties; listing them explicitly lets endpoint
+     * use predicate index instead of scanning and grouping the whole store.
+     */
+    private propertyUsageBatch(propertyIds: string[], signal?: CancellationToken): Promise<Dictionary<RdfLiteral>> {
+        const properties = values('property', propertyIds.map(iri));
+        const query = sparql`${this.prefixDeclarations()}
+            SELECT ?property (count(*) as ?usage)
             WHERE {
-                ?prop rdfs:label ?label.
-                VALUES (?prop) {${ids}}.
+                ${properties}
+                [] ?property [].
             }
+            GROUP BY ?property
         `;
-        return executeSparqlQuery<PropertyBinding>(
-            this.options.endpointUrl, query).then(getPropertyInfo);
+        return executeSparqlQuery<Pick<PropertyConceptBinding, 'property' | 'usage'>>(
+            this.options, query.text, signal
+        ).then(response => {
+            const usages: Dictionary<RdfLiteral> = {};
+            for (const {property, usage} of response.results.bindings) {
+                usages[property.value] = usage;
+            }
+            return usages;
+        });
     }
 
-    classInfo(params: {classIds: string[]}): Promise<ClassModel[]> {
-        const ids = params.classIds.map(escapeIri).map(id => ` ( ${id} )`).join(' ');
-        const query = DEFAULT_PREFIX + `
-            SELECT ?class ?label ?instcount
-            WHERE {
-                ?class rdfs:label ?label.
-                VALUES (?class) {${ids}}.
-                BIND("" as ?instcount)
-            }
-        `;
-        return executeSparqlQuery<ClassBinding>(
-            this.options.endpointUrl, query).then(getClassInfo);
+    propertyInfo(params: { propertyIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<PropertyModel>> {
+        return Promise.resolve().then(() => {
+            const ids = values('prop', params.propertyIds.map(iri));
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?prop ?label
+                WHERE {
+                    ${ids}
+                    ${this.labelPattern('?prop', '?label')}
+                }
+            `;
+            return executeSparqlQuery<PropertyBinding>(
+                this.options, query.text, params.signal).then(response => getPropertyInfo(response, this.prefixes));
+        });
     }
 
-    linkTypesInfo(params: {linkTypeIds: string[]}): Promise<LinkType[]> {
-        const ids = params.linkTypeIds.map(escapeIri).map(id => ` ( ${id} )`).join(' ');
-        const query = DEFAULT_PREFIX + `
-            SELECT ?type ?label ?instcount
-            WHERE {
-                ?type rdfs:label ?label.
-                VALUES (?type) {${ids}}.
-                BIND("" as ?instcount)      
-            }
-        `;
-        return executeSparqlQuery<LinkTypeInfoBinding>(
-            this.options.endpointUrl, query).then(getLinkTypesInfo);
+    classInfo(params: {classIds: string[]; signal?: CancellationToken}): Promise<ClassModel[]> {
+        return Promise.resolve().then(() => {
+            const ids = values('class', params.classIds.map(iri));
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?class ?label ?instcount
+                WHERE {
+                    ${ids}
+                    ${this.labelPattern('?class', '?label')}
+                    BIND("" as ?instcount)
+                }
+            `;
+            return executeSparqlQuery<ClassBinding>(
+                this.options, query.text, params.signal).then(response => getClassInfo(response, this.prefixes));
+        });
+    }
+
+    linkTypesInfo(params: {linkTypeIds: string[]; signal?: CancellationToken}): Promise<LinkType[]> {
+        return Promise.resolve().then(() => {
+            const ids = values('type', params.linkTypeIds.map(iri));
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?type ?label ?instcount
+                WHERE {
+                    ${ids}
+                    ${this.labelPattern('?type', '?label')}
+                    BIND("" as ?instcount)      
+                }
+            `;
+            return executeSparqlQuery<LinkTypeInfoBinding>(
+                this.options, query.text, params.signal).then(response => getLinkTypesInfo(response, this.prefixes));
+        });
     }
 
-    linkTypes(): Promise<LinkType[]> {
-        const query = DEFAULT_PREFIX + `
+    linkTypes(params: { signal?: CancellationToken; } = {}): Promise<LinkType[]> {
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?link ?instcount ?label
             WHERE {
                 {{
@@ -151,34 +263,45 @@ export class SparqlDataProvider implements DataProvider {
                 }} UNION {
                     ?link a owl:ObjectProperty
                 }
-                OPTIONAL {?link rdfs:label ?label}
+                OPTIONAL { ${this.labelPattern('?link', '?label')} }
             }
         `;
         return executeSparqlQuery<LinkTypeBinding>(
-            this.options.endpointUrl, query).then(getLinkTypes);
+            this.options, query.text, params.signal).then(response => getLinkTypes(response, this.prefixes));
     }
 
-    elementInfo(params: { elementIds: string[]; }): Promise<Dictionary<ElementModel>> {
-        const ids: string = params.elementIds.map(escapeIri).join(', ');
-        const query = DEFAULT_PREFIX + `
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        return this.executeInBatches(params.elementIds, batch => this.elementInfoBatch(batch, params.signal))
+            .then(mergeDictionaries)
+            .then(elementsInfo => {
+                if (this.options.prepareImages) {
+                    return this.prepareElementsImage(elementsInfo);
+                } else {
+                    return elementsInfo;
+                }
+            });
+    }
+
+    private elementInfoBatch(elementIds: string[], signal?: CancellationToken): Promise<Dictionary<ElementModel>> {
+        const ids = join(elementIds.map(iri));
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?inst ?class ?label ?propType ?propValue
             WHERE {{
                 FILTER (?inst IN (${ids}))
                 OPTIONAL {?inst rdf:type ?class . }
-                OPTIONAL {?inst rdfs:label ?label}
+                OPTIONAL { ${this.labelPattern('?inst', '?label')} }
             } UNION {
                 FILTER (?inst IN (${ids}))
                 OPTIONAL {?inst ?propType ?propValue.
-                FILTER (isLiteral(?propValue)) }
+                FILTER (isLiteral(?propValue) || (isIRI(?propValue) && ?propType != rdf:type)) }
             }}
         `;
-        return executeSparqlQuery<ElementBinding>(this.options.endpointUrl, query)
-            .then(elementsInfo => getElementsInfo(elementsInfo, params.elementIds))
+        return executeSparqlQuery<ElementBinding>(this.options, query.text, signal)
+            .then(elementsInfo => getElementsInfo(elementsInfo, elementIds, this.prefixes))
             .then(elementsInfo => {
-                if (this.options.prepareImages) {
-                    return this.prepareElementsImage(elementsInfo);
-                } else if (this.options.imageClassUris && this.options.imageClassUris.length) {
-                    return this.enrichedElementsInfo(elementsInfo, this.options.imageClassUris);
+                const {prepareImages, imageClassUris} = this.options;
+                if (!prepareImages && imageClassUris && imageClassUris.length) {
+                    return this.enrichedElementsInfo(elementsInfo, imageClassUris, signal);
                 } else {
                     return elementsInfo;
                 }
@@ -187,12 +310,13 @@ export class SparqlDataProvider implements DataProvider {
 
     private enrichedElementsInfo(
         elementsInfo: Dictionary<ElementModel>,
-        types: string[]
+        types: string[],
+        signal?: CancellationToken,
     ): Promise<Dictionary<ElementModel>> {
-        const ids = Object.keys(elementsInfo).map(escapeIri).join(', ');
-        const typesString = types.map(escapeIri).join(', ');
+        const ids = join(Object.keys(elementsInfo).map(iri));
+        const typesString = join(types.map(iri));
 
-        const query = DEFAULT_PREFIX + `
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?inst ?linkType ?image
             WHERE {{
                 FILTER (?inst IN (${ids}))
@@ -200,8 +324,9 @@ export class SparqlDataProvider implements DataProvider {
                 ?inst ?linkType ?image
             }}
         `;
-        return executeSparqlQuery<ElementImageBinding>(this.options.endpointUrl, query)
+        return executeSparqlQuery<ElementImageBinding>(this.options, query.text, signal)
             .then(imageResponce => getEnrichedElementsInfo(imageResponce, elementsInfo)).catch((err) => {
+                if (isCancelledError(err)) { return Promise.reject(err); }
                 console.log(err);
                 return elementsInfo;
             });
@@ -223,39 +348,204 @@ export class SparqlDataProvider implements DataProvider {
     linksInfo(params: {
         elementIds: string[];
         linkTypeIds: string[];
+        signal?: CancellationToken;
     }): Promise<LinkModel[]> {
         // Get links between objects on papers
-        const ids = params.elementIds.map(escapeIri).join(', ');
-        const types = params.linkTypeIds.map(escapeIri).join(', ');
-        const query = DEFAULT_PREFIX + `
+        if (params.linkTypeIds.length === 0) {
+            return Promise.resolve([]);
+        }
+        // batch sources only, every batch restricts targets to all diagram elements
+        return Promise.resolve().then(() => {
+            const targets = join(params.elementIds.map(iri));
+            return this.executeInBatches(params.elementIds,
+                sources => this.linksInfoBatch(sources, targets, params.linkTypeIds, params.signal));
+        }).then(batches => {
+            const links: LinkModel[] = [];
+            for (const batch of batches) {
+                links.push(...batch);
+            }
+            return links;
+        });
+    }
+
+    /**
+     * Requests links of specified types from a batch of source elements to any of target elements.
+     */
+    private linksInfoBatch(
+        sourceIds: string[],
+        targets: SparqlFragment,
+        linkTypeIds: string[],
+        signal?: CancellationToken,
+    ): Promise<LinkModel[]> {
+        const sources = values('source', sourceIds.map(iri));
+        const types = values('type', linkTypeIds.map(iri));
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?source ?type ?target
             WHERE {
+                ${sources}
+                ${types}
                 ?source ?type ?target.
-                FILTER (?source in (${ids}))
-                FILTER (?target in (${ids}))
-                FILTER (?type in (${types}))
+                FILTER (?target IN (${targets}))
             }
         `;
         return executeSparqlQuery<LinkBinding>(
-            this.options.endpointUrl, query).then(getLinksInfo);
+            this.options, query.text, signal).then(getLinksInfo);
     }
 
-    linkTypesOf(params: { elementId: string; }): Promise<LinkCount[]> {
-        const query = DEFAULT_PREFIX + `
-            SELECT ?link (count(?link) as ?instcount)
-            WHERE {{
-                ${escapeIri(params.elementId)} ?link ?obj.
-                FILTER (IsIRI(?obj)) 
-            } UNION {
-                [] ?link ${escapeIri(params.elementId)}.
-            }} GROUP BY ?link
-        `;
+    private labelPredicates(): string[] {
+        const {labelPredicates} = this.options;
+        return labelPredicates && labelPredicates.length > 0 ? labelPredicates : DEFAULT_LABEL_PREDICATES;
+    }
+
+    private labelPattern(subject: string, label: string): SparqlFragment {
+        return sparqlLabelPattern(subject, label, this.labelPredicates());
+    }
+
+    private prefixDeclarations(): SparqlFragment {
+        return prefixes({...this.prefixes.getPrefixes(), ...QUERY_PREFIXES});
+    }
+
+    /**
+     * Splits items into batches of `batchSize` and runs at most
+     * `maxParallelRequests` batch requests at the same time.
+     */
+    private executeInBatches<T, R>(items: T[], request: (batch: T[]) => Promise<R>): Promise<R[]> {
+        return this.executeBatches(this.splitIntoBatches(items), request);
+    }
+
+    private splitIntoBatches<T>(items: T[]): T[][] {
+        const {batchSize = DEFAULT_BATCH_SIZE} = this.options;
+        const batches: T[][] = [];
+        for (let i = 0; i < items.length; i += batchSize) {
+            batches.push(items.slice(i, i + batchSize));
+        }
+        return batches;
+    }
+
+    /** Runs at most `maxParallelRequests` batch requests at the same time. */
+    private executeBatches<B, R>(batches: B[], request: (batch: B) => Promise<R>): Promise<R[]> {
+        const {maxParallelRequests = DEFAULT_MAX_PARALLEL_REQUESTS} = this.options;
+        const results: R[] = new Array(batches.length);
+        let nextBatch = 0;
+        let failed = false;
+        const runNext = (): Promise<void> => {
+            if (failed || nextBatch >= batches.length) {
+                return Promise.resolve();
+            }
+            const index = nextBatch++;
+            // build batch query inside promise chain to reject on invalid IRIs instead of throwing
+            return Promise.resolve().then(() => request(batches[index])).then(result => {
+                results[index] = result;
+                return runNext();
+            }, error => {
+                failed = true;
+                return Promise.reject(error);
+            });
+        };
+
+        const workers: Promise<void>[] = [];
+        for (let i = 0; i < Math.min(maxParallelRequests, batches.length); i++) {
+            workers.push(runNext());
+        }
+        return Promise.all(workers).then(() => results);
+    }
 
-        return executeSparqlQuery<LinkTypeBinding>(this.options.endpointUrl, query).then(getLinksTypesOf);
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        return Promise.resolve().then(() => {
+            const elementIri = iri(params.elementId);
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?link (count(?link) as ?instcount)
+                WHERE {{
+                    ${elementIri} ?link ?obj.
+                    FILTER (IsIRI(?obj)) 
+                } UNION {
+                    [] ?link ${elementIri}.
+                }} GROUP BY ?link
+            `;
+
+            return executeSparqlQuery<LinkTypeBinding>(this.options, query.text, params.signal)
+                .then(response => getLinksTypesOf(response, this.prefixes));
+        });
     };
 
-    propertyCountOfClasses(): Promise<PropertyCount[]> {
-        const query = DEFAULT_PREFIX + `
+    classAxioms(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassAxiom[]> {
+        return this.executeInBatches(params.classIds, batch => {
+            const classes = values('class', batch.map(iri));
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?class ?predicate ?target ?operator ?onProperty ?operand
+                WHERE {
+                    ${classes}
+                    {
+                        VALUES ?predicate { owl:equivalentClass owl:disjointWith }
+                        ?class ?predicate ?target.
+                        FILTER (IsIRI(?target))
+                    } UNION {
+                        VALUES ?predicate { owl:equivalentClass rdfs:subClassOf }
+                        VALUES ?operator { owl:unionOf owl:intersectionOf }
+                        ?class ?predicate ?target.
+                        ?target ?operator ?list.
+                        ?list rdf:rest*/rdf:first ?operand.
+                        FILTER (IsBlank(?target) && IsIRI(?operand))
+                    } UNION {
+                        VALUES ?predicate { owl:equivalentClass rdfs:subClassOf }
+                        VALUES ?operator { owl:someValuesFrom owl:allValuesFrom }
+                        ?class ?predicate ?target.
+                        ?target owl:onProperty ?onProperty; ?operator ?operand.
+                        FILTER (IsBlank(?target) && IsIRI(?operand))
+                    }
+                }
+            `;
+            return executeSparqlQuery<ClassAxiomBinding>(
+                this.options, query.text, params.signal).then(getClassAxioms);
+        }).then(batches => {
+            const axioms: ClassAxiom[] = [];
+            for (const batch of batches) {
+                axioms.push(...batch);
+            }
+            return axioms;
+        });
+    }
+
+    propertySignatures(params: { signal?: CancellationToken; } = {}): Promise<PropertySignature[]> {
+        const property = sparql`
+            VALUES ?propertyType { owl:ObjectProperty rdf:Property }
+            ?property a ?propertyType.
+        `;
+        const query = sparql`${this.prefixDeclarations()}
+            SELECT ?property ?label ?domain ?range ?superProperty ?restrictedClass ?cardinalityKind ?cardinality
+            WHERE {
+                {
+                    ${property}
+                    OPTIONAL { ${this.labelPattern('?property', '?label')} }
+                } UNION {
+                    ${property}
+                    ?property rdfs:domain ?domain.
+                    FILTER (IsIRI(?domain))
+                } UNION {
+                    ${property}
+                    ?property rdfs:range ?range.
+                    FILTER (IsIRI(?range))
+                } UNION {
+                    ${property}
+                    ?property rdfs:subPropertyOf ?superProperty.
+                    FILTER (IsIRI(?superProperty) && ?superProperty != ?property)
+                } UNION {
+                    VALUES ?cardinalityKind {
+                        owl:cardinality owl:minCardinality owl:maxCardinality
+                        owl:qualifiedCardinality owl:minQualifiedCardinality owl:maxQualifiedCardinality
+                    }
+                    ?restrictedClass rdfs:subClassOf ?restriction.
+                    ?restriction owl:onProperty ?property; ?cardinalityKind ?cardinality.
+                    FILTER (IsIRI(?restrictedClass) && IsIRI(?property))
+                }
+            }
+        `;
+        return executeSparqlQuery<PropertySignatureBinding>(
+            this.options, query.text, params.signal).then(response => getPropertySignatures(response, this.prefixes));
+    }
+
+    propertyCountOfClasses(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?id (count(?property) as ?count)
             WHERE {
               ?id a owl:Class.
@@ -265,11 +555,11 @@ export class SparqlDataProvider implements DataProvider {
             } GROUP BY ?id
         `;
         return executeSparqlQuery<PropertyCountBinding>(
-            this.options.endpointUrl, query).then(getPropertyCountOfConcepts);
+            this.options, query.text, params.signal).then(getPropertyCountOfConcepts);
     }
 
-    propertyCountOfIndividuals(): Promise<PropertyCount[]> {
-        const query = DEFAULT_PREFIX + `
+    propertyCountOfIndividuals(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        const query = sparql`${this.prefixDeclarations()}
             SELECT ?id (count(?property) as ?count)
             WHERE {
               ?id a owl:NamedIndividual.
@@ -279,96 +569,140 @@ export class SparqlDataProvider implements DataProvider {
             } GROUP BY ?id
         `;
         return executeSparqlQuery<PropertyCountBinding>(
-            this.options.endpointUrl, query).then(getPropertyCountOfConcepts);
+            this.options, query.text, params.signal).then(getPropertyCountOfConcepts);
     }
 
     filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
-        if (params.limit === 0) { params.limit = 100; }
-
-        let refQueryPart = '';
-        if (params.refElementId && params.refElementLinkId) {
-            refQueryPart =  `{
-                ${escapeIri(params.refElementId)} ${escapeIri(params.refElementLinkId)} ?inst .
-                } UNION {
-                    ?inst ${escapeIri(params.refElementLinkId)} ${escapeIri(params.refElementId)} .
-                }`;
-        }
+        return Promise.resolve().then(() => {
+            if (params.limit === 0) { params.limit = 100; }
 
-        if (params.refElementId && !params.refElementLinkId) {
-            refQueryPart = `{
-                ${escapeIri(params.refElementId)} ?p ?inst .
-                } UNION {
-                    ?inst ?p ${escapeIri(params.refElementId)} .
-                }`;
-        }
+            let refQueryPart = sparql``;
+            if (params.refElementId && params.refElementLinkId) {
+                const refElement = iri(params.refElementId);
+                const refElementLink = iri(params.refElementLinkId);
+                refQueryPart = sparql`{
+                    ${refElement} ${refElementLink} ?inst .
+                    } UNION {
+                        ?inst ${refElementLink} ${refElement} .
+                    }`;
+            }
 
-        if (!params.refElementId && params.refElementLinkId) {
-            throw new Error(`Can't execute refElementLink filter without refElement`);
-        }
+            if (params.refElementId && !params.refElementLinkId) {
+                const refElement = iri(params.refElementId);
+                refQueryPart = sparql`{
+                    ${refElement} ?p ?inst .
+                    } UNION {
+                        ?inst ?p ${refElement} .
+                    }`;
+            }
 
-        const elementTypePart = params.elementTypeId
-            ? `?inst rdf:type ${escapeIri(params.elementTypeId)} . ${'\n'}` : '';
-        const textSearchPart = params.text ? (
-            ' OPTIONAL {?inst rdfs:label ?search1} \n' +
-            ' FILTER regex(COALESCE(str(?search1), str(?extractedLabel)), "' + params.text + '", "i")\n') : '';
-        let query = DEFAULT_PREFIX + `
-            SELECT ?inst ?class ?label
-            WHERE {
-                {
-                    SELECT distinct ?inst WHERE {
-                        ${elementTypePart}
-                        ${refQueryPart}
-                        ${textSearchPart}
-                    } ORDER BY ?sortLabel LIMIT ${params.limit} OFFSET ${params.offset}
-                }
-                OPTIONAL {?inst rdf:type ?foundClass}
-                BIND (coalesce(?foundClass, owl:Thing) as ?class)
-                OPTIONAL {?inst rdfs:label ?label}
-                OPTIONAL {?inst rdfs:label ?label1. 
-                    FILTER (langmatches(lang(?label1), "` + params.languageCode + `"))}
-                OPTIONAL {?inst rdfs:label ?label2. 
-                    FILTER (langmatches(lang(?label2), ""))}
-                    ${sparqlExtractLabel('?inst', '?extractedLabel')}
-                BIND (coalesce (?label1, ?label2, ?extractedLabel) as ?sortLabel)
+            if (!params.refElementId && params.refElementLinkId) {
+                throw new Error(`Can't execute refElementLink filter without refElement`);
             }
-        `;
-        return executeSparqlQuery<ElementBinding>(
-            this.options.endpointUrl, query).then(getFilteredData);
+
+            const elementTypePart = params.elementTypeId
+                ? sparql`?inst rdf:type ${iri(params.elementTypeId)} .` : sparql``;
+            const limit = integer(params.limit);
+            const offset = integer(params.offset);
+            const textSearch = this.options.textSearch || RegexTextSearch;
+            // rank matched elements by relevance when searching by text
+            const innerSelect = params.text ? sparql`
+                        SELECT ?inst (MAX(?score) AS ?rank) WHERE {
+                            ${elementTypePart}
+                            ${refQueryPart}
+                            ${textSearch.createPattern(params.text, this.labelPredicates())}
+                        } GROUP BY ?inst ORDER BY DESC(?rank) LIMIT ${limit} OFFSET ${offset}` : sparql`
+                        SELECT distinct ?inst WHERE {
+                            ${elementTypePart}
+                            ${refQueryPart}
+                        } ORDER BY ?sortLabel LIMIT ${limit} OFFSET ${offset}`;
+            const orderByRank = params.text ? sparql`ORDER BY DESC(?rank)` : sparql``;
+            const query = sparql`${this.prefixDeclarations()}
+                SELECT ?inst ?class ?label
+                WHERE {
+                    {${innerSelect}
+                    }
+                    OPTIONAL {?inst rdf:type ?foundClass}
+                    BIND (coalesce(?foundClass, owl:Thing) as ?class)
+                    OPTIONAL { ${this.labelPattern('?inst', '?label')} }
+                    OPTIONAL { ${this.labelPattern('?inst', '?label1')}
+                        FILTER (langmatches(lang(?label1), ${literal(params.languageCode)}))}
+                    OPTIONAL { ${this.labelPattern('?inst', '?label2')}
+                        FILTER (langmatches(lang(?label2), ""))}
+                        ${sparqlExtractLabel('?inst', '?extractedLabel')}
+                    BIND (coalesce (?label1, ?label2, ?extractedLabel) as ?sortLabel)
+                } ${orderByRank}
+            `;
+            return executeSparqlQuery<ElementBinding>(
+                this.options, query.text, params.signal).then(response => getFilteredData(response, this.prefixes));
+        });
     };
 };
 
-function escapeIri(iri: string) {
-    return `<${iri}>`;
+function mergeDictionaries<T>(dictionaries: Dictionary<T>[]): Dictionary<T> {
+    const result: Dictionary<T> = {};
+    for (const dictionary of dictionaries) {
+        for (const key in dictionary) {
+            if (dictionary.hasOwnProperty(key)) {
+                result[key] = dictionary[key];
+            }
+        }
+    }
+    return result;
 }
 
-export function sparqlExtractLabel(subject: string, label: string): string {
-    return  `
-        BIND ( str( ${subject} ) as ?uriStr)
+/**
+ * Binds labels of `subject` to `label` variable using label predicates in priority order:
+ * label of each predicate is skipped if there is a label with the same language
+ * for any of the preceding predicates.
+ *
+ * @param subject - variable name, e.g. '?inst'
+ * @param label - variable name, e.g. '?label'
+ */
+export function sparqlLabelPattern(subject: string, label: string, labelPredicates: string[]): SparqlFragment {
+    const subjectVariable = variable(subject.replace(/^\?/, ''));
+    const labelName = label.replace(/^\?/, '');
+    const labelVariable = variable(labelName);
+    const higherLabelVariable = variable(labelName + 'HigherPriority');
+    const predicates = labelPredicates.map(iri);
+    if (predicates.length === 1) {
+        return sparql`${subjectVariable} ${predicates[0]} ${labelVariable} .`;
+    }
+    const alternatives = predicates.map((predicate, index) => {
+        if (index === 0) {
+            return sparql`{ ${subjectVariable} ${predicate} ${labelVariable} . }`;
+        }
+        const higherPredicates = join(predicates.slice(0, index), '|');
+        return sparql`{
+            ${subjectVariable} ${predicate} ${labelVariable} .
+            FILTER NOT EXISTS {
+                ${subjectVariable} ${higherPredicates} ${higherLabelVariable} .
+                FILTER (lang(${higherLabelVariable}) = lang(${labelVariable}))
+            }
+        }`;
+    });
+    return join(alternatives, ' UNION ');
+}
+
+/**
+ * Binds local name extracted from IRI in `subject` variable to `label` variable.
+ *
+ * @param subject - variable name, e.g. '?inst'
+ * @param label - variable name, e.g. '?label'
+ */
+export function sparqlExtractLabel(subject: string, label: string): SparqlFragment {
+    const subjectVariable = variable(subject.replace(/^\?/, ''));
+    const labelVariable = variable(label.replace(/^\?/, ''));
+    return sparql`
+        BIND ( str( ${subjectVariable} ) as ?uriStr)
         BIND ( strafter(?uriStr, "#") as ?label3)
         BIND ( strafter(strafter(?uriStr, "//"), "/") as ?label6) 
         BIND ( strafter(?label6, "/") as ?label5)   
         BIND ( strafter(?label5, "/") as ?label4)   
         BIND (if (?label3 != "", ?label3, 
             if (?label4 != "", ?label4, 
-            if (?label5 != "", ?label5, ?label6))) as ${label})
+            if (?label5 != "", ?label5, ?label6))) as ${labelVariable})
     `;
 };
 
-export function executeSparqlQuery<Binding>(endpoint: string, query: string) {
-    return new Promise<SparqlResponse<Binding>>((resolve, reject) => {
-        $.ajax({
-            type: 'POST',
-            url: endpoint,
-            contentType: 'application/sparql-query',
-            headers: {
-                "Accept": 'application/sparql-results+json',
-                "Authorization": "Basic " + btoa(Config.USERNAME + ":" + Config.PASSWORD)
-            },
-            data: query,
-            success: result => resolve(result),
-            error: (jqXHR, statusText, error) => reject(error || jqXHR),
-        });
-    });
-}
-
 export default SparqlDataProvider;
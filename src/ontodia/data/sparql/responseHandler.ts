@@ -1,11 +1,14 @@
 import {each} from 'lodash';
 import {
-    RdfLiteral, SparqlResponse, ClassBinding, ElementBinding, LinkBinding,
+    RdfNode, RdfLiteral, SparqlResponse, ClassBinding, ElementBinding, LinkBinding,
     ElementImageBinding, LinkTypeBinding, LinkTypeInfoBinding, PropertyBinding, ConceptBinding, PropertyCountBinding,
+    ClassAxiomBinding, PropertySignatureBinding, PropertyConceptBinding,
 } from './sparqlModels';
 import {
-    Dictionary, LocalizedString, LinkType, ClassModel, ElementModel, LinkModel, Property, PropertyModel, ConceptModel, PropertyCount
+    Dictionary, LocalizedString, LinkType, ClassModel, ElementModel, LinkModel, Property, PropertyModel, ConceptModel,
+    PropertyCount, PropertyValue, ClassAxiom, PropertySignature,
 } from '../model';
+import { PrefixRegistry, defaultPrefixRegistry, getLocalName } from '../prefixRegistry';
 import union = require("lodash/union");
 
 const THING_URI = 'http://www.w3.org/2002/07/owl#Thing';
@@ -24,6 +27,9 @@ const ALL_DISJOINT_CLASSES_URI = "http://www.w3.org/2002/07/owl#AllDisjointClass
 const ALL_DIFFERENT_URI = "http://www.w3.org/2002/07/owl#AllDifferent";
 const RESTRICTION_URI = "http://www.w3.org/2002/07/owl#Restriction";
 const ONTOLOGY_URI = "http://www.w3.org/2002/07/owl#Ontology";
+const TOP_OBJECT_PROPERTY_URI = 'http://www.w3.org/2002/07/owl#topObjectProperty';
+const TOP_DATA_PROPERTY_URI = 'http://www.w3.org/2002/07/owl#topDataProperty';
+const RDF_PROPERTY_URI = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#Property';
 
 const PRIMITIVE_TYPE = [THING_URI, LABEL_URI, NAME_INDIVIDUAL_URI, CLASS_URI,
     DATA_TYPE_PROPERTY_URI, FUNCTIONAL_PROPERTY_URI, OBJECT_PROPERTY_URI,
@@ -31,74 +37,119 @@ const PRIMITIVE_TYPE = [THING_URI, LABEL_URI, NAME_INDIVIDUAL_URI, CLASS_URI,
     DISJOINT_CLASSES_URI, ALL_DIFFERENT_URI, ONTOLOGY_URI, RESTRICTION_URI,
     INVERSE_FUNCTIONAL_PROPERTY_URI, ALL_DISJOINT_CLASSES_URI];
 
-export function getClassTree(response: SparqlResponse<ClassBinding>): [ClassModel[], ConceptModel] {
+export function getClassTree(
+    response: SparqlResponse<ClassBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): [ClassModel[], ConceptModel] {
     const sNodes = response.results.bindings;
-    const tree: ClassModel[] = [];
     const createdTreeNodes: Dictionary<ClassModel> = {};
-    const tempNodes: Dictionary<ClassModel> = {};
+    // classes which were created from bindings of their own,
+    // the rest are only referenced as parents (so far)
+    const declaredNodes: Dictionary<boolean> = {};
 
     for (const sNode of sNodes) {
         const sNodeId: string = sNode.class.value;
-        if (createdTreeNodes[sNodeId]) {
+        let node = createdTreeNodes[sNodeId];
+        if (!node) {
+            node = createdTreeNodes[sNodeId] = getClassModel({class: sNode.class}, prefixes);
+        }
+        if (!declaredNodes[sNodeId]) {
+            declaredNodes[sNodeId] = true;
+            node.label = { values: [getLocalizedString(sNode.label, sNodeId, prefixes)] };
+            node.count = getInstCount(sNode.instcount);
+        } else {
+            // class has more than one row: either because of multiple labels or multiple parents
             if (sNode.label) {
-                const label = createdTreeNodes[sNodeId].label;
-                if (label.values.length === 1 && !label.values[0].lang) {
-                    label.values = [];
+                const label = node.label;
+                const newLabel = getLocalizedString(sNode.label);
+                if (!label.values.some(value => isLocalizedEqual(value, newLabel))) {
+                    if (label.values.length === 1 && !label.values[0].lang) {
+                        label.values = [];
+                    }
+                    label.values.push(newLabel);
                 }
-                label.values.push(getLocalizedString(sNode.label));
             }
-            if (sNode.instcount && createdTreeNodes[sNodeId].count === 0) {
-                createdTreeNodes[sNodeId].count = getInstCount(sNode.instcount);
+            if (sNode.instcount && node.count === 0) {
+                node.count = getInstCount(sNode.instcount);
             }
-        } else {
-            let newNode = getClassModel(sNode);
-            createdTreeNodes[sNodeId] = newNode;
-            if (sNode.parent) {
-                // Put parent to tempNodes if it doesn't present in tempNodes
-                newNode.parent = sNode.parent.value;
-
-                const sParentNodeId: string = sNode.parent.value;
-                let parentNode: ClassModel;
-
-                // if we put the parent node in first time we create it, 
-                // then we miss the count value
-                // That's why we put the temp parent node in another list in first time
-                if (!createdTreeNodes[sParentNodeId]) {
-                    if (!tempNodes[sParentNodeId]) {
-                        parentNode = getClassModel({ class: sNode.parent });
-                    } else {
-                        parentNode = tempNodes[sParentNodeId];
-                    }
-                    tempNodes[sParentNodeId]  = parentNode;
-                } else {
-                    parentNode = createdTreeNodes[sParentNodeId];
-                }
+        }
 
-                parentNode.children.push(newNode);
-                parentNode.count += newNode.count;
-            } else {
-                tree.push(newNode);
-                if (tempNodes[sNodeId]) {
-                    newNode.count += tempNodes[sNodeId].count;
-                    newNode.children = tempNodes[sNodeId].children;
-                }
+        if (sNode.parent && sNode.parent.value !== sNodeId && node.parents.indexOf(sNode.parent.value) < 0) {
+            const sParentNodeId: string = sNode.parent.value;
+            let parentNode = createdTreeNodes[sParentNodeId];
+            if (!parentNode) {
+                parentNode = createdTreeNodes[sParentNodeId] = getClassModel({class: sNode.parent});
             }
+            node.parents.push(sParentNodeId);
+            parentNode.children.push(node);
         }
     }
 
-    each(tempNodes, tempNode => {
-        let createdNode = createdTreeNodes[tempNode.id];
-        if(!createdNode) {
-            tree.push(tempNode);
-        } else {
-            each(tempNode.children, childOfTemp => {
-                if(createdNode.children.indexOf(childOfTemp) < 0) {
-                    createdNode.children.push(childOfTemp);
-                }
-            });
+    removeSubClassCycles(createdTreeNodes);
+    const tree: ClassModel[] = [];
+    const ownCounts: Dictionary<number> = {};
+    each(createdTreeNodes, node => {
+        if (node.parents.length === 0) {
+            tree.push(node);
         }
+        ownCounts[node.id] = node.count;
     });
 
+    // count of class includes instances of every its subclass once,
+    // even if the subclass is reachable through several parents
+    each(createdTreeNodes, node => {
+        const visited: Dictionary<boolean> = {[node.id]: true};
+        const addDescendants = (classModel: ClassModel) => {
+            for (const child of classModel.children) {
+                if (visited[child.id]) { continue; }
+                visited[child.id] = true;
+                node.count += ownCounts[child.id];
+                addDescendants(child);
+            }
+        };
+        addDescendants(node);
+    });
+
+    return completeClassTree(tree, createdTreeNodes[THING_URI]);
+}
+
+/**
+ * Detaches subclasses which are also ancestors of their parent class,
+ * so the class hierarchy becomes a directed acyclic graph.
+ */
+function removeSubClassCycles(nodes: Dictionary<ClassModel>) {
+    const inProgress: Dictionary<boolean> = {};
+    const done: Dictionary<boolean> = {};
+    const visit = (node: ClassModel) => {
+        inProgress[node.id] = true;
+        for (const child of [...node.children]) {
+            if (inProgress[child.id]) {
+                node.children.splice(node.children.indexOf(child), 1);
+                child.parents.splice(child.parents.indexOf(node.id), 1);
+            } else if (!done[child.id]) {
+                visit(child);
+            }
+        }
+        inProgress[node.id] = false;
+        done[node.id] = true;
+    };
+    // start from roots to break cycles as far from them as possible
+    const ids = Object.keys(nodes);
+    for (const id of ids.filter(nodeId => nodes[nodeId].parents.length === 0)) {
+        visit(nodes[id]);
+    }
+    for (const id of ids) {
+        if (!done[id]) { visit(nodes[id]); }
+    }
+}
+
+/**
+ * Puts root classes under owl:Thing if there is more than one root
+ * and builds concept tree from the class tree.
+ *
+ * @param tree - root classes
+ * @param thingNode - owl:Thing class node if it is present in the tree
+ */
+export function completeClassTree(tree: ClassModel[], thingNode?: ClassModel): [ClassModel[], ConceptModel] {
     let pureClassTree: ClassModel[] = [];
     each(tree, classModel => {
         if(PRIMITIVE_TYPE.indexOf(classModel.id) < 0) {
@@ -106,14 +157,13 @@ export function getClassTree(response: SparqlResponse<ClassBinding>): [ClassMode
         }
     });
 
-    let thingNode = createdTreeNodes[THING_URI];
     if (!thingNode) {
         thingNode = {
             id: THING_URI,
             children: [] as ClassModel[],
             label: { values: [getLocalizedString(undefined, THING_URI)] },
             count: 0,
-            parent: undefined,
+            parents: [],
         };
         tree.push(thingNode);
     }
@@ -121,8 +171,10 @@ export function getClassTree(response: SparqlResponse<ClassBinding>): [ClassMode
     let rootClass: ClassModel;
     if(pureClassTree.length > 1) {
         pureClassTree.forEach(function(element) {
-            element.parent = THING_URI;
-            thingNode.children.push(element);
+            if (element.parents.indexOf(THING_URI) < 0) {
+                element.parents.push(THING_URI);
+                thingNode.children.push(element);
+            }
         });
         rootClass = thingNode;
     } else {
@@ -136,76 +188,57 @@ export function getClassTree(response: SparqlResponse<ClassBinding>): [ClassMode
     return [tree, rootConcept];
 }
 /**
- * Build concept tree from class tree
+ * Build concept tree from class tree, a class with several parents
+ * becomes a single concept with all of them in `parent`
  * @param rootClass
  * @returns {ConceptModel} - root concept
  */
 function getConceptTree(rootClass: ClassModel): ConceptModel {
-    // Create root concept
-    let rootConcept: ConceptModel = getConceptFromClassModel(rootClass);
-
-    let addConcept = (classModel: ClassModel, conceptModel: ConceptModel) => {
+    const conceptsById: Dictionary<ConceptModel> = {};
+    const rootConcept = conceptsById[rootClass.id] = getConceptFromClassModel(rootClass);
+
+    // explicit stack instead of recursion to support deep class hierarchies
+    const stack: ClassModel[] = [rootClass];
+    while (stack.length > 0) {
+        const classModel = stack.pop();
+        const concept = conceptsById[classModel.id];
         each(classModel.children, childClass => {
-            if(PRIMITIVE_TYPE.indexOf(childClass.id) < 0) {
-                let childConcept: ConceptModel = getConceptFromClassModel(childClass);
-                conceptModel.children.push(childConcept);
-                childConcept.parent.push(conceptModel);
-                addConcept(childClass, childConcept);
+            if (PRIMITIVE_TYPE.indexOf(childClass.id) >= 0) { return; }
+            let childConcept = conceptsById[childClass.id];
+            if (!childConcept) {
+                childConcept = conceptsById[childClass.id] = getConceptFromClassModel(childClass);
+                stack.push(childClass);
             }
+            concept.children.push(childConcept);
+            childConcept.parent.push(concept);
         });
-    };
-
-    addConcept(rootClass, rootConcept);
-
+    }
     return rootConcept;
 }
 
 /**
- * Update created concept tree with adding covered, direct children, indirect children, super concepts ...
+ * Update created concept tree with levels.
+ *
+ * Concepts may have more than one parent, so level of concept is the length of the shortest path from the root.
+ * Sub, super and covered concepts aren't stored in the tree (see `KeyConceptExtractor`)
+ * because they take quadratic memory for large ontologies.
  *
  * @param rootConcept
  */
 function updateConceptTree(rootConcept: ConceptModel) {
-    let conceptsById: Dictionary<ConceptModel> = {};
-    const addSubConcept = (concept: ConceptModel, level: number) => {
-        concept.level = level;
-
-        // Update dictionary conceptsById
-        conceptsById[concept.id] = concept;
-
-        concept.allSubConcepts = concept.allSubConcepts.concat(concept.children);
-
-        if(concept.children.length > 0) {
-            let childLevel = level + 1;
-            each(concept.children, child => {
-                addSubConcept(child, childLevel);
-                concept.allSubConcepts = concept.allSubConcepts.concat(child.allSubConcepts);
-                concept.indirectSubConcepts = concept.indirectSubConcepts.concat(child.allSubConcepts);
-            });
-        }
-    };
-
-    addSubConcept(rootConcept, 1);
-
-    let addSuperConcepts = (concept: ConceptModel)  => {
-        // Add super concepts
-        each(concept.parent, parent => {
-            concept.allSuperConcepts.push(parent);
-            concept.allSuperConcepts = concept.allSuperConcepts.concat(parent.allSuperConcepts);
-        });
-
-        // Update covered
-        concept.covered = union(concept.allSuperConcepts, concept.allSubConcepts, [concept]);
-
+    rootConcept.level = 1;
+    const queue: ConceptModel[] = [rootConcept];
+    const leveled: Dictionary<boolean> = {[rootConcept.id]: true};
+    for (let i = 0; i < queue.length; i++) {
+        const concept = queue[i];
         each(concept.children, child => {
-            addSuperConcepts(child);
+            if (!leveled[child.id]) {
+                leveled[child.id] = true;
+                child.level = concept.level + 1;
+                queue.push(child);
+            }
         });
-    };
-
-    // Add super concept each concept in tree, then update covered
-    // This will take into account situation when concept has more than one super concepts
-    addSuperConcepts(rootConcept);
-
+    }
 }
 
 function getConceptFromClassModel(classModel: ClassModel): ConceptModel {
@@ -226,16 +259,52 @@ function getConceptFromClassModel(classModel: ClassModel): ConceptModel {
         propertyCount: 0,
         score: 0,
         overallScore: 0,
-        covered: [] as ConceptModel[],
-        allSuperConcepts: [] as ConceptModel[],
-        allSubConcepts: [] as ConceptModel[],
-        indirectSubConcepts: [] as ConceptModel[],
         subKeyConcepts: [] as ConceptModel[],
         presentOnDiagram: false,
     };
     return concept;
 }
 
+/**
+ * Builds concept tree of property hierarchies the same way as class tree: properties without
+ * super properties are put under owl:topObjectProperty or owl:topDataProperty and both of them
+ * under rdf:Property root, so usage count of property includes usages of its sub properties.
+ */
+export function getPropertyConceptsTree(
+    response: SparqlResponse<PropertyConceptBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): ConceptModel {
+    // top property of each property by its kind; object kind wins if property has both types
+    const topOf: Dictionary<string> = {};
+    for (const {property, type} of response.results.bindings) {
+        if (topOf[property.value] !== TOP_OBJECT_PROPERTY_URI) {
+            const isDatatype = type.value === DATA_TYPE_PROPERTY_URI;
+            topOf[property.value] = isDatatype ? TOP_DATA_PROPERTY_URI : TOP_OBJECT_PROPERTY_URI;
+        }
+    }
+    if (Object.keys(topOf).length === 0) {
+        return undefined;
+    }
+
+    const bindings: ClassBinding[] = [];
+    const usedTops: Dictionary<boolean> = {};
+    for (const {property, label, superProperty, usage} of response.results.bindings) {
+        const top = topOf[property.value];
+        usedTops[top] = true;
+        bindings.push({class: property, label, instcount: usage, parent: superProperty || {type: 'uri', value: top}});
+        if (superProperty && !topOf[superProperty.value]) {
+            // super property isn't declared as object or datatype one, so it inherits kind of sub property
+            topOf[superProperty.value] = top;
+            bindings.push({class: superProperty, parent: {type: 'uri', value: top}});
+        }
+    }
+    for (const top of Object.keys(usedTops)) {
+        bindings.push({class: {type: 'uri', value: top}, parent: {type: 'uri', value: RDF_PROPERTY_URI}});
+    }
+
+    const [, rootConcept] = getClassTree({head: response.head, results: {bindings}}, prefixes);
+    return rootConcept;
+}
+
 export function getInstanceConceptsTree(response: SparqlResponse<ConceptBinding>) : ConceptModel{
     const sNodes = response.results.bindings;
     const createdTreeNodes: Dictionary<ConceptModel> = {};
@@ -274,11 +343,22 @@ export function getInstanceConceptsTree(response: SparqlResponse<ConceptBinding>
         }
     }
 
-    if(Object.keys(createdTreeNodes).length === 0) {
+    return completeConceptTree(createdTreeNodes);
+}
+
+/**
+ * Finds (or creates owl:Thing) root of concepts with filled children and parents
+ * and computes levels of concepts.
+ *
+ * @param conceptsById - concepts without levels
+ * @returns {ConceptModel} - root concept or undefined if there are no concepts
+ */
+export function completeConceptTree(conceptsById: Dictionary<ConceptModel>): ConceptModel {
+    if(Object.keys(conceptsById).length === 0) {
         return undefined;
     }
 
-    let rootConcept = getRootOfConceptsTree(createdTreeNodes);
+    let rootConcept = getRootOfConceptsTree(conceptsById);
 
     updateConceptTree(rootConcept);
 
@@ -337,16 +417,14 @@ function getConceptModel(params: {id: string, label: RdfLiteral}) : ConceptModel
         propertyCount: 0,
         score: 0,
         overallScore: 0,
-        covered: [],
-        allSuperConcepts: [],
-        allSubConcepts: [],
-        indirectSubConcepts: [],
         subKeyConcepts: [],
         presentOnDiagram: false,
     };
 }
 
-export function getClassInfo(response: SparqlResponse<ClassBinding>): ClassModel[] {
+export function getClassInfo(
+    response: SparqlResponse<ClassBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): ClassModel[] {
     const classes: { [id: string]: ClassModel } = {};
     for (const binding of response.results.bindings) {
         if (!binding.class) { continue; }
@@ -361,6 +439,9 @@ export function getClassInfo(response: SparqlResponse<ClassBinding>): ClassModel
             if (!isNaN(instanceCount)) {
                 model.count =  Math.max(model.count, instanceCount);
             }
+            if (binding.parent && model.parents.indexOf(binding.parent.value) < 0) {
+                model.parents.push(binding.parent.value);
+            }
         } else {
             const label = getLocalizedString(binding.label);
             classes[id] = {
@@ -368,7 +449,7 @@ export function getClassInfo(response: SparqlResponse<ClassBinding>): ClassModel
                 children: [] as ClassModel[],
                 label: {values: label ? [label] : []},
                 count: getInstCount(binding.instcount),
-                parent: binding.parent ? binding.parent.value: undefined,
+                parents: binding.parent ? [binding.parent.value] : [],
             };
         }
     }
@@ -378,7 +459,7 @@ export function getClassInfo(response: SparqlResponse<ClassBinding>): ClassModel
         if (!classes.hasOwnProperty(id)) { continue; }
         const model = classes[id];
         if (model.label.values.length === 0) {
-            model.label.values.push(getLocalizedString(undefined, id));
+            model.label.values.push(getLocalizedString(undefined, id, prefixes));
         }
         classesList.push(model);
     }
@@ -386,16 +467,20 @@ export function getClassInfo(response: SparqlResponse<ClassBinding>): ClassModel
     return classesList;
 }
 
-export function getPropertyInfo(response: SparqlResponse<PropertyBinding>): Dictionary<PropertyModel> {
+export function getPropertyInfo(
+    response: SparqlResponse<PropertyBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): Dictionary<PropertyModel> {
     const models: Dictionary<PropertyModel> = {};
     for (const sProp of response.results.bindings) {
-        const model = getPropertyModel(sProp);
+        const model = getPropertyModel(sProp, prefixes);
         models[model.id] = model;
     }
     return models;
 }
 
-export function getLinkTypes(response: SparqlResponse<LinkTypeBinding>): LinkType[] {
+export function getLinkTypes(
+    response: SparqlResponse<LinkTypeBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): LinkType[] {
     const sInst = response.results.bindings;
     const linkTypes: LinkType[] = [];
     const instancesMap: Dictionary<LinkType> = {};
@@ -415,7 +500,7 @@ export function getLinkTypes(response: SparqlResponse<LinkTypeBinding>): LinkTyp
                 instancesMap[sInstTypeId].count = getInstCount(sLink.instcount);
             }
         } else {
-            instancesMap[sInstTypeId] = getLinkType(sLink);
+            instancesMap[sInstTypeId] = getLinkType(sLink, prefixes);
             linkTypes.push(instancesMap[sInstTypeId]);
         }
 
@@ -423,7 +508,9 @@ export function getLinkTypes(response: SparqlResponse<LinkTypeBinding>): LinkTyp
     return linkTypes;
 }
 
-export function getElementsInfo(response: SparqlResponse<ElementBinding>, ids: string[]): Dictionary<ElementModel> {
+export function getElementsInfo(
+    response: SparqlResponse<ElementBinding>, ids: string[], prefixes: PrefixRegistry = defaultPrefixRegistry
+): Dictionary<ElementModel> {
     const sInstances = response.results.bindings;
     const instancesMap: Dictionary<ElementModel> = {};
 
@@ -431,9 +518,9 @@ export function getElementsInfo(response: SparqlResponse<ElementBinding>, ids: s
         let sInstTypeId: string = sInst.inst.value;
 
         if (instancesMap[sInstTypeId]) {
-            enrichElement(instancesMap[sInst.inst.value], sInst);
+            enrichElement(instancesMap[sInst.inst.value], sInst, prefixes);
         } else {
-            instancesMap[sInstTypeId] = getElementInfo(sInst);
+            instancesMap[sInstTypeId] = getElementInfo(sInst, prefixes);
         }
     };
 
@@ -442,7 +529,7 @@ export function getElementsInfo(response: SparqlResponse<ElementBinding>, ids: s
         if (proccesedIds.indexOf(id) === -1) {
             instancesMap[id] = {
                 id: id,
-                label: { values: [getLocalizedString(undefined, id)] },
+                label: { values: [getLocalizedString(undefined, id, prefixes)] },
                 types: [THING_URI],
                 properties: {},
             };
@@ -466,9 +553,11 @@ export function getEnrichedElementsInfo(
     return elementsInfo;
 }
 
-export function getLinkTypesInfo(response: SparqlResponse<LinkTypeInfoBinding>): LinkType[] {
+export function getLinkTypesInfo(
+    response: SparqlResponse<LinkTypeInfoBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): LinkType[] {
     const sparqlLinkTypes = response.results.bindings;
-    return sparqlLinkTypes.map((sLinkType: LinkTypeInfoBinding) => getLinkTypeInfo(sLinkType));
+    return sparqlLinkTypes.map((sLinkType: LinkTypeInfoBinding) => getLinkTypeInfo(sLinkType, prefixes));
 }
 
 export function getLinksInfo(response: SparqlResponse<LinkBinding>): LinkModel[] {
@@ -476,13 +565,129 @@ export function getLinksInfo(response: SparqlResponse<LinkBinding>): LinkModel[]
     return sparqlLinks.map((sLink: LinkBinding) => getLinkInfo(sLink));
 }
 
-export function getLinksTypesOf(response: SparqlResponse<LinkTypeBinding>): LinkType[] {
+/**
+ * Groups operands of anonymous class expressions (blank nodes) into ClassAxiom objects.
+ */
+export function getClassAxioms(response: SparqlResponse<ClassAxiomBinding>): ClassAxiom[] {
+    const axioms: ClassAxiom[] = [];
+    const axiomsByKey: Dictionary<ClassAxiom> = {};
+    for (const binding of response.results.bindings) {
+        const classId = binding.class.value;
+        const predicate = binding.predicate.value;
+        if (binding.target.type === 'uri') {
+            const key = [classId, predicate, binding.target.value].join(' ');
+            if (!axiomsByKey[key]) {
+                axioms.push(axiomsByKey[key] = {classId, predicate, targetId: binding.target.value});
+            }
+        } else if (binding.operator && binding.operand) {
+            const key = [classId, predicate, binding.target.value, binding.operator.value].join(' ');
+            let axiom = axiomsByKey[key];
+            if (!axiom) {
+                axiom = axiomsByKey[key] = {
+                    classId,
+                    predicate,
+                    expression: {
+                        operator: binding.operator.value,
+                        onProperty: binding.onProperty ? binding.onProperty.value : undefined,
+                        operandIds: [],
+                    },
+                };
+                axioms.push(axiom);
+            }
+            if (axiom.expression.operandIds.indexOf(binding.operand.value) < 0) {
+                axiom.expression.operandIds.push(binding.operand.value);
+            }
+        }
+    }
+    return axioms;
+}
+
+export function getPropertySignatures(
+    response: SparqlResponse<PropertySignatureBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): PropertySignature[] {
+    const signatures: Dictionary<PropertySignature> = {};
+    const superProperties: Dictionary<string[]> = {};
+    for (const binding of response.results.bindings) {
+        const id = binding.property.value;
+        let signature = signatures[id];
+        if (!signature) {
+            signature = signatures[id] = {id, label: {values: []}, domains: [], ranges: [], cardinalities: []};
+            superProperties[id] = [];
+        }
+        if (binding.label) {
+            const label = getLocalizedString(binding.label);
+            if (!signature.label.values.some(value => isLocalizedEqual(value, label))) {
+                signature.label.values.push(label);
+            }
+        }
+        if (binding.domain && signature.domains.indexOf(binding.domain.value) < 0) {
+            signature.domains.push(binding.domain.value);
+        }
+        if (binding.range && signature.ranges.indexOf(binding.range.value) < 0) {
+            signature.ranges.push(binding.range.value);
+        }
+        if (binding.superProperty && superProperties[id].indexOf(binding.superProperty.value) < 0) {
+            superProperties[id].push(binding.superProperty.value);
+        }
+        if (binding.restrictedClass && binding.cardinalityKind && binding.cardinality) {
+            const classId = binding.restrictedClass.value;
+            let cardinality = signature.cardinalities.filter(item => item.classId === classId)[0];
+            if (!cardinality) {
+                cardinality = {classId};
+                signature.cardinalities.push(cardinality);
+            }
+            const value = +binding.cardinality.value;
+            const kind = getLocalName(binding.cardinalityKind.value);
+            if (kind === 'cardinality' || kind === 'qualifiedCardinality') {
+                cardinality.min = cardinality.max = value;
+            } else if (kind === 'minCardinality' || kind === 'minQualifiedCardinality') {
+                cardinality.min = value;
+            } else if (kind === 'maxCardinality' || kind === 'maxQualifiedCardinality') {
+                cardinality.max = value;
+            }
+        }
+    }
+
+    // domains and ranges are inherited from the nearest super properties which declare them
+    const inherited: Dictionary<boolean> = {};
+    const inherit = (signature: PropertySignature, visiting: Dictionary<boolean>) => {
+        if (inherited[signature.id] || visiting[signature.id]) { return; }
+        visiting[signature.id] = true;
+        const inheritDomains = signature.domains.length === 0;
+        const inheritRanges = signature.ranges.length === 0;
+        for (const superId of superProperties[signature.id]) {
+            const superSignature = signatures[superId];
+            if (!superSignature) { continue; }
+            inherit(superSignature, visiting);
+            if (inheritDomains) {
+                signature.domains = union(signature.domains, superSignature.domains);
+            }
+            if (inheritRanges) {
+                signature.ranges = union(signature.ranges, superSignature.ranges);
+            }
+        }
+        inherited[signature.id] = true;
+    };
+
+    return Object.keys(signatures).map(id => {
+        const signature = signatures[id];
+        inherit(signature, {});
+        if (signature.label.values.length === 0) {
+            signature.label.values.push(getLocalizedString(undefined, id, prefixes));
+        }
+        return signature;
+    });
+}
+
+export function getLinksTypesOf(
+    response: SparqlResponse<LinkTypeBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): LinkType[] {
     const sparqlLinkTypes = response.results.bindings;
     // Check for owl:Thing as root of concept tree
     if(sparqlLinkTypes.length == 1 && sparqlLinkTypes[0].instcount.value === "0" ) {
         return [];
     }
-    return sparqlLinkTypes.map((sLink: LinkTypeBinding) => getLinkType(sLink));
+    return sparqlLinkTypes.map((sLink: LinkTypeBinding) => getLinkType(sLink, prefixes));
 }
 
 /**
@@ -495,7 +700,7 @@ export function getPropertyCountOfConcepts(response: SparqlResponse<PropertyCoun
 
     let sparqlPropertyCounts = response.results.bindings;
     // Ensure that this function works in case not any class/individuals in ontology has properties
-    if(sparqlPropertyCounts[0].id) {
+    if(sparqlPropertyCounts.length > 0 && sparqlPropertyCounts[0].id) {
         sparqlPropertyCounts.forEach(sCount => {
             propertyCounts.push({id: sCount.id.value, count: Number(sCount.count.value)});
         });
@@ -503,7 +708,9 @@ export function getPropertyCountOfConcepts(response: SparqlResponse<PropertyCoun
     return propertyCounts;
 }
 
-export function getFilteredData(response: SparqlResponse<ElementBinding>): Dictionary<ElementModel> {
+export function getFilteredData(
+    response: SparqlResponse<ElementBinding>, prefixes: PrefixRegistry = defaultPrefixRegistry
+): Dictionary<ElementModel> {
     const sInstances = response.results.bindings;
     const instancesMap: Dictionary<ElementModel> = {};
 
@@ -512,22 +719,24 @@ export function getFilteredData(response: SparqlResponse<ElementBinding>): Dicti
             continue;
         }
         if (!instancesMap[sInst.inst.value]) {
-            instancesMap[sInst.inst.value] = getElementInfo(sInst);
+            instancesMap[sInst.inst.value] = getElementInfo(sInst, prefixes);
         } else {
-            enrichElement(instancesMap[sInst.inst.value], sInst);
+            enrichElement(instancesMap[sInst.inst.value], sInst, prefixes);
         }
     };
     return instancesMap;
 }
 
-export function enrichElement(element: ElementModel, sInst: ElementBinding) {
+export function enrichElement(
+    element: ElementModel, sInst: ElementBinding, prefixes: PrefixRegistry = defaultPrefixRegistry
+) {
     if (!element) { return; }
     if (sInst.label) {
         const localized = getLocalizedString(sInst.label);
 
         const currentLabels = element.label.values;
         const isAutogeneratedLabel = currentLabels.length === 1 &&
-            !currentLabels[0].lang && currentLabels[0].text === getNameFromId(element.id);
+            !currentLabels[0].lang && currentLabels[0].text === getFallbackLabel(element.id, prefixes);
 
         if (isAutogeneratedLabel) {
             element.label.values = [localized];
@@ -547,27 +756,34 @@ export function enrichElement(element: ElementModel, sInst: ElementBinding) {
             };
         }
         const propertyValue = getPropertyValue(sInst.propValue);
-        if (property.values.every(value => !isLocalizedEqual(value, propertyValue))) {
+        if (property.values.every(value => !isPropertyValueEqual(value, propertyValue))) {
             property.values.push(propertyValue);
         }
     }
 }
 
-function isLocalizedEqual(left: LocalizedString, right: LocalizedString) {
+export function isLocalizedEqual(left: LocalizedString, right: LocalizedString) {
     return left.lang === right.lang && left.text === right.text;
 }
 
+export function isPropertyValueEqual(left: PropertyValue, right: PropertyValue) {
+    return isLocalizedEqual(left, right) && left.type === right.type && left.datatype === right.datatype;
+}
+
 export function getNameFromId(id: string): string {
-    const sharpIndex = id.indexOf('#');
-    if (sharpIndex !== -1) {
-        return id.substring(sharpIndex + 1, id.length);
-    } else {
-        const tokens = id.split('/');
-        return tokens[tokens.length - 1];
-    }
+    return getLocalName(id);
 }
 
-export function getLocalizedString(label?: RdfLiteral, id?: string): LocalizedString {
+/**
+ * Label for entity without rdfs:label, e.g. CURIE `foaf:Person` or local name of IRI.
+ */
+export function getFallbackLabel(id: string, prefixes: PrefixRegistry = defaultPrefixRegistry): string {
+    return prefixes.toDisplayName(id);
+}
+
+export function getLocalizedString(
+    label?: RdfLiteral, id?: string, prefixes: PrefixRegistry = defaultPrefixRegistry
+): LocalizedString {
     if (label) {
         return {
             text: label.value,
@@ -575,7 +791,7 @@ export function getLocalizedString(label?: RdfLiteral, id?: string): LocalizedSt
         };
     } else if (id) {
         return {
-            text: getNameFromId(id),
+            text: getFallbackLabel(id, prefixes),
             lang: '',
         };
     } else {
@@ -587,43 +803,51 @@ export function getInstCount(instcount: RdfLiteral): number {
     return (instcount ? +instcount.value : 0);
 }
 
-export function getClassModel(node: ClassBinding): ClassModel {
+export function getClassModel(node: ClassBinding, prefixes: PrefixRegistry = defaultPrefixRegistry): ClassModel {
     return {
         id: node.class.value,
         children: [] as ClassModel[],
-        label: { values: [getLocalizedString(node.label, node.class.value)] },
+        label: { values: [getLocalizedString(node.label, node.class.value, prefixes)] },
         count: getInstCount(node.instcount),
-        parent: node.parent ? node.parent.value : undefined,
+        parents: node.parent ? [node.parent.value] : [],
     };
 }
 
-export function getPropertyModel(node: PropertyBinding): PropertyModel {
+export function getPropertyModel(
+    node: PropertyBinding, prefixes: PrefixRegistry = defaultPrefixRegistry
+): PropertyModel {
     return {
         id: node.prop.value,
-        label: { values: [getLocalizedString(node.label, node.prop.value)] },
+        label: { values: [getLocalizedString(node.label, node.prop.value, prefixes)] },
     };
 }
 
-export function getLinkType(sLinkType: LinkTypeBinding): LinkType {
+export function getLinkType(sLinkType: LinkTypeBinding, prefixes: PrefixRegistry = defaultPrefixRegistry): LinkType {
     return {
         id: sLinkType.link.value,
-        label: { values: [getLocalizedString(sLinkType.label, sLinkType.link.value)] },
+        label: { values: [getLocalizedString(sLinkType.label, sLinkType.link.value, prefixes)] },
         count: getInstCount(sLinkType.instcount),
     };
 }
 
-export function getPropertyValue(propValue?: RdfLiteral): LocalizedString {
+export function getPropertyValue(propValue?: RdfNode): PropertyValue {
     if (!propValue) { return undefined; }
+    if (propValue.type === 'uri') {
+        return {type: 'iri', text: propValue.value, lang: ''};
+    }
+    const literal = propValue as RdfLiteral;
     return {
-        lang: propValue['xml:lang'],
-        text: propValue.value,
+        type: 'literal',
+        lang: literal['xml:lang'] || '',
+        text: literal.value,
+        datatype: literal.datatype,
     };
 }
 
-export function getElementInfo(sInfo: ElementBinding): ElementModel {
+export function getElementInfo(sInfo: ElementBinding, prefixes: PrefixRegistry = defaultPrefixRegistry): ElementModel {
     const elementInfo: ElementModel = {
         id: sInfo.inst.value,
-        label: { values: [getLocalizedString(sInfo.label, sInfo.inst.value)] },
+        label: { values: [getLocalizedString(sInfo.label, sInfo.inst.value, prefixes)] },
         types: (sInfo.class ? [ sInfo.class.value ] : []),
         properties: {},
     };
@@ -648,11 +872,13 @@ export function getLinkInfo(sLinkInfo: LinkBinding): LinkModel {
     };
 }
 
-export function getLinkTypeInfo(sLinkInfo: LinkTypeInfoBinding): LinkType {
+export function getLinkTypeInfo(
+    sLinkInfo: LinkTypeInfoBinding, prefixes: PrefixRegistry = defaultPrefixRegistry
+): LinkType {
     if (!sLinkInfo) { return undefined; }
     return {
         id: sLinkInfo.typeId.value,
-        label: { values: [getLocalizedString(sLinkInfo.label, sLinkInfo.typeId.value)] },
+        label: { values: [getLocalizedString(sLinkInfo.label, sLinkInfo.typeId.value, prefixes)] },
         count: getInstCount(sLinkInfo.instcount),
     };
 }
@@ -5,6 +5,11 @@ export interface RdfIri {
     value: string;
 }
 
+export interface RdfBlankNode {
+    type: 'bnode';
+    value: string;
+}
+
 export interface RdfLiteral {
     type: 'literal';
     value: string;
@@ -19,11 +24,12 @@ export interface Triple {
 }
 
 export interface ElementBinding {
-    inst: RdfLiteral;
-    class?: RdfLiteral;
+    /** IRI of element, filter() results with literal `inst` are skipped. */
+    inst: RdfNode;
+    class?: RdfIri;
     label?: RdfLiteral;
-    propType?: RdfLiteral;
-    propValue?: RdfLiteral;
+    propType?: RdfIri;
+    propValue?: RdfNode;
 }
 
 export interface ClassBinding {
@@ -33,6 +39,41 @@ export interface ClassBinding {
     parent?: RdfIri;
 }
 
+export interface ClassAxiomBinding {
+    class: RdfIri;
+    predicate: RdfIri;
+    target: RdfIri | RdfBlankNode;
+    operator?: RdfIri;
+    onProperty?: RdfIri;
+    operand?: RdfIri;
+}
+
+/**
+ * Single fact about the property: its label, domain, range, super property
+ * or cardinality restriction on the class.
+ */
+export interface PropertySignatureBinding {
+    property: RdfIri;
+    label?: RdfLiteral;
+    domain?: RdfIri;
+    range?: RdfIri;
+    superProperty?: RdfIri;
+    restrictedClass?: RdfIri;
+    /** owl:cardinality, owl:minCardinality, owl:maxCardinality or their qualified versions */
+    cardinalityKind?: RdfIri;
+    cardinality?: RdfLiteral;
+}
+
+export interface PropertyConceptBinding {
+    property: RdfIri;
+    /** owl:ObjectProperty or owl:DatatypeProperty */
+    type: RdfIri;
+    label?: RdfLiteral;
+    superProperty?: RdfIri;
+    /** Number of triples with the property as predicate. */
+    usage?: RdfLiteral;
+}
+
 export interface ConceptBinding {
     concept: RdfIri;
     label?: RdfLiteral;
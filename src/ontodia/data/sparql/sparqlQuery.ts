@@ -0,0 +1,141 @@
+import { Dictionary } from '../model';
+
+/**
+ * Piece of SPARQL query text which is safe to embed into a query.
+ *
+ * Fragments are created only by builder functions from this module which
+ * validate and escape their arguments, so plain strings cannot be
+ * accidentally spliced into a query built with `sparql` template tag.
+ */
+export class SparqlFragment {
+    constructor(readonly text: string) {}
+
+    toString() {
+        return this.text;
+    }
+}
+
+export type SparqlLiteralOptions = { lang: string; } | { datatype: string; };
+
+/**
+ * Template tag to build query from fragments, e.g.
+ * sparql`SELECT ?label WHERE { ${iri(id)} rdfs:label ?label }`.
+ *
+ * Throws an error if interpolated value is not a SparqlFragment.
+ */
+export function sparql(strings: TemplateStringsArray, ...values: SparqlFragment[]): SparqlFragment {
+    let text = strings[0];
+    for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (!(value instanceof SparqlFragment)) {
+            throw new Error(`Cannot interpolate non-SPARQL value into a query: ${value}`);
+        }
+        text += value.text + strings[i + 1];
+    }
+    return new SparqlFragment(text);
+}
+
+/**
+ * Fragment from trusted SPARQL text, e.g. constant graph pattern.
+ * Never use it with user input or data from endpoint.
+ */
+export function raw(text: string): SparqlFragment {
+    return new SparqlFragment(text);
+}
+
+// characters not allowed in IRIREF production of SPARQL grammar
+const INVALID_IRI_CHARACTERS = /[\u0000- <>"{}|^`\\]/;
+
+export function iri(value: string): SparqlFragment {
+    if (INVALID_IRI_CHARACTERS.test(value)) {
+        throw new Error(`Invalid IRI: ${JSON.stringify(value)}`);
+    }
+    return new SparqlFragment(`<${value}>`);
+}
+
+const LANGUAGE_TAG = /^[a-zA-Z]+(-[a-zA-Z0-9]+)*$/;
+
+/**
+ * String literal with optional language tag or datatype, e.g. "text"@en or "1"^^xsd:integer.
+ */
+export function literal(value: string, options?: SparqlLiteralOptions): SparqlFragment {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t')
+        .replace(/\f/g, '\\f')
+        .replace(/\u0008/g, '\\b');
+    let text = `"${escaped}"`;
+    if (options && 'lang' in options) {
+        const {lang} = options as { lang: string };
+        if (!LANGUAGE_TAG.test(lang)) {
+            throw new Error(`Invalid language tag: ${JSON.stringify(lang)}`);
+        }
+        text += '@' + lang;
+    } else if (options && 'datatype' in options) {
+        text += '^^' + iri((options as { datatype: string }).datatype).text;
+    }
+    return new SparqlFragment(text);
+}
+
+/**
+ * Non-negative integer, e.g. for LIMIT and OFFSET.
+ */
+export function integer(value: number): SparqlFragment {
+    if (!(typeof value === 'number' && isFinite(value) && Math.floor(value) === value && value >= 0)) {
+        throw new Error(`Invalid non-negative integer: ${value}`);
+    }
+    return new SparqlFragment(String(value));
+}
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function variable(name: string): SparqlFragment {
+    if (!VARIABLE_NAME.test(name)) {
+        throw new Error(`Invalid variable name: ${JSON.stringify(name)}`);
+    }
+    return new SparqlFragment('?' + name);
+}
+
+/**
+ * Joins fragments with separator, e.g. for `FILTER (?x IN (...))` lists.
+ */
+export function join(fragments: SparqlFragment[], separator = ', '): SparqlFragment {
+    return new SparqlFragment(fragments.map(fragment => fragment.text).join(separator));
+}
+
+/**
+ * Inline data block, e.g. `VALUES ?x { <a> <b> }` for single variable
+ * or `VALUES (?x ?y) { (<a> "1") (<b> "2") }` for several ones.
+ */
+export function values(variables: string | string[], rows: SparqlFragment[] | SparqlFragment[][]): SparqlFragment {
+    if (typeof variables === 'string') {
+        const terms = (rows as SparqlFragment[]).map(term => term.text).join(' ');
+        return new SparqlFragment(`VALUES ${variable(variables).text} { ${terms} }`);
+    }
+    const header = variables.map(name => variable(name).text).join(' ');
+    const body = (rows as SparqlFragment[][]).map(row => {
+        if (row.length !== variables.length) {
+            throw new Error('Number of terms in VALUES row does not match number of variables');
+        }
+        return '(' + row.map(term => term.text).join(' ') + ')';
+    }).join(' ');
+    return new SparqlFragment(`VALUES (${header}) { ${body} }`);
+}
+
+const PREFIX_NAME = /^([A-Za-z][A-Za-z0-9_.-]*)?$/;
+
+/**
+ * PREFIX declarations from prefix -> namespace IRI dictionary.
+ */
+export function prefixes(namespaces: Dictionary<string>): SparqlFragment {
+    const declarations = Object.keys(namespaces).map(prefix => {
+        if (!PREFIX_NAME.test(prefix)) {
+            throw new Error(`Invalid prefix name: ${JSON.stringify(prefix)}`);
+        }
+        return `PREFIX ${prefix}: ${iri(namespaces[prefix]).text}`;
+    });
+    return new SparqlFragment(declarations.join('\n') + '\n');
+}
@@ -0,0 +1,268 @@
+import * as $ from 'jquery';
+
+import { Dictionary } from '../model';
+import { CancellationToken, Cancellation, createCancelledError, delay } from '../cancellation';
+
+import { SparqlResponse } from './sparqlModels';
+
+/**
+ * Endpoint authentication strategy:
+ *     none - no Authorization header is sent;
+ *     basic - HTTP Basic authentication with given credentials;
+ *     bearer - OAuth-style bearer token;
+ *     headers - custom headers computed for every request.
+ */
+export type SparqlAuth =
+    { type: 'none'; } |
+    { type: 'basic'; username: string; password: string; } |
+    { type: 'bearer'; token: string; } |
+    { type: 'headers'; getHeaders: (request: SparqlRequest) => Dictionary<string>; };
+
+/**
+ * How query is sent to the endpoint (see SPARQL 1.1 Protocol, section 2.1):
+ *     GET - URL-encoded query in request URL;
+ *     POST-form - URL-encoded query in 'application/x-www-form-urlencoded' body;
+ *     POST-direct - unencoded query in 'application/sparql-query' body.
+ */
+export type SparqlQueryMethod = 'GET' | 'POST-form' | 'POST-direct';
+
+export interface SparqlRequest {
+    method: 'GET' | 'POST';
+    url: string;
+    headers: Dictionary<string>;
+    body?: string;
+}
+
+/**
+ * Performs HTTP request and resolves with parsed JSON response body.
+ *
+ * Implementations should reject with an error created by `createHttpError()`
+ * for failed requests to make retry policy work and should stop
+ * the request when `signal` is aborted.
+ */
+export type SparqlFetch = (request: SparqlRequest, signal?: CancellationToken) => Promise<any>;
+
+/**
+ * Exponential backoff retry policy for transient errors (network failures,
+ * timeouts and HTTP statuses 408, 429, 500, 502, 503, 504).
+ *
+ * Delay before n-th retry equals to `initialDelay * 2^(n - 1)` limited by `maxDelay`.
+ */
+export interface SparqlRetryPolicy {
+    /** Maximum number of attempts including the first one. */
+    maxAttempts: number;
+    /** @default 500 */
+    initialDelay?: number;
+    /** @default 10000 */
+    maxDelay?: number;
+}
+
+export interface SparqlTransportOptions {
+    endpointUrl: string;
+    /** @default {type: 'none'} */
+    auth?: SparqlAuth;
+    /** @default 'POST-direct' */
+    queryMethod?: SparqlQueryMethod;
+    /** Additional query parameters sent with every request, e.g. {reasoning: 'true'} */
+    queryParams?: Dictionary<string>;
+    /** @default jqueryFetch */
+    fetch?: SparqlFetch;
+    /** Request timeout in milliseconds; no timeout if not specified. */
+    timeout?: number;
+    /** @default no retries */
+    retry?: SparqlRetryPolicy;
+}
+
+export interface SparqlHttpError extends Error {
+    /** HTTP status code or 0 if request failed without response */
+    status: number;
+    responseText?: string;
+}
+
+const TRANSIENT_HTTP_STATUSES = [0, 408, 429, 500, 502, 503, 504];
+const TIMEOUT_ERROR_NAME = 'TimeoutError';
+
+export function createHttpError(status: number, statusText: string, responseText?: string): SparqlHttpError {
+    const error = new Error(
+        `SPARQL request failed with status ${status}` + (statusText ? ` (${statusText})` : '')) as SparqlHttpError;
+    error.name = 'SparqlHttpError';
+    error.status = status;
+    error.responseText = responseText;
+    return error;
+}
+
+function createTimeoutError(timeout: number): Error {
+    const error = new Error(`SPARQL request timed out after ${timeout} ms`);
+    error.name = TIMEOUT_ERROR_NAME;
+    return error;
+}
+
+export function isTransientError(error: any): boolean {
+    if (!error) { return false; }
+    if (error.name === TIMEOUT_ERROR_NAME) { return true; }
+    return typeof error.status === 'number' && TRANSIENT_HTTP_STATUSES.indexOf(error.status) >= 0;
+}
+
+const SPARQL_RESULTS_JSON = 'application/sparql-results+json';
+
+export function executeSparqlQuery<Binding>(
+    options: SparqlTransportOptions,
+    query: string,
+    signal?: CancellationToken,
+): Promise<SparqlResponse<Binding>> {
+    const request = createSparqlRequest(options, query);
+    const fetch = options.fetch || jqueryFetch;
+    const {maxAttempts = 1, initialDelay = 500, maxDelay = 10000} = options.retry || {} as SparqlRetryPolicy;
+
+    const attempt = (attemptIndex: number): Promise<SparqlResponse<Binding>> =>
+        fetchOnce(fetch, request, options.timeout, signal).catch(error => {
+            const canRetry = attemptIndex + 1 < maxAttempts
+                && isTransientError(error)
+                && !(signal && signal.aborted);
+            if (!canRetry) {
+                return Promise.reject(error);
+            }
+            const backoff = Math.min(initialDelay * Math.pow(2, attemptIndex), maxDelay);
+            return delay(backoff, signal).then(() => attempt(attemptIndex + 1));
+        });
+
+    return attempt(0);
+}
+
+/**
+ * Performs single request which is rejected on timeout or abort even
+ * if fetch implementation ignores the signal.
+ */
+function fetchOnce(
+    fetch: SparqlFetch,
+    request: SparqlRequest,
+    timeout: number | undefined,
+    signal: CancellationToken | undefined,
+): Promise<any> {
+    return new Promise((resolve, reject) => {
+        if (signal && signal.aborted) {
+            reject(createCancelledError());
+            return;
+        }
+
+        const cancellation = new Cancellation();
+        let timer: number | undefined;
+        const cleanup = () => {
+            if (timer !== undefined) { clearTimeout(timer); }
+            if (signal) { signal.removeListener(onAbort); }
+        };
+        const onAbort = () => {
+            cleanup();
+            cancellation.abort();
+            reject(createCancelledError());
+        };
+
+        if (signal) { signal.addListener(onAbort); }
+        if (timeout) {
+            timer = setTimeout(() => {
+                cleanup();
+                cancellation.abort();
+                reject(createTimeoutError(timeout));
+            }, timeout);
+        }
+
+        fetch(request, cancellation.signal).then(result => {
+            cleanup();
+            resolve(result);
+        }, error => {
+            cleanup();
+            reject(error);
+        });
+    });
+}
+
+export function createSparqlRequest(options: SparqlTransportOptions, query: string): SparqlRequest {
+    const {endpointUrl, queryMethod = 'POST-direct', queryParams = {}} = options;
+    const headers: Dictionary<string> = {'Accept': SPARQL_RESULTS_JSON};
+
+    let request: SparqlRequest;
+    if (queryMethod === 'GET') {
+        request = {
+            method: 'GET',
+            url: appendQueryString(endpointUrl, {...queryParams, query}),
+            headers,
+        };
+    } else if (queryMethod === 'POST-form') {
+        headers['Content-Type'] = 'application/x-www-form-urlencoded; charset=UTF-8';
+        request = {
+            method: 'POST',
+            url: endpointUrl,
+            headers,
+            body: encodeQueryString({...queryParams, query}),
+        };
+    } else {
+        headers['Content-Type'] = 'application/sparql-query; charset=UTF-8';
+        request = {
+            method: 'POST',
+            url: appendQueryString(endpointUrl, queryParams),
+            headers,
+            body: query,
+        };
+    }
+
+    const authHeaders = getAuthHeaders(options.auth, request);
+    for (const header in authHeaders) {
+        if (!authHeaders.hasOwnProperty(header)) { continue; }
+        request.headers[header] = authHeaders[header];
+    }
+    return request;
+}
+
+export function getAuthHeaders(auth: SparqlAuth | undefined, request: SparqlRequest): Dictionary<string> {
+    if (!auth || auth.type === 'none') {
+        return {};
+    } else if (auth.type === 'basic') {
+        return {'Authorization': 'Basic ' + btoa(auth.username + ':' + auth.password)};
+    } else if (auth.type === 'bearer') {
+        return {'Authorization': 'Bearer ' + auth.token};
+    } else if (auth.type === 'headers') {
+        return auth.getHeaders(request);
+    } else {
+        throw new Error('Unknown SPARQL authentication type');
+    }
+}
+
+function encodeQueryString(params: Dictionary<string>): string {
+    return Object.keys(params)
+        .map(key => encodeURIComponent(key) + '=' + encodeURIComponent(params[key]))
+        .join('&');
+}
+
+function appendQueryString(url: string, params: Dictionary<string>): string {
+    const queryString = encodeQueryString(params);
+    if (!queryString) { return url; }
+    return url + (url.indexOf('?') < 0 ? '?' : '&') + queryString;
+}
+
+/**
+ * Default SparqlFetch implementation based on jQuery.ajax().
+ */
+export function jqueryFetch(request: SparqlRequest, signal?: CancellationToken): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => xhr.abort();
+        const xhr = $.ajax({
+            type: request.method,
+            url: request.url,
+            headers: request.headers,
+            data: request.body,
+            processData: false,
+            success: result => resolve(result),
+            error: (jqXHR, statusText, error) => {
+                if (statusText === 'abort') {
+                    reject(createCancelledError());
+                } else {
+                    reject(createHttpError(jqXHR.status, error || statusText, jqXHR.responseText));
+                }
+            },
+            complete: () => {
+                if (signal) { signal.removeListener(onAbort); }
+            },
+        });
+        if (signal) { signal.addListener(onAbort); }
+    });
+}
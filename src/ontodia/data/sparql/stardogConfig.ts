@@ -1,4 +0,0 @@
-export default class Config {
-    public static readonly USERNAME = 'admin';
-    public static readonly PASSWORD = 'admin';
-}
\ No newline at end of file
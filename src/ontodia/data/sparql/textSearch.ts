@@ -0,0 +1,121 @@
+import { SparqlFragment, sparql, iri, literal, join } from './sparqlQuery';
+
+/**
+ * Full-text search implementation for SparqlDataProvider.filter().
+ */
+export interface TextSearchStrategy {
+    /**
+     * Returns SPARQL graph pattern which binds `?inst` to elements matching
+     * the search text and `?score` to numeric relevance (greater is more relevant).
+     *
+     * @param text - raw user input; implementation is responsible for escaping it
+     * @param labelPredicates - predicates of searched labels, rdfs:label by default
+     */
+    createPattern(text: string, labelPredicates?: string[]): SparqlFragment;
+}
+
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+
+/**
+ * Property path which matches any of label predicates, e.g. `<a>|<b>`.
+ */
+function labelPath(labelPredicates: string[] = [RDFS_LABEL]): SparqlFragment {
+    return join(labelPredicates.map(iri), '|');
+}
+
+/**
+ * Exact match is ranked higher than prefix match which is ranked higher than any other match.
+ */
+function rankByLabelMatch(text: SparqlFragment) {
+    return sparql`BIND (IF(LCASE(STR(?searchLabel)) = LCASE(${text}), 3,
+                IF(STRSTARTS(LCASE(STR(?searchLabel)), LCASE(${text})), 2, 1)) AS ?score)`;
+}
+
+/**
+ * Case-insensitive substring search using REGEX(); requires full scan of labels.
+ */
+export const RegexTextSearch: TextSearchStrategy = {
+    createPattern: (text, labelPredicates) => {
+        return sparql`?inst ${labelPath(labelPredicates)} ?searchLabel .
+            FILTER REGEX(STR(?searchLabel), ${literal(escapeRegex(text))}, "i")
+            ${rankByLabelMatch(literal(text))}`;
+    },
+};
+
+/**
+ * Case-insensitive substring search using CONTAINS() which is usually faster than REGEX().
+ */
+export const ContainsTextSearch: TextSearchStrategy = {
+    createPattern: (text, labelPredicates) => {
+        const searchText = literal(text);
+        return sparql`?inst ${labelPath(labelPredicates)} ?searchLabel .
+            FILTER CONTAINS(LCASE(STR(?searchLabel)), LCASE(${searchText}))
+            ${rankByLabelMatch(searchText)}`;
+    },
+};
+
+/**
+ * Stardog full-text search, requires `search.enabled=true` database option.
+ * @see http://docs.stardog.com/#_search
+ */
+export const StardogTextSearch: TextSearchStrategy = {
+    createPattern: (text, labelPredicates) => {
+        const query = literal(toLuceneQuery(text));
+        return sparql`(?searchLabel ?score) <tag:stardog:api:property:textMatch> ${query} .
+            ?inst ${labelPath(labelPredicates)} ?searchLabel .`;
+    },
+};
+
+/**
+ * Blazegraph full-text search, requires namespace with text index.
+ * @see https://wiki.blazegraph.com/wiki/index.php/FullTextSearch
+ */
+export const BlazegraphTextSearch: TextSearchStrategy = {
+    createPattern: (text, labelPredicates) => {
+        const terms = splitTerms(text).map(term => term + '*').join(' ');
+        return sparql`?searchLabel <http://www.bigdata.com/rdf/search#search> ${literal(terms)} ;
+                <http://www.bigdata.com/rdf/search#matchAllTerms> "true" ;
+                <http://www.bigdata.com/rdf/search#relevance> ?score .
+            ?inst ${labelPath(labelPredicates)} ?searchLabel .`;
+    },
+};
+
+/**
+ * Apache Jena full-text search, requires text dataset indexing label predicates.
+ * @see https://jena.apache.org/documentation/query/text-query.html
+ */
+export const JenaTextSearch: TextSearchStrategy = {
+    createPattern: (text, labelPredicates = [RDFS_LABEL]) => {
+        const query = literal(toLuceneQuery(text));
+        // text:query accepts only a single indexed property
+        const patterns = labelPredicates.map(predicate => sparql`{
+            (?inst ?score ?searchLabel) <http://jena.apache.org/text#query> (${iri(predicate)} ${query}) .
+        }`);
+        return join(patterns, ' UNION ');
+    },
+};
+
+export const TextSearchStrategies = {
+    regex: RegexTextSearch,
+    contains: ContainsTextSearch,
+    stardog: StardogTextSearch,
+    blazegraph: BlazegraphTextSearch,
+    jena: JenaTextSearch,
+};
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function splitTerms(text: string): string[] {
+    return text.split(/\s+/).filter(term => term.length > 0);
+}
+
+/**
+ * Converts user input into Lucene query where every term should match as prefix.
+ */
+function toLuceneQuery(text: string): string {
+    return splitTerms(text)
+        .map(term => term.replace(/[+\-&|!(){}[\]^"~*?:\\\/]/g, '\\$&') + '*')
+        .join(' AND ');
+}
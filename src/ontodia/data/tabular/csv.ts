@@ -0,0 +1,61 @@
+/**
+ * Parses CSV content (RFC 4180) into rows of cells: fields may be quoted with `"`,
+ * quoted fields may contain delimiters, line breaks and escaped `""` quotes.
+ *
+ * Both CRLF and LF line endings are accepted; empty lines are skipped.
+ */
+export function parseCsv(content: string, delimiter = ','): string[][] {
+    if (delimiter.length !== 1 || delimiter === '"') {
+        throw new Error(`Invalid CSV delimiter: ${JSON.stringify(delimiter)}`);
+    }
+    // strip byte order mark written by spreadsheet applications
+    const text = content.charCodeAt(0) === 0xFEFF ? content.substring(1) : content;
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let index = 0;
+
+    const endRow = () => {
+        row.push(field);
+        if (!(row.length === 1 && row[0] === '')) {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    while (index < text.length) {
+        const char = text[index];
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') { index++; }
+            endRow();
+        } else {
+            field += char;
+        }
+        index++;
+    }
+
+    if (quoted) {
+        throw new Error('Unterminated quoted field in CSV content');
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+    return rows;
+}
@@ -0,0 +1,307 @@
+import * as N3 from 'n3';
+
+import { DataProvider, FilterParams } from '../provider';
+import { CancellationToken, createCancelledError } from '../cancellation';
+import {
+    Dictionary, ClassModel, LinkType, ElementModel, LinkModel, LinkCount, PropertyModel, PropertyCount,
+    ConceptModel, ClassAxiom, PropertySignature,
+} from '../model';
+import { getClassTree, getPropertyCountOfConcepts } from '../sparql/responseHandler';
+import { ClassBinding, PropertyCountBinding, SparqlResponse } from '../sparql/sparqlModels';
+import { RdfFileDataProvider } from '../rdf/rdfFileDataProvider';
+import { RdfTriple, isLiteralTerm, toRdfIri, toRdfLiteral } from '../rdf/rdfStore';
+
+import { parseCsv } from './csv';
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL = 'http://www.w3.org/2000/01/rdf-schema#label';
+const RDFS_SUB_CLASS_OF = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+const RDFS_DOMAIN = 'http://www.w3.org/2000/01/rdf-schema#domain';
+const XSD_INTEGER = 'http://www.w3.org/2001/XMLSchema#integer';
+
+const DEFAULT_BASE_IRI = 'http://ontodia.org/tabular/';
+
+export interface TabularFile {
+    content: string;
+    /**
+     * Name of the table which is referenced by link columns and used in element IRIs;
+     * defaults to fileName without extension.
+     */
+    name?: string;
+    fileName?: string;
+    /** @default ',' */
+    delimiter?: string;
+    mapping: TabularMapping;
+}
+
+/**
+ * Mapping of table columns (by header) to elements, classes, properties and links.
+ */
+export interface TabularMapping {
+    /** Column with row identifier which is unique within the table. */
+    idColumn: string;
+    labelColumn?: string;
+    /** @default '' */
+    labelLanguage?: string;
+    /**
+     * Column with type (class) name of the row;
+     * every row has a type named after the table if not specified.
+     */
+    typeColumn?: string;
+    /** Column with parent type name of the row type to build class hierarchy. */
+    parentTypeColumn?: string;
+    /** Columns which values become literal properties of elements. */
+    propertyColumns?: string[];
+    /** XSD datatypes of property columns, e.g. `{age: 'http://www.w3.org/2001/XMLSchema#integer'}`. */
+    datatypes?: Dictionary<string>;
+    /** Foreign key columns which values are IDs of rows linked by the column. */
+    linkColumns?: TabularLinkColumn[];
+}
+
+export interface TabularLinkColumn {
+    column: string;
+    /**
+     * Name of the table with referenced rows.
+     * @default the same table
+     */
+    targetTable?: string;
+    /** Separator of multiple IDs in one cell, e.g. ';'; the whole cell is a single ID if not specified. */
+    separator?: string;
+}
+
+export interface TabularDataProviderOptions {
+    files: TabularFile[];
+    /**
+     * Namespace of generated IRIs: `data/<table>/<id>` for rows, `class/<type>` for types
+     * and `property/<column>` for property and link columns.
+     * @default 'http://ontodia.org/tabular/'
+     */
+    baseIri?: string;
+}
+
+/**
+ * Data provider for spreadsheets exported as CSV files.
+ *
+ * Rows are converted into triples using column mapping: type and parent type columns form
+ * class hierarchy (`rdfs:subClassOf`), property and link columns declare `rdfs:domain`
+ * of row types, so key concepts can be extracted from spreadsheet taxonomies.
+ * Requests are answered by RdfFileDataProvider over the resulting triples,
+ * except for class tree and property counts which are built from table types only.
+ */
+export class TabularDataProvider implements DataProvider {
+    private readonly provider = new RdfFileDataProvider({files: []});
+    private readonly classIds: string[] = [];
+
+    constructor(options: TabularDataProviderOptions) {
+        const baseIri = options.baseIri || DEFAULT_BASE_IRI;
+        const classIds: Dictionary<boolean> = {};
+        for (const file of options.files) {
+            const table = convertTable(file, baseIri);
+            this.provider.store.addAll(table.triples);
+            for (const classId of table.classIds) {
+                classIds[classId] = true;
+            }
+        }
+        this.classIds = Object.keys(classIds);
+    }
+
+    classTree(params: { signal?: CancellationToken; } = {}): Promise<[ClassModel[], ConceptModel]> {
+        const {store} = this.provider;
+        return this.select<ClassBinding>(params.signal, () => {
+            const bindings: ClassBinding[] = [];
+            for (const classId of this.classIds) {
+                const instcount = toRdfLiteral(N3.Util.createLiteral(
+                    String(store.subjects(RDF_TYPE, classId).length), XSD_INTEGER));
+                const label = store.objects(classId, RDFS_LABEL).filter(isLiteralTerm).map(toRdfLiteral)[0];
+                const parents = store.objects(classId, RDFS_SUB_CLASS_OF);
+                for (const parent of (parents.length > 0 ? parents : [undefined])) {
+                    bindings.push({class: toRdfIri(classId), label, instcount, parent: parent && toRdfIri(parent)});
+                }
+            }
+            return bindings;
+        }).then(getClassTree);
+    }
+
+    classInfo(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassModel[]> {
+        return this.provider.classInfo(params);
+    }
+
+    propertyInfo(params: { propertyIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<PropertyModel>> {
+        return this.provider.propertyInfo(params);
+    }
+
+    linkTypes(params?: { signal?: CancellationToken; }): Promise<LinkType[]> {
+        return this.provider.linkTypes(params);
+    }
+
+    linkTypesInfo(params: { linkTypeIds: string[]; signal?: CancellationToken; }): Promise<LinkType[]> {
+        return this.provider.linkTypesInfo(params);
+    }
+
+    elementInfo(params: { elementIds: string[]; signal?: CancellationToken; }): Promise<Dictionary<ElementModel>> {
+        return this.provider.elementInfo(params);
+    }
+
+    linksInfo(params: {
+        elementIds: string[];
+        linkTypeIds: string[];
+        signal?: CancellationToken;
+    }): Promise<LinkModel[]> {
+        return this.provider.linksInfo(params);
+    }
+
+    linkTypesOf(params: { elementId: string; signal?: CancellationToken; }): Promise<LinkCount[]> {
+        return this.provider.linkTypesOf(params);
+    }
+
+    filter(params: FilterParams): Promise<Dictionary<ElementModel>> {
+        return this.provider.filter(params);
+    }
+
+    classAxioms(params: { classIds: string[]; signal?: CancellationToken; }): Promise<ClassAxiom[]> {
+        return this.provider.classAxioms(params);
+    }
+
+    propertySignatures(params?: { signal?: CancellationToken; }): Promise<PropertySignature[]> {
+        return this.provider.propertySignatures(params);
+    }
+
+    propertyCountOfClasses(params: { signal?: CancellationToken; } = {}): Promise<PropertyCount[]> {
+        const {store} = this.provider;
+        return this.select<PropertyCountBinding>(params.signal, () =>
+            this.classIds.map(classId => ({
+                id: toRdfIri(classId),
+                count: toRdfLiteral(N3.Util.createLiteral(
+                    String(store.subjects(RDFS_DOMAIN, classId).length), XSD_INTEGER)),
+            }))
+        ).then(getPropertyCountOfConcepts);
+    }
+
+    propertyCountOfIndividuals(params?: { signal?: CancellationToken; }): Promise<PropertyCount[]> {
+        return this.provider.propertyCountOfIndividuals(params);
+    }
+
+    instanceConceptsTree(
+        classifierIds: string[],
+        inverseClassifierIds: string[],
+        params?: { signal?: CancellationToken; },
+    ): Promise<ConceptModel> {
+        return this.provider.instanceConceptsTree(classifierIds, inverseClassifierIds, params);
+    }
+
+    propertyConceptsTree(params?: { signal?: CancellationToken; }): Promise<ConceptModel> {
+        return this.provider.propertyConceptsTree(params);
+    }
+
+    private select<Binding>(
+        signal: CancellationToken | undefined,
+        getBindings: () => Binding[],
+    ): Promise<SparqlResponse<Binding>> {
+        if (signal && signal.aborted) {
+            return Promise.reject<SparqlResponse<Binding>>(createCancelledError());
+        }
+        return Promise.resolve({head: {vars: []}, results: {bindings: getBindings()}});
+    }
+}
+
+function convertTable(file: TabularFile, baseIri: string): { triples: RdfTriple[]; classIds: string[]; } {
+    const {mapping, delimiter = ','} = file;
+    const table = file.name || tableNameOf(file.fileName);
+    if (!table) {
+        throw new Error('Either name or fileName should be specified for tabular file');
+    }
+
+    const [header = [], ...rows] = parseCsv(file.content, delimiter);
+    const columnIndex = (column: string | undefined): number | undefined => {
+        if (column === undefined) { return undefined; }
+        const index = header.indexOf(column);
+        if (index < 0) {
+            throw new Error(`Column "${column}" is not found in table "${table}"`);
+        }
+        return index;
+    };
+
+    const elementIri = (tableName: string, id: string) =>
+        `${baseIri}data/${encodeURIComponent(tableName)}/${encodeURIComponent(id)}`;
+    const classIri = (typeName: string) => `${baseIri}class/${encodeURIComponent(typeName)}`;
+    const propertyIri = (column: string) => `${baseIri}property/${encodeURIComponent(column)}`;
+
+    const triples: RdfTriple[] = [];
+    const classIds: string[] = [];
+    const declareClass = (typeName: string) => {
+        const iri = classIri(typeName);
+        if (classIds.indexOf(iri) < 0) { classIds.push(iri); }
+        triples.push({subject: iri, predicate: RDFS_LABEL, object: N3.Util.createLiteral(typeName)});
+        return iri;
+    };
+    const declareProperty = (column: string, domain: string | undefined) => {
+        const iri = propertyIri(column);
+        triples.push({subject: iri, predicate: RDFS_LABEL, object: N3.Util.createLiteral(column)});
+        if (domain) {
+            triples.push({subject: iri, predicate: RDFS_DOMAIN, object: domain});
+        }
+        return iri;
+    };
+
+    const idIndex = columnIndex(mapping.idColumn);
+    const labelIndex = columnIndex(mapping.labelColumn);
+    const typeIndex = columnIndex(mapping.typeColumn);
+    const parentTypeIndex = columnIndex(mapping.parentTypeColumn);
+    const properties = (mapping.propertyColumns || []).map(column => ({column, index: columnIndex(column)}));
+    const links = (mapping.linkColumns || []).map(link => ({...link, index: columnIndex(link.column)}));
+    const datatypes = mapping.datatypes || {};
+
+    for (const row of rows) {
+        const cell = (index: number | undefined) => index === undefined ? '' : (row[index] || '').trim();
+        const id = cell(idIndex);
+        if (!id) { continue; }
+        const subject = elementIri(table, id);
+
+        let type: string | undefined;
+        if (typeIndex === undefined) {
+            type = declareClass(table);
+        } else if (cell(typeIndex)) {
+            type = declareClass(cell(typeIndex));
+            const parentType = cell(parentTypeIndex);
+            if (parentType && parentType !== cell(typeIndex)) {
+                triples.push({subject: type, predicate: RDFS_SUB_CLASS_OF, object: declareClass(parentType)});
+            }
+        }
+        if (type) {
+            triples.push({subject, predicate: RDF_TYPE, object: type});
+        }
+
+        const label = cell(labelIndex);
+        if (label) {
+            const object = N3.Util.createLiteral(label, mapping.labelLanguage || undefined);
+            triples.push({subject, predicate: RDFS_LABEL, object});
+        }
+
+        for (const {column, index} of properties) {
+            const value = cell(index);
+            if (!value) { continue; }
+            const predicate = declareProperty(column, type);
+            triples.push({subject, predicate, object: N3.Util.createLiteral(value, datatypes[column])});
+        }
+
+        for (const {column, index, targetTable = table, separator} of links) {
+            const value = cell(index);
+            if (!value) { continue; }
+            const predicate = declareProperty(column, type);
+            const targetIds = separator ? value.split(separator) : [value];
+            for (const targetId of targetIds.map(target => target.trim()).filter(target => target.length > 0)) {
+                triples.push({subject, predicate, object: elementIri(targetTable, targetId)});
+            }
+        }
+    }
+    return {triples, classIds};
+}
+
+function tableNameOf(fileName: string | undefined): string | undefined {
+    if (!fileName) { return undefined; }
+    const baseName = fileName.substring(fileName.lastIndexOf('/') + 1);
+    const extensionStart = baseName.lastIndexOf('.');
+    return extensionStart > 0 ? baseName.substring(0, extensionStart) : baseName;
+}
+
+export default TabularDataProvider;
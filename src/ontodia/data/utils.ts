@@ -0,0 +1,15 @@
+import { Dictionary } from './model';
+
+/** Mimics SPARQL OPTIONAL: yields a single unbound value when there are no solutions. */
+export function optional<T>(values: T[]): T[] {
+    return values.length > 0 ? values : [undefined];
+}
+
+/** Creates set of ids to check membership in constant time. */
+export function toSet(ids: string[]): Dictionary<boolean> {
+    const set: Dictionary<boolean> = {};
+    for (const id of ids) {
+        set[id] = true;
+    }
+    return set;
+}
@@ -131,7 +131,12 @@ class OverlayedElement extends React.Component<OverlayedElementProps, OverlayedE
             onClick={e => {
                 if (e.target instanceof HTMLElement && e.target.localName === 'a') {
                     const anchor = e.target as HTMLAnchorElement;
-                    model.iriClick(anchor.href);
+                    const referencedElementId = anchor.getAttribute('data-add-element');
+                    if (referencedElementId) {
+                        view.addReferencedElement(model, referencedElementId);
+                    } else {
+                        model.iriClick(anchor.href);
+                    }
                     e.preventDefault();
                 }
             }}
@@ -217,6 +222,7 @@ class OverlayedElement extends React.Component<OverlayedElementProps, OverlayedE
             isExpanded: model.isExpanded,
             props: model.template.properties,
             propsAsList,
+            sources: model.template.sources,
         };
     }
 
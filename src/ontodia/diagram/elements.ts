@@ -130,6 +130,9 @@ export class Link extends joint.dia.Link {
     get layoutOnly(): boolean { return this.get('layoutOnly'); }
     set layoutOnly(value: boolean) { this.set('layoutOnly', value); }
 
+    /** Cardinality of schema property link, e.g. '0..1'. */
+    get cardinality(): string | undefined { return this.get('cardinality'); }
+
     initialize(attributes?: {id: string}) {
         this.set('labels', [{position: 0.5}]);
     }
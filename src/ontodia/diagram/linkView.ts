@@ -65,6 +65,10 @@ export class LinkView extends joint.dia.LinkView {
                 text: this.view.getLinkLabel(linkTypeId).text,
             }},
         }] : [];
+        const cardinality = this.model.get('cardinality');
+        if (cardinality) {
+            labelAttributes.push({position: 0.85, attrs: {text: {text: cardinality}}});
+        }
 
         merge(linkAttributes, {labels: labelAttributes});
         this.model.set(linkAttributes, options);
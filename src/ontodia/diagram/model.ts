@@ -1,13 +1,28 @@
 import * as Backbone from 'backbone';
-import { each, size, values, keyBy, defaults, clone, sortBy, take, filter, difference, union, uniqBy} from 'lodash';
+import { each, size, values, keyBy, defaults, sortBy, uniqBy, isEqual } from 'lodash';
 import * as joint from 'jointjs';
+import * as N3 from 'n3';
 
 import {
     Dictionary, LocalizedString, LinkType, ClassModel, ElementModel, LinkModel, PropertyCount,
-    ConceptModel,
+    ConceptModel, ClassAxiom, ClassExpression, PropertySignature, PropertyCardinality,
 } from '../data/model';
 import {DataProvider} from '../data/provider';
 import {BFSConceptModel} from '../data/model';
+import { createCancelledError } from '../data/cancellation';
+import { PrefixRegistry, defaultPrefixRegistry } from '../data/prefixRegistry';
+import { RdfFileDataProvider, RdfFile } from '../data/rdf/rdfFileDataProvider';
+import {
+    JsonLdDocument, JSON_LD_FORMAT, KCE_NAMESPACE, serializeJsonLd, readVirtualLinks,
+} from '../data/rdf/jsonLd';
+import { RdfSerializationFormat, serializeRdf } from '../data/rdf/rdfSerializer';
+import { RdfTriple } from '../data/rdf/rdfStore';
+import { KeyConceptExtractor, KceWeights, DEFAULT_KCE_WEIGHTS } from '../kce/keyConceptExtractor';
+import {
+    ConceptRanking, ConceptRankingStrategy, ConceptRelation, ConceptGraph, ScoredConceptRanking,
+    KCE_RANKING_STRATEGY, BETWEENNESS_CENTRALITY_STRATEGY,
+} from '../kce/conceptRanking';
+import { ComputationWorker, ComputationOptions } from '../worker/computationWorker';
 
 import { LayoutData, LayoutElement, normalizeImportedCell, cleanExportedLayout } from './layoutData';
 import { Element, Link, FatLinkType, FatClassModel, RichProperty } from './elements';
@@ -19,15 +34,41 @@ export type PreventLinksLoading = { preventLoading?: boolean; };
 export const HAS_RELATION_WITH_IRI = 'http://www.semanticweb.org/tuyenhuynh/ontologies/2017/1/kce#hasRelationWith';
 export const IS_A_IRI = 'http://www.semanticweb.org/tuyenhuynh/ontologies/2017/1/kce#is-a';
 export const SUB_CLASS_OF_IRI = 'http://www.w3.org/2000/01/rdf-schema#subClassOf';
+export const SUB_PROPERTY_OF_IRI = 'http://www.w3.org/2000/01/rdf-schema#subPropertyOf';
 export const THING_IRI = "http://www.w3.org/2002/07/owl#Thing";
+/** Annotation predicates of element position in exported RDF. */
+export const POSITION_X_IRI = KCE_NAMESPACE + 'positionX';
+export const POSITION_Y_IRI = KCE_NAMESPACE + 'positionY';
+/** Type and IRI prefix of nodes which display anonymous class expressions. */
+export const CLASS_EXPRESSION_IRI = KCE_NAMESPACE + 'ClassExpression';
+
+/**
+ * Display mode of anonymous class expressions from class axioms:
+ *     'links' - links from class to each operand typed by expression operator, e.g. `owl:unionOf`;
+ *     'nodes' - compact node for each expression linked to the class and to the operands.
+ */
+export type ClassAxiomsView = 'links' | 'nodes';
+
+const RDF_TYPE_IRI = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const RDFS_LABEL_IRI = 'http://www.w3.org/2000/01/rdf-schema#label';
+const XSD_DOUBLE_IRI = 'http://www.w3.org/2001/XMLSchema#double';
+const OWL_UNION_OF_IRI = 'http://www.w3.org/2002/07/owl#unionOf';
+const OWL_INTERSECTION_OF_IRI = 'http://www.w3.org/2002/07/owl#intersectionOf';
+const OWL_SOME_VALUES_FROM_IRI = 'http://www.w3.org/2002/07/owl#someValuesFrom';
+const OWL_ALL_VALUES_FROM_IRI = 'http://www.w3.org/2002/07/owl#allValuesFrom';
 
 type ChangeVisibilityOptions = { isFromHandler?: boolean };
+/** Link of schema property which displays cardinality of the property on source class, e.g. '0..1'. */
+export type PropertyLinkModel = LinkModel & { cardinality?: string };
 
 /**
  * Model of diagram.
  *
  * Properties:
  *     isViewOnly: boolean
+ *     classAxiomsView: ClassAxiomsView
+ *     kceWeights: KceWeights
+ *     conceptRankingStrategy: ConceptRankingStrategy
  *
  * Events:
  *     state:beginLoad
@@ -37,6 +78,9 @@ type ChangeVisibilityOptions = { isFromHandler?: boolean };
  *     state:renderDone
  *     state:dataLoaded
  *     state:linksInfoCreated
+ *     state:keyConceptsExtracted (keyConcepts: ConceptModel[])
+ *     state:beginComputation (operation: Promise<any>, cancel: () => void)
+ *     state:computationProgress (progress: ComputationProgress)
  *
  *     history:undo
  *     history:redo
@@ -57,8 +101,11 @@ export class DiagramModel extends Backbone.Model {
     private classesById: Dictionary<FatClassModel> = {};
 
     private conceptsById: Dictionary<ConceptModel> = {};
-    private concepts: ConceptModel[] = [];
-    private paths: ConceptModel[][];
+    private keyConceptExtractor: KeyConceptExtractor;
+    /** Ranking of active concept tree by current strategy, requested on first extraction. */
+    private conceptRankingRequest: Promise<ConceptRanking>;
+    private conceptRanking: ConceptRanking;
+    private computationWorker = new ComputationWorker();
     private propertyLabelById: Dictionary<RichProperty> = {};
 
     private nextLinkTypeIndex = 0;
@@ -70,10 +117,11 @@ export class DiagramModel extends Backbone.Model {
     private linkFetchingThread: DataFetchingThread;
     private propertyLabelFetchingThread: DataFetchingThread;
 
-    private keyConcepts: ConceptModel[];
+    private classAxioms: ClassAxiom[] = [];
+    private classExpressionLinks: Link[] = [];
+    private classExpressionElements: Dictionary<Element> = {};
 
-    private calcBasicMetricsOfClassConcepts: boolean = false;
-    private calcBasicMetricsOfInstanceConcepts: boolean = false;
+    private propertySignatures: Promise<PropertySignature[]>;
 
     constructor(isViewOnly = false) {
         super();
@@ -89,12 +137,23 @@ export class DiagramModel extends Backbone.Model {
     get cells(): Backbone.Collection<joint.dia.Cell> { return this.graph.get('cells'); }
     get elements() { return this.graph.getElements() as Element[]; }
     get links() { return this.graph.getLinks() as Link[]; }
+    /** Prefixes to display IRIs of current data provider */
+    get prefixes(): PrefixRegistry {
+        return this.dataProvider && this.dataProvider.prefixes || defaultPrefixRegistry;
+    }
 
     getElement(elementId: string): Element | undefined {
         const cell = this.cells.get(elementId);
         return cell instanceof Element ? cell : undefined;
     }
 
+    /**
+     * Returns concept of active concept tree with computed KCE metrics (e.g. `overallScore`).
+     */
+    getConcept(conceptId: string): ConceptModel | undefined {
+        return this.conceptsById[conceptId];
+    }
+
     getLinkType(linkTypeId: string): FatLinkType | undefined {
         return this.linkTypes[linkTypeId];
     }
@@ -131,7 +190,7 @@ export class DiagramModel extends Backbone.Model {
             } else if (cell.type === 'element') {
                 const {id, position, angle, isExpanded} = cell as LayoutElement;
                 const element = new Element({id, position, angle, isExpanded});
-                element.template = placeholderTemplateFromIri(cell.id);
+                element.template = placeholderTemplateFromIri(cell.id, this.prefixes);
                 superAddCell.call(this.graph, element, options);
                 this.requestElementData([element]);
                 this.requestLinksOfType();
@@ -230,11 +289,168 @@ export class DiagramModel extends Backbone.Model {
         return {layoutData, linkSettings};
     }
 
+    /**
+     * Serializes elements and links with visible types as JSON-LD document;
+     * virtual links between key concepts are exported as `kce:virtualLink` nodes.
+     */
+    exportJsonLd(): JsonLdDocument {
+        const links: LinkModel[] = [];
+        const virtualLinks: LinkModel[] = [];
+        for (const link of this.links) {
+            const type = this.getLinkType(link.typeId);
+            if (!(type && type.get('visible'))) { continue; }
+            const {typeId, sourceId, targetId, directLink} = link;
+            const model: LinkModel = {linkTypeId: typeId, sourceId, targetId, directLink};
+            if (this.isVirtualLink(model)) {
+                virtualLinks.push(model);
+            } else {
+                links.push(model);
+            }
+        }
+        return serializeJsonLd({
+            elements: this.elements.map(element => element.template),
+            links,
+            virtualLinks,
+            prefixes: this.prefixes,
+        });
+    }
+
+    /**
+     * Creates diagram from JSON-LD document (e.g. exported by exportJsonLd()): every node with IRI
+     * is placed on the diagram with data from the document and `kce:virtualLink` nodes are restored
+     * as virtual links.
+     *
+     * Current data provider is kept to explore the diagram further; document itself is used
+     * as data provider only if there is no data provider yet.
+     */
+    importJsonLd(params: {
+        document: JsonLdDocument;
+        linkSettings?: LinkTypeOptions[];
+    }): Promise<void> {
+        const file: RdfFile = {content: JSON.stringify(params.document), type: JSON_LD_FORMAT};
+        if (!this.dataProvider) {
+            return this.importRdfFile({file, linkSettings: params.linkSettings}).then(() => {
+                const {store} = this.dataProvider as RdfFileDataProvider;
+                this.restoreVirtualLinks(readVirtualLinks(store));
+            });
+        }
+        const documentProvider = new RdfFileDataProvider({files: [file]});
+        return documentProvider.loaded.then(() => {
+            const elementIds = getResourceIds(documentProvider);
+            return Promise.all<Dictionary<ElementModel>, LinkType[]>([
+                documentProvider.elementInfo({elementIds}),
+                documentProvider.linkTypes(),
+            ]).then(([elements, linkTypes]) => documentProvider.linksInfo({
+                elementIds,
+                linkTypeIds: linkTypes.map(type => type.id),
+            }).then(links => {
+                this.initLinkSettings(params.linkSettings);
+                return this.initDiagram({
+                    layoutData: layoutFromAnnotations(elementIds, documentProvider) || gridLayout(elementIds),
+                    preloadedElements: elements,
+                    markLinksAsLayoutOnly: false,
+                }).then(() => {
+                    this.onLinkInfoLoaded(links.map(link => ({...link, directLink: true})));
+                    this.restoreVirtualLinks(readVirtualLinks(documentProvider.store));
+                });
+            }));
+        });
+    }
+
+    private restoreVirtualLinks(virtualLinks: LinkModel[]) {
+        const links = virtualLinks.filter(link => this.getElement(link.sourceId) && this.getElement(link.targetId));
+        this.virtualLinks = links;
+        this.onLinkInfoLoaded(links);
+    }
+
+    /**
+     * Serializes types, labels and literal properties of elements and every direct link
+     * (except virtual links between key concepts) as Turtle or N-Triples document.
+     *
+     * @param options.includeLayout - add element positions as `kce:positionX` and `kce:positionY`
+     *     annotation triples which are used by importRdfFile() to restore the layout
+     */
+    exportRdf(options: {
+        format?: RdfSerializationFormat;
+        includeLayout?: boolean;
+    } = {}): string {
+        const {format = 'text/turtle', includeLayout = false} = options;
+        const triples: RdfTriple[] = [];
+        for (const element of this.elements) {
+            if (this.isClassExpression(element.id)) { continue; }
+            const {id, types, label, properties} = element.template;
+            for (const type of types) {
+                triples.push({subject: id, predicate: RDF_TYPE_IRI, object: type});
+            }
+            for (const {text, lang} of label.values) {
+                // skip label generated from IRI when there is no label in data
+                if (!lang && text === this.prefixes.toDisplayName(id)) { continue; }
+                triples.push({subject: id, predicate: RDFS_LABEL_IRI, object: N3.Util.createLiteral(text, lang)});
+            }
+            for (const propertyId of Object.keys(properties)) {
+                for (const value of properties[propertyId].values) {
+                    if (value.type === 'iri') { continue; }
+                    const object = N3.Util.createLiteral(value.text, value.lang || value.datatype);
+                    triples.push({subject: id, predicate: propertyId, object});
+                }
+            }
+            if (includeLayout) {
+                const {x, y} = element.get('position');
+                const positionX = N3.Util.createLiteral(String(x), XSD_DOUBLE_IRI);
+                const positionY = N3.Util.createLiteral(String(y), XSD_DOUBLE_IRI);
+                triples.push({subject: id, predicate: POSITION_X_IRI, object: positionX});
+                triples.push({subject: id, predicate: POSITION_Y_IRI, object: positionY});
+            }
+        }
+        for (const link of this.links) {
+            const {typeId, sourceId, targetId, directLink} = link;
+            if (!directLink || this.isVirtualLink({linkTypeId: typeId, sourceId, targetId, directLink})) { continue; }
+            triples.push({subject: sourceId, predicate: typeId, object: targetId});
+        }
+        return serializeRdf(triples, format);
+    }
+
+    /**
+     * Creates diagram from RDF file without any endpoint: every resource described in the file
+     * is placed on the diagram at position from layout annotations (see exportRdf())
+     * or in a grid if there are no annotations.
+     */
+    importRdfFile(params: {
+        file: RdfFile;
+        linkSettings?: LinkTypeOptions[];
+    }): Promise<void> {
+        const dataProvider = new RdfFileDataProvider({files: [params.file]});
+        return dataProvider.loaded.then(() => {
+            const elementIds = getResourceIds(dataProvider);
+            return this.importLayout({
+                dataProvider,
+                layoutData: layoutFromAnnotations(elementIds, dataProvider) || gridLayout(elementIds),
+                linkSettings: params.linkSettings,
+                validateLinks: true,
+            });
+        });
+    }
+
+    /**
+     * Returns true if link is created between extracted key concepts and doesn't exist in data.
+     */
+    isVirtualLink(link: LinkModel): boolean {
+        return this.virtualLinks.some(virtualLink =>
+            virtualLink.linkTypeId === link.linkTypeId &&
+            virtualLink.sourceId === link.sourceId &&
+            virtualLink.targetId === link.targetId
+        );
+    }
+
     setRegime(regime: string) {
         this.set('regime', regime);
-        if(regime === 'class') {
+        if(regime === 'class' || regime === 'schema') {
             this.setActiveConceptsTreeToClassConceptTree();
         }
+        if (regime === 'schema') {
+            // reload signatures in case schema has been changed
+            this.propertySignatures = undefined;
+        }
     }
 
     /**
@@ -243,10 +459,24 @@ export class DiagramModel extends Backbone.Model {
     setActiveConceptsTreeToClassConceptTree() {
         this.activeConceptTree = this.classConceptTree;
         this.resetConceptList();
-        let path: ConceptModel[] = [];
         this.virtualLinks = [];
-        this.paths = this.calcAllPaths(this.activeConceptTree, path);
+    }
 
+    /**
+     * Switches to 'property' regime where key concepts are extracted
+     * from object and datatype property hierarchies.
+     */
+    requestPropertyConceptsTree(): Promise<void> {
+        if (!this.dataProvider.propertyConceptsTree) {
+            return Promise.reject(new Error('Data provider does not support property hierarchies'));
+        }
+        return this.dataProvider.propertyConceptsTree().then(rootConcept => {
+            if (!rootConcept) {
+                throw new Error('There are no object or datatype properties');
+            }
+            this.setConceptTree(rootConcept, []);
+            this.setRegime('property');
+        });
     }
 
     setConceptTree(rootConcept: ConceptModel, propertyCount: PropertyCount[]) {
@@ -261,52 +491,20 @@ export class DiagramModel extends Backbone.Model {
                 this.conceptsById[item.id].propertyCount = item.count;
             }
         });
-
-        let path: ConceptModel[] = [];
-        this.paths = this.calcAllPaths(this.activeConceptTree, path);
-    }
-
-    private resetConceptList () {
-        this.conceptsById = {};
-        this.concepts = [];
-
-        let addConcept = (concept: ConceptModel) => {
-            this.conceptsById[concept.id] = concept;
-            this.concepts.push(concept);
-            each(concept.children, child => {
-                addConcept(child);
-            });
-        };
-
-        // Reset concept list and concept dictionary
-        addConcept(this.activeConceptTree);
     }
 
-    private calcAllPaths(start: ConceptModel, path: ConceptModel[]): ConceptModel[][] {
-        let result: ConceptModel[][] = [];
-        if(path.indexOf(start) < 0) {
-            let currentPath: ConceptModel[] = clone(path);
-            currentPath.push(start);
-
-            let subConcepts: ConceptModel[] = start.children;
-            if(subConcepts.length == 0) {
-                result.push(currentPath);
-            } else {
-                each(subConcepts, subConcept => {
-                    let subResults: ConceptModel[][] = this.calcAllPaths(subConcept, clone(currentPath));
-                    each(subResults, subResult => {
-                        result.push(subResult);
-                    });
-                });
-            }
-        }
-
-        return result;
+    private resetConceptList() {
+        this.keyConceptExtractor = new KeyConceptExtractor(this.activeConceptTree, this.getKceWeights());
+        this.conceptsById = keyBy(this.keyConceptExtractor.concepts, concept => concept.id);
+        this.conceptRankingRequest = undefined;
+        this.conceptRanking = undefined;
     }
 
     private setClassTree(rootClasses: ClassModel[]) {
         this.classTree = rootClasses;
         const addClass = (cl: ClassTreeElement) => {
+            // classes with several parents are reachable more than once
+            if (this.classesById[cl.id] && this.classesById[cl.id].model === cl) { return; }
             this.classesById[cl.id] = new FatClassModel(cl);
             each(cl.children, addClass);
         };
@@ -373,7 +571,7 @@ export class DiagramModel extends Backbone.Model {
                 if (!template) {
                     elementToRequestData.push(element);
                 }
-                element.template = template || placeholderTemplateFromIri(cell.id);
+                element.template = template || placeholderTemplateFromIri(cell.id, this.prefixes);
                 cellModels.push(element);
             } else if (cell.type === 'link') {
                 const link = new Link(cell);
@@ -410,7 +608,7 @@ export class DiagramModel extends Backbone.Model {
         if (existing) { return existing; }
 
         const model = typeof idOrModel === 'string'
-            ? placeholderTemplateFromIri(idOrModel) : idOrModel;
+            ? placeholderTemplateFromIri(idOrModel, this.prefixes) : idOrModel;
         const element = new Element({id: model.id});
         // Assign temporary template for element. The template with properties, types will be updated
         // after calling onElementInfoLoaded
@@ -452,6 +650,13 @@ export class DiagramModel extends Backbone.Model {
             });
 
             this.onLinkInfoLoaded(links);
+            // reload axioms when elements may have changed, otherwise only show links of newly visible types
+            if (linkTypes) {
+                this.showClassAxioms();
+            } else {
+                // axioms failure should not fail links request
+                this.requestClassAxioms().catch(() => { /* already logged */ });
+            }
         })
         .catch(err => {
             console.error(err);
@@ -467,7 +672,8 @@ export class DiagramModel extends Backbone.Model {
 
         each(concepts, concept => {
             if(concept.parent.length) {
-                let sortedParents = sortBy(concept.allSuperConcepts, function(concept: ConceptModel){
+                const superConcepts = this.keyConceptExtractor.getSuperConcepts(concept);
+                let sortedParents = sortBy(superConcepts, function(concept: ConceptModel){
                     return -concept.level;
                 });
 
@@ -488,6 +694,69 @@ export class DiagramModel extends Backbone.Model {
         });
         this.virtualLinks = virtualLinks;
         this.onLinkInfoLoaded(virtualLinks);
+        if (this.get('regime') === 'schema') {
+            this.requestPropertyLinks(concepts, virtualLinks);
+        }
+    }
+
+    /**
+     * Loads property signatures (if data provider supports them) and connects visualized concepts
+     * by object properties which domains and ranges are the concepts or their superclasses.
+     */
+    private requestPropertyLinks(concepts: ConceptModel[], virtualLinks: LinkModel[]) {
+        if (!this.dataProvider.propertySignatures) { return; }
+        const extractor = this.keyConceptExtractor;
+        this.getPropertySignatures().then(signatures => {
+            // other concepts have been visualized while signatures were loading
+            if (this.virtualLinks !== virtualLinks) { return; }
+            const propertyLinks = this.constructPropertyLinks(concepts, extractor, signatures);
+            virtualLinks.push(...propertyLinks);
+            this.onLinkInfoLoaded(propertyLinks);
+        }).catch(err => {
+            console.error(err);
+        });
+    }
+
+    private getPropertySignatures(): Promise<PropertySignature[]> {
+        if (!this.propertySignatures) {
+            const signatures = this.dataProvider.propertySignatures();
+            this.propertySignatures = signatures;
+            signatures.catch(() => {
+                if (this.propertySignatures === signatures) { this.propertySignatures = undefined; }
+            });
+        }
+        return this.propertySignatures;
+    }
+
+    private constructPropertyLinks(
+        concepts: ConceptModel[], extractor: KeyConceptExtractor, signatures: PropertySignature[]
+    ): PropertyLinkModel[] {
+        const superConcepts: Dictionary<ConceptModel[]> = {};
+        for (const concept of concepts) {
+            superConcepts[concept.id] = extractor.getSuperConcepts(concept);
+        }
+        const links: PropertyLinkModel[] = [];
+        for (const signature of signatures) {
+            const targets = findConceptsOfClasses(concepts, superConcepts, signature.ranges);
+            if (targets.length === 0) { continue; }
+            for (const source of findConceptsOfClasses(concepts, superConcepts, signature.domains)) {
+                const sourceClassIds = [source.id, ...superConcepts[source.id].map(concept => concept.id)];
+                const cardinality = sortBy(
+                    signature.cardinalities.filter(item => sourceClassIds.indexOf(item.classId) >= 0),
+                    item => sourceClassIds.indexOf(item.classId)
+                )[0];
+                for (const target of targets) {
+                    links.push({
+                        linkTypeId: signature.id,
+                        sourceId: source.id,
+                        targetId: target.id,
+                        directLink: false,
+                        cardinality: cardinality ? formatCardinality(cardinality) : undefined,
+                    });
+                }
+            }
+        }
+        return links;
     }
 
     private virtualLinks: LinkModel[] = [];
@@ -504,11 +773,124 @@ export class DiagramModel extends Backbone.Model {
         });
     }
 
+    getClassAxiomsView(): ClassAxiomsView {
+        return this.get('classAxiomsView') || 'links';
+    }
+
+    /**
+     * Switches between links and nodes for anonymous class expressions on the diagram.
+     */
+    setClassAxiomsView(view: ClassAxiomsView) {
+        if (view === this.getClassAxiomsView()) { return; }
+        this.initBatchCommand();
+        this.removeClassExpressions();
+        this.set('classAxiomsView', view);
+        this.showClassAxioms();
+        this.storeBatchCommand();
+    }
+
+    isClassExpression(elementId: string): boolean {
+        return elementId.indexOf(CLASS_EXPRESSION_IRI) === 0;
+    }
+
+    /**
+     * Loads OWL axioms of classes from class tree which are on the diagram (if data provider
+     * supports them) and displays them as links between classes or class expression nodes.
+     */
+    requestClassAxioms() {
+        if (!this.dataProvider.classAxioms) {
+            return Promise.resolve();
+        }
+        const classIds = this.elements.map(element => element.id).filter(id => this.classesById[id]);
+        if (classIds.length === 0) {
+            this.classAxioms = [];
+            return Promise.resolve();
+        }
+        return this.dataProvider.classAxioms({classIds}).then(axioms => {
+            this.classAxioms = axioms;
+            this.showClassAxioms();
+        }).catch(err => {
+            console.error(err);
+            return Promise.reject(err);
+        });
+    }
+
+    private showClassAxioms() {
+        const axioms = this.classAxioms.filter(axiom => this.getElement(axiom.classId));
+        if (axioms.length === 0) { return; }
+        this.initBatchCommand();
+        const view = this.getClassAxiomsView();
+        const expressionsOfClass: Dictionary<number> = {};
+        for (const axiom of axioms) {
+            const {classId, predicate, targetId, expression} = axiom;
+            if (targetId) {
+                this.createLink({linkTypeId: predicate, sourceId: classId, targetId, directLink: true});
+            } else if (view === 'links') {
+                for (const operandId of expression.operandIds) {
+                    this.addClassExpressionLink(expression.operator, classId, operandId);
+                }
+            } else {
+                const index = expressionsOfClass[classId] || 0;
+                expressionsOfClass[classId] = index + 1;
+                const expressionElement = this.createClassExpressionElement(axiom, index);
+                this.addClassExpressionLink(predicate, classId, expressionElement.id);
+                for (const operandId of expression.operandIds) {
+                    this.addClassExpressionLink(expression.operator, expressionElement.id, operandId);
+                }
+            }
+        }
+        this.storeBatchCommand();
+    }
+
+    /**
+     * Expression links are marked as indirect because they don't exist in data as is.
+     */
+    private addClassExpressionLink(linkTypeId: string, sourceId: string, targetId: string) {
+        const link = this.createLink({linkTypeId, sourceId, targetId, directLink: false});
+        if (link && this.classExpressionLinks.indexOf(link) < 0) {
+            this.classExpressionLinks.push(link);
+        }
+    }
+
+    private createClassExpressionElement(axiom: ClassAxiom, index: number): Element {
+        const key = JSON.stringify(axiom);
+        const existing = this.classExpressionElements[key];
+        if (existing && this.getElement(existing.id)) {
+            return existing;
+        }
+
+        const element = this.createElement({
+            id: `${CLASS_EXPRESSION_IRI}_${generateRandomID()}`,
+            types: [CLASS_EXPRESSION_IRI],
+            label: {values: [{text: formatClassExpression(axiom.expression, this.prefixes), lang: ''}]},
+            properties: {},
+        });
+        const {x, y} = this.getElement(axiom.classId).get('position');
+        const OFFSET = 120;
+        element.set('position', {x: x + index * OFFSET, y: y + OFFSET});
+        this.classExpressionElements[key] = element;
+        return element;
+    }
+
+    private removeClassExpressions() {
+        const links = this.links;
+        for (const link of this.classExpressionLinks) {
+            if (links.indexOf(link) >= 0) { link.remove(); }
+        }
+        this.classExpressionLinks = [];
+        each(this.classExpressionElements, element => {
+            if (this.getElement(element.id)) { element.remove(); }
+        });
+        this.classExpressionElements = {};
+    }
+
     private constructVirtualLink (sourceId: string, targetId: string, directLink: boolean) : LinkModel {
         let regime: string = this.get('regime');
         let linkTypeId: string;
         if(regime === 'individual') {
             linkTypeId = targetId === THING_IRI ? IS_A_IRI: HAS_RELATION_WITH_IRI;
+        } else if (regime === 'property') {
+            linkTypeId = SUB_PROPERTY_OF_IRI;
         } else {
             linkTypeId = SUB_CLASS_OF_IRI;
         }
@@ -520,342 +902,157 @@ export class DiagramModel extends Backbone.Model {
         };
     }
 
-    private NC_CONSTANT = 0.3;
-    private WEIGHT_BASIC_LEVEL:number = 0.66;
-    private WEIGHT_NAME_SIMPLICITY: number = 0.33;
-    private WEIGHT_LOCAL_DENSITY = 0.32;
-    private WEIGHT_GLOBAL_DENSITY = 0.08;
-    private WEIGHT_SUBCLASSES : number = 0.8;
-    private WEIGHT_PROPERTIES : number = 0.1;
-    private WEIGHT_INSTANCES: number = 0.1;
-    private WEIGHT_CO: number = 0.6;
-    private WEIGHT_CR: number = 0.4;
-    private RATIO_DISTANCE = 0.1;
-    private WEIGHT_GDL = 0.5;
-    private LOAD_AMOUNT = 5;
-    private maxAGlobalDensity = 0;
+    getKceWeights(): KceWeights {
+        return this.get('kceWeights') || DEFAULT_KCE_WEIGHTS;
+    }
 
     /**
-     * Extract key concepts by using algorithm Key Concepts Extraction
-     *
-     * @param n - number of key concepts to extract
-     * @return - key concepts
+     * Changes weights of Key Concepts Extraction, metrics of concepts are recomputed on next extraction.
      */
-    public extractKeyConcepts(n: number): ConceptModel[]{
-        if(this.activeConceptTree == this.classConceptTree) {
-            if(!this.calcBasicMetricsOfClassConcepts) {
-                this.calcDensityOfConcepts();
-                this.calcNaturalCategoryValueOfConcepts();
-                this.calcScoreOfConcepts();
-                this.calcBasicMetricsOfClassConcepts = true;
-            }
-        } else {
-            if(!this.calcBasicMetricsOfInstanceConcepts) {
-                this.calcDensityOfConcepts();
-                this.calcNaturalCategoryValueOfConcepts();
-                this.calcScoreOfConcepts();
-                this.calcBasicMetricsOfInstanceConcepts = true;
-            }
-        }
-
-        if(n >= this.concepts.length) {
-            this.keyConcepts = this.concepts;
-        } else {
-            // Sort concepts by score
-            this.concepts = sortBy(this.concepts,[function(concept: ConceptModel) {
-               return -concept.score;
-            }]);
-
-            let bestConceptSet: ConceptModel[] = take(this.concepts, n);
-
-            // Calc contribution of each concept in bestConceptSet and average value of them
-            let avgContribution = this.calcContributionOfConcepts(bestConceptSet);
-
-            // Calc overallScore of each concept in bestConceptSet and average value of them
-            let avgOverallScore = this.calcOverallScoreOfConcepts(bestConceptSet);
-
-            // Remain concepts after taking best concepts
-            let remainConcepts: ConceptModel[] =  difference(this.concepts, bestConceptSet);
-
-            for (let i = 0; i < remainConcepts.length; ++i) {
-                // Find concept with the worst overall score
-                let worstOverallScoreConcept = this.findConceptWithWorstOverallScore(bestConceptSet);
-                // Exclude worst concept
-                let excludedWorstScoreConceptSet = difference(bestConceptSet, [worstOverallScoreConcept]);
-
-                // Create new conceptSet to compare scores with current best concept set
-                let newConceptSet = union(excludedWorstScoreConceptSet, [remainConcepts[i]]);
-
-                // Calc contribution of all concepts in newConceptSet
-                let avgContribution1 = this.calcContributionOfConcepts(newConceptSet);
-
-                // Calc overallScore of all concepts in newConceptSet
-                let avgOverallScore1 = this.calcOverallScoreOfConcepts(newConceptSet);
-
-                // Compare score of two sets
-                if(avgOverallScore1 > avgOverallScore && avgContribution1 >= avgContribution) {
-                    bestConceptSet = newConceptSet;
-                    avgContribution = avgContribution1;
-                    avgOverallScore = avgOverallScore1;
-                }
-            }
-
-            // Include root concept if it is not included in bestConceptSet
-            if(bestConceptSet.indexOf(this.activeConceptTree) < 0) {
-                // Find concept with the worst overall score
-                let worstOverallScoreConcept = this.findConceptWithWorstOverallScore(bestConceptSet);
-                // Exclude worst concept
-                let excludedWorstScoreConceptSet = difference(bestConceptSet, [worstOverallScoreConcept]);
-                // Create new conceptSet to compare scores with current best concept set
-                bestConceptSet = union(excludedWorstScoreConceptSet, [this.activeConceptTree]);
-            }
-
-            this.keyConcepts = bestConceptSet;
+    setKceWeights(weights: KceWeights) {
+        this.set('kceWeights', weights);
+        if (this.keyConceptExtractor) {
+            this.keyConceptExtractor.setWeights(weights);
         }
+    }
 
-        return this.keyConcepts;
+    getConceptRankingStrategy(): ConceptRankingStrategy {
+        return this.get('conceptRankingStrategy') || KCE_RANKING_STRATEGY;
     }
 
-    public loadMoreConcepts(conceptId: string) {
-        let concept: ConceptModel = this.conceptsById[conceptId];
-        let unShownConcepts = filter(concept.allSubConcepts, function(subConcept: ConceptModel) { return !subConcept.presentOnDiagram; });
-        unShownConcepts = sortBy(unShownConcepts,[function(concept: ConceptModel) {
-            return -concept.score;
-        }]);
-        return take(unShownConcepts, this.LOAD_AMOUNT);
+    setConceptRankingStrategy(strategy: ConceptRankingStrategy) {
+        this.set('conceptRankingStrategy', strategy);
+        this.conceptRankingRequest = undefined;
+        this.conceptRanking = undefined;
     }
 
-    private findConceptWithWorstOverallScore(concepts: ConceptModel[]): ConceptModel {
-        let worstOverallScore = 2; // The overall score value never exceed 2
-        let result: ConceptModel = undefined;
-        each(concepts, concept => {
-            if(concept.overallScore < worstOverallScore) {
-                worstOverallScore = concept.overallScore;
-                result = concept;
-            }
-        });
-        return result;
+    getComputationWorker(): ComputationWorker {
+        return this.computationWorker;
     }
 
     /**
-     * Calculate contribution of each concept in concepts set and average of those values
-     *
-     * @param concepts
-     * @returns {number} - average contribution
+     * Sets worker to perform key concepts extraction, which runs in main thread by default.
      */
-    private calcContributionOfConcepts(concepts: ConceptModel[]): number {
-        let sumContribution  = 0;
-
-        // Calculate contribution value of each concept in concepts
-        each(concepts, concept => {
-            let coverOfOtherConcepts: ConceptModel[] = [];
-            each(concepts, el => {
-                if(el !== concept) {
-                    coverOfOtherConcepts = union(coverOfOtherConcepts, el.covered);
-                }
-            });
-
-            let contribution = (difference(concept.covered, coverOfOtherConcepts)).length;
-            concept.contribution = contribution;
-            sumContribution += contribution;
-        });
-
-        return sumContribution/concepts.length;
+    setComputationWorker(worker: ComputationWorker) {
+        this.computationWorker = worker;
     }
 
-
     /**
-     * Calc overall score of all class in set concepts
-     * Overall score of each class will be changed according to the set this class is located in
+     * Extract key concepts of active concept tree by current ranking strategy
+     * (Key Concepts Extraction by default)
      *
-     * @param concepts
-     * @returns {number} - average of overall score of each concepts in concepts set
+     * @param n - number of key concepts to extract
+     * @param options - cancellation and progress of extraction in computation worker
+     * @return - key concepts
      */
-    private calcOverallScoreOfConcepts(concepts: ConceptModel[]): number {
-        let sumOverallScore = 0;
-        let maxContribution = this.findMaxContribution(concepts);
-
-        each(concepts, concept =>  {
-            let overallScore = this.WEIGHT_CR * concept.score;
-            // check for situation when maxContribution = 0
-            if(maxContribution !=  0) {
-                overallScore += this.WEIGHT_CO * concept.contribution/maxContribution
-            }
-            concept.overallScore = overallScore;
-            sumOverallScore += overallScore;
-        });
-
-        return sumOverallScore/concepts.length;
-    }
-
-    private findMaxContribution(concepts: ConceptModel[]) {
-        let maxContribution = 0;
-        each(concepts, concept => {
-            if(concept.contribution > maxContribution) {
-                maxContribution = concept.contribution;
+    public extractKeyConcepts(n: number, options: ComputationOptions = {}): Promise<ConceptModel[]> {
+        if (!this.keyConceptExtractor) { return Promise.resolve([]); }
+        const {signal} = options;
+        const extractor = this.keyConceptExtractor;
+        const strategy = this.getConceptRankingStrategy();
+        const keyConcepts = strategy === KCE_RANKING_STRATEGY
+            ? this.extractKeyConceptsInWorker(n, options)
+            : this.getConceptRanking(options).then(ranking => ranking.extract(n));
+        return keyConcepts.then(extracted => {
+            // result is obsolete if concept tree or ranking strategy were changed during extraction
+            const obsolete = this.keyConceptExtractor !== extractor || this.getConceptRankingStrategy() !== strategy;
+            if (obsolete || signal && signal.aborted) {
+                throw createCancelledError();
             }
-        });
-        return maxContribution;
-    }
-
-    /**
-     * Calc score of all classes
-     */
-    private calcScoreOfConcepts() {
-        each(this.concepts, concept => {
-            concept.score = concept.ncValue + concept.density;
+            this.trigger('state:keyConceptsExtracted', extracted);
+            return extracted;
         });
     }
 
-    /**
-     * Calculate name simplicity value of all classes
-     * This method works correctly if each class is an owl classes
-     */
-    private calcNameSimplicityOfConcepts() {
-        each(this.concepts, concept => {
-            let name = uri2name(concept.id);
-            // Concept is named by owl naming convention
-            var numberOfCompound = name.length - name.replace(/[A-Z_]/g, '').length;
-            concept.nameSimplicity = 1 - this.NC_CONSTANT * (numberOfCompound -1);
-            if(concept.nameSimplicity < 0) {
-                concept.nameSimplicity = 0;
+    private extractKeyConceptsInWorker(n: number, options: ComputationOptions): Promise<ConceptModel[]> {
+        const extractor = this.keyConceptExtractor;
+        const weights = extractor.getWeights();
+        return this.computationWorker.extractKeyConcepts({
+            concepts: extractor.concepts,
+            weights,
+            conceptCount: n,
+        }, options).then(state => {
+            // result is obsolete if weights were changed during extraction
+            if (!isEqual(extractor.getWeights(), weights)) {
+                throw createCancelledError();
             }
+            return extractor.importState(state);
         });
     }
 
     /**
-     * Calculate basic level of concepts
+     * @param options - cancellation and progress of ranking computed in worker,
+     * cancelled ranking is computed again on next request
      */
-    private calcBasicLevelOfConcepts() {
-        let max: number = 0;
-        each(this.paths, path => {
-            // Length of path should >= 3
-            if(path.length >= 3) {
-                for(let i = 1; i <path.length -1; ++i) {
-                    let basicLevel = path[i].basicLevel + 1;
-                    path[i].basicLevel = basicLevel;
-                    if(basicLevel > max) {
-                        max = basicLevel;
-                    }
-                }
-            }
-        });
-
-        if(max > 0) {
-            // Normalize basic level of each concepts
-            each(this.concepts, concept => {
-                concept.basicLevel = concept.basicLevel/max;
+    private getConceptRanking(options: ComputationOptions): Promise<ConceptRanking> {
+        if (!this.conceptRankingRequest) {
+            const strategy = this.getConceptRankingStrategy();
+            const extractor = this.keyConceptExtractor;
+            const relations = strategy.requiresRelations
+                ? this.requestConceptRelations() : Promise.resolve<ConceptRelation[]>([]);
+            const request = relations.then((loadedRelations): ConceptRanking | Promise<ConceptRanking> => {
+                const graph: ConceptGraph = {
+                    root: extractor.root,
+                    concepts: extractor.concepts,
+                    relations: loadedRelations,
+                    keyConceptExtractor: extractor,
+                };
+                // betweenness centrality is too slow to compute in main thread on large trees
+                return strategy === BETWEENNESS_CENTRALITY_STRATEGY
+                    ? this.computationWorker.betweennessCentrality({concepts: extractor.concepts}, options)
+                        .then(scores => new ScoredConceptRanking(graph, scores))
+                    : strategy.rank(graph);
+            });
+            this.conceptRankingRequest = request;
+            request.then(ranking => {
+                if (this.conceptRankingRequest === request) { this.conceptRanking = ranking; }
+            }, () => {
+                // allow to retry failed ranking
+                if (this.conceptRankingRequest === request) { this.conceptRankingRequest = undefined; }
             });
         }
+        return this.conceptRankingRequest;
     }
 
     /**
-     * Calculate natural category value of all classes
-     */
-    private calcNaturalCategoryValueOfConcepts () {
-        this.calcNameSimplicityOfConcepts();
-        this.calcBasicLevelOfConcepts();
-        each(this.concepts, concept => {
-            concept.ncValue = this.WEIGHT_BASIC_LEVEL * concept.basicLevel
-                + this.WEIGHT_NAME_SIMPLICITY * concept.nameSimplicity;
-        });
-    }
-
-    /**
-     * Calculate global density, local density and density of each classes
+     * Loads object properties between concepts of active tree from their domains to ranges.
      */
-    private calcDensityOfConcepts() {
-        // Find aGlobalDensity of class and maxAGlobalDensity
-        each(this.concepts, concept => {
-            let aGlobalDensity: number =  concept.children.length * this.WEIGHT_SUBCLASSES
-                + concept.count * this.WEIGHT_INSTANCES
-                + concept.propertyCount * this.WEIGHT_PROPERTIES;
-            concept.aGlobalDensity = aGlobalDensity;
-            if(aGlobalDensity > this.maxAGlobalDensity) {
-                this.maxAGlobalDensity = aGlobalDensity;
+    private requestConceptRelations(): Promise<ConceptRelation[]> {
+        if (!this.dataProvider.propertySignatures) { return Promise.resolve([]); }
+        const conceptsById = this.conceptsById;
+        return this.getPropertySignatures().then(signatures => {
+            const relations: ConceptRelation[] = [];
+            for (const {domains, ranges} of signatures) {
+                for (const sourceId of domains.filter(id => conceptsById[id])) {
+                    for (const targetId of ranges.filter(id => conceptsById[id])) {
+                        relations.push({sourceId, targetId});
+                    }
+                }
             }
-        });
-
-        // Calc global density of concepts
-        this.concepts.forEach(concept => {
-            // Calc global density
-            concept.globalDensity = concept.aGlobalDensity / this.maxAGlobalDensity;
-        });
-
-        // Calc local density of concepts, this calculation should go after calc global
-        this.concepts.forEach(concept => {
-            // Calc local density
-            this.calcLocalDensity(concept);
-            // Calc density
-            concept.density = this.WEIGHT_GLOBAL_DENSITY * concept.globalDensity
-                + this.WEIGHT_LOCAL_DENSITY * concept.localDensity;
+            return relations;
         });
     }
 
     /**
-     * Calculate local density of given class
-     *
-     * @param concept
+     * Returns extractor of key concepts from active concept tree
+     * or undefined if concept tree is not loaded yet.
      */
-    private calcLocalDensity(concept: ConceptModel) {
-        let maxWeightedGlobalDensity = 0;
-        let nearestConcepts = this.getNearestConceptsKLevel(2, concept);
-        each(nearestConcepts, nearestConcept =>  {
-            let weightedGlobalDensity = (1 - (this.RATIO_DISTANCE * Math.abs(concept.level - nearestConcept.level)))
-                * nearestConcept.globalDensity;
-            if(weightedGlobalDensity > maxWeightedGlobalDensity) {
-                maxWeightedGlobalDensity = weightedGlobalDensity;
-            }
-        });
-
-        concept.localDensity = concept.globalDensity/maxWeightedGlobalDensity
-            + this.WEIGHT_GDL * concept.globalDensity;
+    getKeyConceptExtractor(): KeyConceptExtractor {
+        return this.keyConceptExtractor;
     }
 
     /**
-     * Get parents and sub concepts of current concept up to k level
-     *
-     * @param k - number of level
-     * @param concept - concept that is covered by
-     * @returns {ConceptModel[]}
+     * Returns the most important sub concepts of the concept by ranking
+     * of the last extraction.
      */
-    private getNearestConceptsKLevel(k: number, concept: ConceptModel) : ConceptModel[]{
-        let nearestClasses: ConceptModel[] = [];
-        nearestClasses.push(concept);
-
-        let addSubConceptsKLevel = (initLevel: number, concept: ConceptModel, k: number) : ConceptModel[] => {
-            let result:ConceptModel[] = [];
-            if(concept.level  + 1 - initLevel <= k) {
-                each(concept.children, subConcept =>  {
-                    result.push(subConcept);
-                    let subResult: ConceptModel[] = addSubConceptsKLevel(initLevel, subConcept, k);
-                    result = union(result, subResult);
-                });
-            }
-            return result;
-        };
-
-        let addSuperConceptsKLevel = (initLevel: number, concept: ConceptModel, k: number): ConceptModel[] => {
-            let  result: ConceptModel[] = [];
-            if(initLevel - concept.level < k) {
-                each(concept.parent, superConcept => {
-                    result.push(superConcept);
-                    let superResult: ConceptModel[] = addSuperConceptsKLevel(initLevel, superConcept, k);
-                    result = union(result, superResult);
-                });
-            }
-            return result;
-        };
-
-        let subConceptsKLevel:ConceptModel[] = addSubConceptsKLevel(concept.level, concept, k);
-        let superConceptsKLevel: ConceptModel[] = addSuperConceptsKLevel(concept.level, concept, k);
-        nearestClasses = union(nearestClasses, subConceptsKLevel, superConceptsKLevel);
-
-        return nearestClasses;
+    public loadMoreConcepts(conceptId: string): ConceptModel[] {
+        const ranking = this.conceptRanking || this.keyConceptExtractor;
+        return ranking.loadMore(this.conceptsById[conceptId]);
     }
 
     public unShowConcepts() {
-        each(this.concepts, concept =>  {
+        if (!this.keyConceptExtractor) { return; }
+        each(this.keyConceptExtractor.concepts, concept =>  {
             concept.presentOnDiagram = false;
         });
     }
@@ -872,7 +1069,7 @@ export class DiagramModel extends Backbone.Model {
         // create bfs concepts model
         let check: Dictionary<BFSConceptModel> = {};
         check[sourceId] = {id: sourceId, checked: false};
-        each(source.allSuperConcepts, parent => {
+        each(this.keyConceptExtractor.getSuperConcepts(source), parent => {
             let bfsConcept: BFSConceptModel = {id: parent.id, checked: false};
             check[bfsConcept.id] = bfsConcept;
         });
@@ -910,7 +1107,8 @@ export class DiagramModel extends Backbone.Model {
     public getSubConceptInfo(id: string): string {
         let concept: ConceptModel = this.conceptsById[id];
         if(concept) {
-            return '(' + concept.children.length + ',' + concept.indirectSubConcepts.length + ')';
+            const indirectSubConcepts = this.keyConceptExtractor.getIndirectSubConcepts(concept);
+            return '(' + concept.children.length + ',' + indirectSubConcepts.length + ')';
         }
         return '';
     }
@@ -919,7 +1117,7 @@ export class DiagramModel extends Backbone.Model {
         if (!this.propertyLabelById[labelId]) {
             this.propertyLabelById[labelId] = new RichProperty({
                 id: labelId,
-                label: {values: [{lang: '', text: uri2name(labelId)}]},
+                label: {values: [{lang: '', text: this.prefixes.toDisplayName(labelId)}]},
             });
             this.propertyLabelFetchingThread.startFetchingThread(labelId).then(propertyIds => {
                 if (!this.dataProvider.propertyInfo) { return; }
@@ -941,10 +1139,10 @@ export class DiagramModel extends Backbone.Model {
         if (!this.classesById[typeId]) {
             this.classesById[typeId] = new FatClassModel({
                 id: typeId,
-                label: { values: [{lang: '', text: uri2name(typeId)}] },
+                label: { values: [{lang: '', text: this.prefixes.toDisplayName(typeId)}] },
                 count: 0,
                 children: [],
-                parent: undefined,
+                parents: [],
             });
             this.classFetchingThread.startFetchingThread(typeId).then(typeIds => {
                 if (typeIds.length > 0) {
@@ -966,7 +1164,7 @@ export class DiagramModel extends Backbone.Model {
             return this.linkTypes[linkTypeId];
         }
 
-        const defaultLabel = {values: [{text: uri2name(linkTypeId), lang: ''}]};
+        const defaultLabel = {values: [{text: this.prefixes.toDisplayName(linkTypeId), lang: ''}]};
         const fatLinkType = new FatLinkType({
             id: linkTypeId,
             index: this.nextLinkTypeIndex++,
@@ -1001,19 +1199,17 @@ export class DiagramModel extends Backbone.Model {
         }
     }
 
-    private onLinkInfoLoaded(links: LinkModel[]) {
+    private onLinkInfoLoaded(links: PropertyLinkModel[]) {
         this.initBatchCommand();
         for (const linkModel of links) {
-            if(linkModel.linkTypeId !== "http://www.w3.org/2002/07/owl#disjointWith") {
-                this.createLink(linkModel);
-            }
+            this.createLink(linkModel);
         }
         this.trigger('state:linksInfoCreated');
         this.storeBatchCommand();
     }
 
     // Create link after loading from db
-    createLink(linkModel: LinkModel & {
+    createLink(linkModel: PropertyLinkModel & {
         suggestedId?: string;
         vertices?: Array<{ x: number; y: number; }>;
     }, options?: IgnoreCommandHistory): Link | undefined {
@@ -1024,7 +1220,7 @@ export class DiagramModel extends Backbone.Model {
           }
           return existingLink;
         }
-        const {linkTypeId, sourceId, targetId, suggestedId, vertices, directLink} = linkModel;
+        const {linkTypeId, sourceId, targetId, suggestedId, vertices, directLink, cardinality} = linkModel;
         const suggestedIdAvailable = Boolean(suggestedId && !this.cells.get(suggestedId));
 
         // Create link with generation ID
@@ -1035,6 +1231,7 @@ export class DiagramModel extends Backbone.Model {
             target: {id: targetId},
             directLink: directLink,
             vertices,
+            cardinality,
         });
 
         if (this.isSourceAndTargetVisible(link) && this.createLinkType(link.typeId).visible) {
@@ -1085,8 +1282,7 @@ export interface ClassTreeElement {
     label: { values: LocalizedString[] };
     count: number;
     children: ClassTreeElement[];
-    a_attr?: { href: string };
-    parent: string;
+    parents: string[];
 }
 
 export interface LinkTypeOptions {
@@ -1095,15 +1291,49 @@ export interface LinkTypeOptions {
     showLabel?: boolean;
 }
 
-function placeholderTemplateFromIri(iri: string): ElementModel {
+function placeholderTemplateFromIri(iri: string, prefixes: PrefixRegistry): ElementModel {
     return {
         id: iri,
         types: [],
-        label: {values: [{lang: '', text: uri2name(iri)}]},
+        label: {values: [{lang: '', text: prefixes.toDisplayName(iri)}]},
         properties: {},
     };
 }
 
+/** Returns IRIs of resources described in RDF files of the data provider. */
+function getResourceIds(dataProvider: RdfFileDataProvider): string[] {
+    return uniqBy(dataProvider.store.match(), triple => triple.subject)
+        .map(triple => triple.subject)
+        .filter(id => id.indexOf('_:') !== 0);
+}
+
+function layoutFromAnnotations(elementIds: string[], dataProvider: RdfFileDataProvider): LayoutData | undefined {
+    const readCoordinate = (id: string, predicate: string) => {
+        const [literal] = dataProvider.store.objects(id, predicate);
+        return literal ? Number(N3.Util.getLiteralValue(literal)) : NaN;
+    };
+    const cells: LayoutElement[] = [];
+    for (const id of elementIds) {
+        const x = readCoordinate(id, POSITION_X_IRI);
+        const y = readCoordinate(id, POSITION_Y_IRI);
+        if (isNaN(x) || isNaN(y)) { return undefined; }
+        cells.push({type: 'element', id, position: {x, y}});
+    }
+    return {cells};
+}
+
+function gridLayout(elementIds: string[]): LayoutData {
+    const STEP_X = 300;
+    const STEP_Y = 150;
+    const columns = Math.ceil(Math.sqrt(elementIds.length));
+    const cells: LayoutElement[] = elementIds.map((id, index): LayoutElement => ({
+        type: 'element',
+        id,
+        position: {x: (index % columns) * STEP_X, y: Math.floor(index / columns) * STEP_Y},
+    }));
+    return {cells};
+}
+
 function removeLinkFrom(links: Link[], model: LinkModel) {
     if (!links) { return; }
     const index = findLinkIndex(links, model);
@@ -1134,16 +1364,61 @@ function generateRandomID() {
     return randomHalfDigits() + randomHalfDigits();
 }
 
-export function uri2name(uri: string): string {
-    const hashIndex = uri.lastIndexOf('#');
-    if (hashIndex !== -1 && hashIndex !== uri.length - 1) {
-        return uri.substring(hashIndex + 1);
+/**
+ * Formats class expression in description logic notation with CURIEs,
+ * e.g. `foaf:Person ⊔ foaf:Organization` or `∃ ex:worksFor.ex:Company`.
+ */
+function formatClassExpression(
+    {operator, onProperty, operandIds}: ClassExpression, prefixes: PrefixRegistry
+): string {
+    const operands = operandIds.map(id => prefixes.compactIri(id));
+    switch (operator) {
+        case OWL_UNION_OF_IRI:
+            return operands.join(' \u2294 ');
+        case OWL_INTERSECTION_OF_IRI:
+            return operands.join(' \u2293 ');
+        case OWL_SOME_VALUES_FROM_IRI:
+            return `\u2203 ${prefixes.compactIri(onProperty)}.${operands.join(', ')}`;
+        case OWL_ALL_VALUES_FROM_IRI:
+            return `\u2200 ${prefixes.compactIri(onProperty)}.${operands.join(', ')}`;
+        default:
+            return `${prefixes.compactIri(operator)}(${operands.join(', ')})`;
     }
-    const lastPartStart = uri.lastIndexOf('/');
-    if (lastPartStart !== -1 && lastPartStart !== uri.length - 1) {
-        return uri.substring(lastPartStart + 1);
+}
+
+/**
+ * Returns concepts which are the classes or their subclasses, except subclasses
+ * of other found concepts since they inherit properties from these concepts.
+ *
+ * @param superConcepts - super concepts of each concept by its id
+ */
+function findConceptsOfClasses(
+    concepts: ConceptModel[], superConcepts: Dictionary<ConceptModel[]>, classIds: string[]
+): ConceptModel[] {
+    const found = concepts.filter(concept =>
+        classIds.indexOf(concept.id) >= 0 ||
+        superConcepts[concept.id].some(superConcept => classIds.indexOf(superConcept.id) >= 0)
+    );
+    return found.filter(concept =>
+        !superConcepts[concept.id].some(superConcept => found.indexOf(superConcept) >= 0));
+}
+
+/**
+ * Formats cardinality in UML notation, e.g. `1`, `0..1` or `1..*`.
+ */
+function formatCardinality({min, max}: PropertyCardinality): string {
+    if (min !== undefined && min === max) {
+        return String(min);
     }
-    return uri;
+    return `${min === undefined ? 0 : min}..${max === undefined ? '*' : max}`;
+}
+
+/**
+ * Returns CURIE for IRI from default prefix registry, e.g. `foaf:Person`,
+ * or local name of IRI if there is no matching prefix.
+ */
+export function uri2name(uri: string): string {
+    return defaultPrefixRegistry.toDisplayName(uri);
 }
 
 export function chooseLocalizedText(texts: LocalizedString[], language: string): LocalizedString {
@@ -4,7 +4,9 @@ import * as React from 'react';
 import { render as reactDOMRender, unmountComponentAtNode } from 'react-dom';
 import { debounce } from 'lodash';
 
+import { isCancelledError } from '../data/cancellation';
 import { Spinner, Props as SpinnerProps } from '../viewUtils/spinner';
+import { ComputationProgress } from '../worker/protocol';
 
 import { DiagramModel } from './model';
 
@@ -27,6 +29,11 @@ export interface ZoomOptions {
     pivot?: { x: number; y: number; };
 }
 
+export interface IndicatorOptions {
+    /** Shows cancel button which calls this handler. */
+    onCancel?: () => void;
+}
+
 export class PaperArea extends React.Component<Props, {}> {
     private readonly listener = new Backbone.Model();
 
@@ -34,6 +41,9 @@ export class PaperArea extends React.Component<Props, {}> {
     private paper: joint.dia.Paper;
 
     private spinnerElement: SVGGElement;
+    /** Operation which progress is displayed by the indicator. */
+    private indicatedOperation: Promise<any>;
+    private indicatorOptions: IndicatorOptions = {};
 
     private pageSize: { x: number; y: number; };
 
@@ -97,6 +107,10 @@ export class PaperArea extends React.Component<Props, {}> {
         const model = this.props.model;
         this.listener.listenTo(model, 'state:beginLoad', () => this.showIndicator());
         this.listener.listenTo(model, 'state:beginLoadConceptRelations', () => this.showIndicator());
+        this.listener.listenTo(model, 'state:beginComputation',
+            (operation: Promise<any>, cancel: () => void) => this.showIndicator(operation, {onCancel: cancel}));
+        this.listener.listenTo(model, 'state:computationProgress',
+            (progress: ComputationProgress) => this.updateIndicator(progress));
         this.listener.listenTo(model, 'state:endLoadConceptRelations', (err: any) => {
             this.renderLoadingLinks(err);
         });
@@ -417,20 +431,46 @@ export class PaperArea extends React.Component<Props, {}> {
         reactDOMRender(<Spinner position={position} {...props} />, this.spinnerElement);
     }
 
-    showIndicator(operation?: Promise<any>) {
+    showIndicator(operation?: Promise<any>, options: IndicatorOptions = {}) {
         this.centerTo();
-        this.renderSpinner();
+        this.indicatedOperation = operation;
+        this.indicatorOptions = options;
+        this.renderSpinner({onCancel: options.onCancel});
 
         if (operation) {
             operation.then(() => {
-                unmountComponentAtNode(this.spinnerElement);
+                if (this.indicatedOperation !== operation) { return; }
+                this.hideIndicator();
             }).catch(error => {
-                console.error(error);
-                this.renderSpinner({statusText: 'Unknown error occured', errorOccured: true});
+                if (this.indicatedOperation !== operation) { return; }
+                if (isCancelledError(error)) {
+                    this.hideIndicator();
+                } else {
+                    console.error(error);
+                    this.indicatorOptions = {};
+                    this.renderSpinner({statusText: 'Unknown error occured', errorOccured: true});
+                }
             });
         }
     }
 
+    /**
+     * Displays progress of the operation passed to `showIndicator()`.
+     */
+    updateIndicator(progress: ComputationProgress) {
+        const {statusText, fraction} = progress;
+        this.renderSpinner({
+            statusText: fraction === undefined ? statusText : `${statusText} ${Math.round(fraction * 100)}%`,
+            onCancel: this.indicatorOptions.onCancel,
+        });
+    }
+
+    private hideIndicator() {
+        this.indicatedOperation = undefined;
+        this.indicatorOptions = {};
+        unmountComponentAtNode(this.spinnerElement);
+    }
+
     private renderLoadingLinks(error: any) {
         if(error) {
             this.renderSpinner({statusText: "Can not load concept relations", errorOccured: true});
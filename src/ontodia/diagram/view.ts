@@ -27,8 +27,10 @@ import {
 } from '../viewUtils/toSvg';
 
 import { Dictionary, ElementModel, LocalizedString, ConceptModel } from '../data/model';
+import { Cancellation, createCancelledError } from '../data/cancellation';
+import { ComputationWorker, ComputationOptions } from '../worker/computationWorker';
 
-import { DiagramModel, chooseLocalizedText, uri2name, HAS_RELATION_WITH_IRI, SUB_CLASS_OF_IRI } from './model';
+import { DiagramModel, chooseLocalizedText, HAS_RELATION_WITH_IRI, SUB_CLASS_OF_IRI } from './model';
 import { Element, FatClassModel, linkMarkerKey , Link} from './elements';
 
 import { LinkView } from './linkView';
@@ -41,6 +43,11 @@ export interface DiagramViewOptions {
     linkStyleResolvers?: LinkStyleResolver[];
     templatesResolvers?: TemplateResolver[];
     disableDefaultHalo?: boolean;
+    /**
+     * URL of the computation worker bundle (`ontodia-worker.js`) to extract key concepts
+     * and perform layout without blocking UI; computations run in main thread if not specified.
+     */
+    workerUrl?: string;
 }
 
 export interface TypeStyle {
@@ -66,6 +73,8 @@ export class DiagramView extends Backbone.Model {
 
     private recentlyExtractedElements: Element[];
     private visualizedConcepts: ConceptModel[] = [];
+    /** Cancellation of key concepts visualization in progress. */
+    private visualization: Cancellation;
 
     readonly selection = new Backbone.Collection<Element>();
 
@@ -120,9 +129,19 @@ export class DiagramView extends Backbone.Model {
         this.listenTo(this.model, 'state:dataLoaded', () => {
             this.model.resetHistory();
         });
+
+        if (options.workerUrl) {
+            const worker = new ComputationWorker(options.workerUrl);
+            this.model.setComputationWorker(worker);
+            this.onDispose(() => worker.terminate());
+        }
     }
 
     public clearPaper() {
+        if (this.visualization) {
+            this.visualization.abort();
+            this.visualization = undefined;
+        }
         this.model.graph.trigger('batch:start');
         let elements = this.model.elements;
         for (const element of elements) {
@@ -133,36 +152,66 @@ export class DiagramView extends Backbone.Model {
         this.model.unShowConcepts();
     }
 
-    visualizeKeyConcepts(conceptCount: number) {
+    /**
+     * Clears the paper and adds key concepts to it; progress of extraction
+     * is displayed on paper with a button to cancel it.
+     *
+     * Visualization in progress is cancelled when paper is cleared or another one is started.
+     */
+    visualizeKeyConcepts(conceptCount: number): Promise<void> {
         this.clearPaper();
-        let keyConcepts: ConceptModel[] = this.model.extractKeyConcepts(conceptCount);
+        const cancellation = new Cancellation();
+        this.visualization = cancellation;
+        return this.runComputation(options => this.model.extractKeyConcepts(conceptCount, options), cancellation)
+            .then(keyConcepts => {
+                if (cancellation.signal.aborted) {
+                    throw createCancelledError();
+                }
+                this.visualization = undefined;
+                this.addKeyConcepts(keyConcepts);
+            });
+    }
+
+    /**
+     * Runs the computation while showing its progress with a cancel button on the paper.
+     *
+     * @param cancellation - cancels the computation in addition to the button
+     * @returns result of computation or CancelledError if it was cancelled
+     */
+    runComputation<T>(
+        computation: (options: ComputationOptions) => Promise<T>,
+        cancellation = new Cancellation(),
+    ): Promise<T> {
+        const operation = computation({
+            signal: cancellation.signal,
+            onProgress: progress => this.model.trigger('state:computationProgress', progress),
+        });
+        this.model.trigger('state:beginComputation', operation, () => cancellation.abort());
+        return operation;
+    }
+
+    private addKeyConcepts(keyConcepts: ConceptModel[]) {
         this.model.initBatchCommand();
         let elementsToSelect: Element[] = [];
 
-        let totalXOffset = 0;
         let x = 300, y = 300;
+        each(keyConcepts, el => {
+            const element = this.createElementAt(el.id, {x: x, y: y, center:false});
+            x += element.get('size').width;
+            if(x >800) {
+                x = 300;
+                y += element.get('size').height + 50;
+            }
+            elementsToSelect.push(element);
+            el.presentOnDiagram = true;
+        });
 
-        // This will fix element selection error
-        setTimeout(() => {
-            each(keyConcepts, el => {
-                const element = this.createElementAt(el.id, {x: x, y: y, center:false});
-                x += element.get('size').width;
-                if(x >800) {
-                    totalXOffset = 0;
-                    x = 300;
-                    y += element.get('size').height + 50;
-                }
-                elementsToSelect.push(element);
-                el.presentOnDiagram = true;
-            });
-
-            this.visualizedConcepts = keyConcepts;
-            this.model.requestElementData(elementsToSelect);
-            this.model.createVirtualLinksBetweenVisualizedConcepts(this.visualizedConcepts);
-            this.model.requestLinksOfType();
-            this.selection.reset(elementsToSelect);
-            this.model.storeBatchCommand();
-        }, 100);
+        this.visualizedConcepts = keyConcepts;
+        this.model.requestElementData(elementsToSelect);
+        this.model.createVirtualLinksBetweenVisualizedConcepts(this.visualizedConcepts);
+        this.model.requestLinksOfType();
+        this.selection.reset(elementsToSelect);
+        this.model.storeBatchCommand();
     }
 
     getLanguage(): string { return this.get('language'); }
@@ -495,6 +544,33 @@ export class DiagramView extends Backbone.Model {
         this.model.storeBatchCommand();
     }
 
+    /**
+     * Adds element referenced from property value of source element next to it
+     * or focuses on the element if it is already on the diagram.
+     */
+    addReferencedElement(source: Element, elementId: string) {
+        const existing = this.model.getElement(elementId);
+        if (existing) {
+            this.selection.reset([existing]);
+            existing.focus();
+            return;
+        }
+
+        this.model.initBatchCommand();
+
+        const OFFSET = 50;
+        const {x, y} = source.get('position');
+        const {width} = source.get('size');
+        const element = this.createElementAt(elementId, {x: x + width + OFFSET, y});
+
+        this.model.requestElementData([element]);
+        this.model.requestLinksOfType();
+        this.selection.reset([element]);
+        element.focus();
+
+        this.model.storeBatchCommand();
+    }
+
     //Create element from given id. Add element to model if element does not exist in model.
     public createElementAt(elementId: string, position: { x: number; y: number; center?: boolean; }) {
         const element = this.model.createElement(elementId);
@@ -532,13 +608,13 @@ export class DiagramView extends Backbone.Model {
 
     public getElementTypeLabel(type: FatClassModel): LocalizedString {
         const label = this.getLocalizedText(type.get('label').values);
-        return label ? label : { text: uri2name(type.id), lang: '' };
+        return label ? label : { text: this.model.prefixes.toDisplayName(type.id), lang: '' };
     }
 
     public getLinkLabel(linkTypeId: string): LocalizedString {
         const type = this.model.getLinkType(linkTypeId);
         const label = type ? this.getLocalizedText(type.get('label').values) : null;
-        return label ? label : { text: uri2name(linkTypeId), lang: '' };
+        return label ? label : { text: this.model.prefixes.toDisplayName(linkTypeId), lang: '' };
     }
 
     /**
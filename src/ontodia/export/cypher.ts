@@ -0,0 +1,56 @@
+import { getLocalName } from '../data/prefixRegistry';
+
+import { ExportedGraph, ExportedNode, ExportedEdge, toHexColor } from './exportedGraph';
+
+/** Label of every created node to look up diagram nodes by `iri` property. */
+const RESOURCE_LABEL = 'Resource';
+
+/**
+ * Writes graph as a single Cypher `CREATE` statement for Neo4j; node labels
+ * and relationship types are local names of element types and link types.
+ */
+export function writeCypher(graph: ExportedGraph): string {
+    if (graph.nodes.length === 0) { return ''; }
+    const clauses = [
+        ...graph.nodes.map(writeNode),
+        ...graph.edges.map(writeEdge),
+    ];
+    return 'CREATE\n  ' + clauses.join(',\n  ') + ';\n';
+}
+
+function writeNode(node: ExportedNode): string {
+    const labels = [RESOURCE_LABEL, ...node.types.map(getLocalName)]
+        .filter((label, index, array) => array.indexOf(label) === index)
+        .map(quoteName).join(':');
+    const properties = [
+        `iri: ${quoteString(node.iri)}`,
+        `label: ${quoteString(node.label)}`,
+        `types: [${node.types.map(quoteString).join(', ')}]`,
+        `x: ${node.x}`,
+        `y: ${node.y}`,
+        `color: ${quoteString(toHexColor(node.color))}`,
+    ];
+    if (node.metrics) {
+        const {score, overallScore, level} = node.metrics;
+        properties.push(`score: ${score}`, `overallScore: ${overallScore}`, `level: ${level}`);
+    }
+    return `(${node.id}:${labels} {${properties.join(', ')}})`;
+}
+
+function writeEdge(edge: ExportedEdge): string {
+    const properties = `{iri: ${quoteString(edge.typeIri)}, label: ${quoteString(edge.label)}}`;
+    return `(${edge.source})-[:${quoteName(getLocalName(edge.typeIri))} ${properties}]->(${edge.target})`;
+}
+
+function quoteName(name: string): string {
+    return '`' + name.replace(/`/g, '``') + '`';
+}
+
+function quoteString(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, '\\\'')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n');
+    return `'${escaped}'`;
+}
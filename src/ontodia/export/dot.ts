@@ -0,0 +1,48 @@
+import { ExportedGraph, ExportedNode, ExportedEdge, toHexColor } from './exportedGraph';
+
+/** Graphviz measures node size in inches and positions in points. */
+const POINTS_PER_INCH = 72;
+
+/**
+ * Writes graph as Graphviz DOT digraph; node positions are pinned (`pos="x,y!"`)
+ * so `neato -n` reproduces diagram layout while `dot` computes its own one.
+ */
+export function writeDot(graph: ExportedGraph): string {
+    return 'digraph diagram {\n' +
+        '  node [shape=box, style="rounded,filled", fontname="Helvetica"];\n' +
+        '  edge [fontname="Helvetica", fontsize=10];\n' +
+        graph.nodes.map(writeNode).join('') +
+        graph.edges.map(writeEdge).join('') +
+        '}\n';
+}
+
+function writeNode(node: ExportedNode): string {
+    // Graphviz positions are node centres with Y axis pointing up
+    const x = node.x + node.width / 2;
+    const y = -(node.y + node.height / 2);
+    const attributes = [
+        `label=${quote(node.label)}`,
+        `iri=${quote(node.iri)}`,
+        `fillcolor=${quote(toHexColor(node.color))}`,
+        `pos=${quote(`${x},${y}!`)}`,
+        `width=${node.width / POINTS_PER_INCH}`,
+        `height=${node.height / POINTS_PER_INCH}`,
+    ];
+    if (node.metrics) {
+        const {score, overallScore, level} = node.metrics;
+        attributes.push(`score=${score}`, `overallScore=${overallScore}`, `level=${level}`);
+    }
+    return `  ${node.id} [${attributes.join(', ')}];\n`;
+}
+
+function writeEdge(edge: ExportedEdge): string {
+    return `  ${edge.source} -> ${edge.target} [label=${quote(edge.label)}, iri=${quote(edge.typeIri)}];\n`;
+}
+
+function quote(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\r?\n/g, '\\n');
+    return `"${escaped}"`;
+}
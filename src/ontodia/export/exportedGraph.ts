@@ -0,0 +1,121 @@
+import { hcl, rgb } from 'd3-color';
+
+import { Dictionary } from '../data/model';
+import { DiagramView } from '../diagram/view';
+
+/**
+ * Snapshot of diagram elements and links with resolved labels, geometry
+ * and colours which is written by graph interchange formats.
+ */
+export interface ExportedGraph {
+    nodes: ExportedNode[];
+    edges: ExportedEdge[];
+}
+
+export interface ExportedNode {
+    /** Identifier unique within exported graph, e.g. `n0`. */
+    id: string;
+    iri: string;
+    label: string;
+    types: string[];
+    /** Position of top left corner. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    color: RgbColor;
+    /** KCE metrics, only for elements which are concepts of active concept tree. */
+    metrics?: ConceptMetrics;
+}
+
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface ConceptMetrics {
+    score: number;
+    overallScore: number;
+    level: number;
+}
+
+export interface ExportedEdge {
+    id: string;
+    source: string;
+    target: string;
+    typeIri: string;
+    label: string;
+}
+
+/**
+ * Collects elements and links of visible types in current diagram language.
+ */
+export function collectGraph(view: DiagramView): ExportedGraph {
+    const {model} = view;
+    const nodeIds: Dictionary<string> = {};
+
+    const nodes = model.elements.map((element, index): ExportedNode => {
+        const {id, types, label} = element.template;
+        const {x, y} = element.get('position');
+        const {width, height} = element.get('size');
+        const {color: {h, c, l}} = view.getTypeStyle(id, types, element.get('recentlyExtracted'));
+        const {r, g, b} = rgb(hcl(h, c, l));
+        const node: ExportedNode = {
+            id: `n${index}`,
+            iri: id,
+            label: view.getLocalizedText(label.values).text,
+            types: [...types],
+            x, y, width, height,
+            color: {r: clampColor(r), g: clampColor(g), b: clampColor(b)},
+        };
+        const concept = model.getConcept(id);
+        if (concept) {
+            node.metrics = {
+                score: concept.score || 0,
+                overallScore: concept.overallScore || 0,
+                level: concept.level || 0,
+            };
+        }
+        nodeIds[id] = node.id;
+        return node;
+    });
+
+    const edges: ExportedEdge[] = [];
+    for (const link of model.links) {
+        const type = model.getLinkType(link.typeId);
+        const source = nodeIds[link.sourceId];
+        const target = nodeIds[link.targetId];
+        if (!(type && type.get('visible') && source && target)) { continue; }
+        edges.push({
+            id: `e${edges.length}`,
+            source,
+            target,
+            typeIri: link.typeId,
+            label: view.getLinkLabel(link.typeId).text,
+        });
+    }
+
+    return {nodes, edges};
+}
+
+/**
+ * Returns colour in `#rrggbb` notation.
+ */
+export function toHexColor({r, g, b}: RgbColor): string {
+    return '#' + [r, g, b].map(channel => (channel < 16 ? '0' : '') + channel.toString(16)).join('');
+}
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function clampColor(channel: number): number {
+    // HCL colours with high chroma may be outside of RGB gamut
+    return Math.max(0, Math.min(255, Math.round(channel)));
+}
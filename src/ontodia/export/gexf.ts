@@ -0,0 +1,69 @@
+import { ExportedGraph, ExportedNode, ExportedEdge, escapeXml } from './exportedGraph';
+
+const NODE_ATTRIBUTES = [
+    {id: 'iri', type: 'string'},
+    {id: 'types', type: 'string'},
+    {id: 'score', type: 'double'},
+    {id: 'overallScore', type: 'double'},
+    {id: 'level', type: 'integer'},
+];
+const EDGE_ATTRIBUTES = [
+    {id: 'iri', type: 'string'},
+];
+
+/**
+ * Writes graph as GEXF 1.2 document with `viz` colour, position and size of nodes.
+ */
+export function writeGexf(graph: ExportedGraph): string {
+    const writeAttributes = (cls: string, attributes: Array<{ id: string; type: string }>) =>
+        `    <attributes class="${cls}">\n` +
+        attributes.map(({id, type}) => `      <attribute id="${id}" title="${id}" type="${type}"/>\n`).join('') +
+        '    </attributes>\n';
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<gexf xmlns="http://www.gexf.net/1.2draft" xmlns:viz="http://www.gexf.net/1.2draft/viz" version="1.2">\n' +
+        '  <meta>\n' +
+        '    <creator>Ontodia</creator>\n' +
+        '  </meta>\n' +
+        '  <graph mode="static" defaultedgetype="directed">\n' +
+        writeAttributes('node', NODE_ATTRIBUTES) +
+        writeAttributes('edge', EDGE_ATTRIBUTES) +
+        '    <nodes>\n' +
+        graph.nodes.map(writeNode).join('') +
+        '    </nodes>\n' +
+        '    <edges>\n' +
+        graph.edges.map(writeEdge).join('') +
+        '    </edges>\n' +
+        '  </graph>\n' +
+        '</gexf>\n';
+}
+
+function writeNode(node: ExportedNode): string {
+    const {metrics, color} = node;
+    const values = [
+        writeValue('iri', node.iri),
+        writeValue('types', node.types.join(' ')),
+        metrics ? writeValue('score', String(metrics.score)) : '',
+        metrics ? writeValue('overallScore', String(metrics.overallScore)) : '',
+        metrics ? writeValue('level', String(metrics.level)) : '',
+    ].join('');
+    // GEXF positions are node centres with Y axis pointing up
+    const x = node.x + node.width / 2;
+    const y = -(node.y + node.height / 2);
+    return `      <node id="${node.id}" label="${escapeXml(node.label)}">\n` +
+        '        <attvalues>\n' + values + '        </attvalues>\n' +
+        `        <viz:color r="${color.r}" g="${color.g}" b="${color.b}"/>\n` +
+        `        <viz:position x="${x}" y="${y}" z="0"/>\n` +
+        `        <viz:size value="${Math.max(node.width, node.height) / 2}"/>\n` +
+        '      </node>\n';
+}
+
+function writeEdge(edge: ExportedEdge): string {
+    return `      <edge id="${edge.id}" source="${edge.source}" target="${edge.target}" ` +
+        `label="${escapeXml(edge.label)}">\n` +
+        '        <attvalues>\n' + writeValue('iri', edge.typeIri) + '        </attvalues>\n' +
+        '      </edge>\n';
+}
+
+function writeValue(attribute: string, value: string): string {
+    return `          <attvalue for="${attribute}" value="${escapeXml(value)}"/>\n`;
+}
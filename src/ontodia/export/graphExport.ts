@@ -0,0 +1,35 @@
+import { Dictionary } from '../data/model';
+import { DiagramView } from '../diagram/view';
+
+import { ExportedGraph, collectGraph } from './exportedGraph';
+import { writeGraphMl } from './graphMl';
+import { writeGexf } from './gexf';
+import { writeDot } from './dot';
+import { writeCypher } from './cypher';
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'dot' | 'cypher';
+
+export interface GraphExportFormatInfo {
+    label: string;
+    fileExtension: string;
+    mimeType: string;
+    write: (graph: ExportedGraph) => string;
+}
+
+/**
+ * Graph interchange formats for Gephi, yEd, Graphviz and Neo4j.
+ */
+export const GRAPH_EXPORT_FORMATS: Dictionary<GraphExportFormatInfo> = {
+    graphml: {label: 'GraphML (yEd)', fileExtension: 'graphml', mimeType: 'application/xml', write: writeGraphMl},
+    gexf: {label: 'GEXF (Gephi)', fileExtension: 'gexf', mimeType: 'application/xml', write: writeGexf},
+    dot: {label: 'DOT (Graphviz)', fileExtension: 'dot', mimeType: 'text/vnd.graphviz', write: writeDot},
+    cypher: {label: 'Cypher (Neo4j)', fileExtension: 'cypher', mimeType: 'text/plain', write: writeCypher},
+};
+
+/**
+ * Writes elements and links of visible types with their positions, type colours
+ * and KCE metrics of concepts in specified graph interchange format.
+ */
+export function exportGraph(view: DiagramView, format: GraphExportFormat): string {
+    return GRAPH_EXPORT_FORMATS[format].write(collectGraph(view));
+}
@@ -0,0 +1,86 @@
+import { ExportedGraph, ExportedNode, ExportedEdge, escapeXml, toHexColor } from './exportedGraph';
+
+interface GraphMlKey {
+    id: string;
+    for: 'node' | 'edge';
+    name: string;
+    type: 'string' | 'double' | 'int';
+}
+
+const NODE_KEYS: GraphMlKey[] = [
+    {id: 'd0', for: 'node', name: 'iri', type: 'string'},
+    {id: 'd1', for: 'node', name: 'label', type: 'string'},
+    {id: 'd2', for: 'node', name: 'types', type: 'string'},
+    {id: 'd3', for: 'node', name: 'score', type: 'double'},
+    {id: 'd4', for: 'node', name: 'overallScore', type: 'double'},
+    {id: 'd5', for: 'node', name: 'level', type: 'int'},
+];
+const EDGE_KEYS: GraphMlKey[] = [
+    {id: 'd6', for: 'edge', name: 'iri', type: 'string'},
+    {id: 'd7', for: 'edge', name: 'label', type: 'string'},
+];
+const NODE_GRAPHICS_KEY = 'd8';
+const EDGE_GRAPHICS_KEY = 'd9';
+
+/**
+ * Writes graph as GraphML document with yEd node geometry, fill colour and labels
+ * (`y:ShapeNode` and `y:PolyLineEdge` extensions), which are ignored by other tools.
+ */
+export function writeGraphMl(graph: ExportedGraph): string {
+    const keys = [...NODE_KEYS, ...EDGE_KEYS].map(key =>
+        `  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="${key.type}"/>\n`
+    ).join('') +
+        `  <key id="${NODE_GRAPHICS_KEY}" for="node" yfiles.type="nodegraphics"/>\n` +
+        `  <key id="${EDGE_GRAPHICS_KEY}" for="edge" yfiles.type="edgegraphics"/>\n`;
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"\n' +
+        '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"\n' +
+        '    xmlns:y="http://www.yworks.com/xml/graphml"\n' +
+        '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns ' +
+        'http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd">\n' +
+        keys +
+        '  <graph id="G" edgedefault="directed">\n' +
+        graph.nodes.map(writeNode).join('') +
+        graph.edges.map(writeEdge).join('') +
+        '  </graph>\n' +
+        '</graphml>\n';
+}
+
+function writeNode(node: ExportedNode): string {
+    const {metrics} = node;
+    const data = [
+        writeData('d0', node.iri),
+        writeData('d1', node.label),
+        writeData('d2', node.types.join(' ')),
+        metrics ? writeData('d3', String(metrics.score)) : '',
+        metrics ? writeData('d4', String(metrics.overallScore)) : '',
+        metrics ? writeData('d5', String(metrics.level)) : '',
+    ].join('');
+    return `    <node id="${node.id}">\n` + data +
+        `      <data key="${NODE_GRAPHICS_KEY}">\n` +
+        '        <y:ShapeNode>\n' +
+        `          <y:Geometry x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}"/>\n` +
+        `          <y:Fill color="${toHexColor(node.color)}" transparent="false"/>\n` +
+        `          <y:NodeLabel>${escapeXml(node.label)}</y:NodeLabel>\n` +
+        '          <y:Shape type="roundrectangle"/>\n' +
+        '        </y:ShapeNode>\n' +
+        '      </data>\n' +
+        '    </node>\n';
+}
+
+function writeEdge(edge: ExportedEdge): string {
+    return `    <edge id="${edge.id}" source="${edge.source}" target="${edge.target}">\n` +
+        writeData('d6', edge.typeIri) +
+        writeData('d7', edge.label) +
+        `      <data key="${EDGE_GRAPHICS_KEY}">\n` +
+        '        <y:PolyLineEdge>\n' +
+        '          <y:Arrows source="none" target="standard"/>\n' +
+        `          <y:EdgeLabel>${escapeXml(edge.label)}</y:EdgeLabel>\n` +
+        '        </y:PolyLineEdge>\n' +
+        '      </data>\n' +
+        '    </edge>\n';
+}
+
+function writeData(key: string, value: string): string {
+    return `      <data key="${key}">${escapeXml(value)}</data>\n`;
+}
@@ -0,0 +1,264 @@
+import { each, sortBy, take } from 'lodash';
+
+import { Dictionary, ConceptModel } from '../data/model';
+
+import { KeyConceptExtractor, DEFAULT_LOAD_MORE_COUNT } from './keyConceptExtractor';
+
+/** Directed edge between concepts besides sub concept relation, e.g. object property from domain to range. */
+export interface ConceptRelation {
+    sourceId: string;
+    targetId: string;
+}
+
+/**
+ * Concept tree (which is a DAG when concepts have multiple parents) with additional relations.
+ */
+export interface ConceptGraph {
+    readonly root: ConceptModel;
+    /** Every concept of the tree once. */
+    readonly concepts: ReadonlyArray<ConceptModel>;
+    /** Empty unless strategy `requiresRelations`. */
+    readonly relations: ReadonlyArray<ConceptRelation>;
+    /** Extractor of the same tree, which keeps weights and computed KCE metrics. */
+    readonly keyConceptExtractor: KeyConceptExtractor;
+}
+
+/**
+ * Concepts of graph ranked by a strategy, reused until the graph or strategy is changed.
+ */
+export interface ConceptRanking {
+    /** Selects n key concepts. */
+    extract(n: number): ConceptModel[];
+    /** Returns the most important sub concepts of the concept which aren't present on diagram yet. */
+    loadMore(concept: ConceptModel, count?: number): ConceptModel[];
+}
+
+export interface ConceptRankingStrategy {
+    /** Unique identifier of the strategy, e.g. 'pageRank'. */
+    readonly id: string;
+    readonly label: string;
+    /** True if strategy uses `ConceptGraph.relations` which are loaded from data provider. */
+    readonly requiresRelations?: boolean;
+    rank(graph: ConceptGraph): ConceptRanking;
+}
+
+/**
+ * Ranking of concepts by precomputed score, key concepts are the ones with the best score.
+ */
+export class ScoredConceptRanking implements ConceptRanking {
+    private readonly rankedConcepts: ConceptModel[];
+
+    constructor(private readonly graph: ConceptGraph, private readonly scores: Dictionary<number>) {
+        this.rankedConcepts = sortBy(graph.concepts, concept => -scores[concept.id]);
+    }
+
+    getScore(concept: ConceptModel): number {
+        return this.scores[concept.id];
+    }
+
+    extract(n: number): ConceptModel[] {
+        return take(this.rankedConcepts, n);
+    }
+
+    loadMore(concept: ConceptModel, count = DEFAULT_LOAD_MORE_COUNT): ConceptModel[] {
+        const unShownConcepts = this.graph.keyConceptExtractor.getSubConcepts(concept)
+            .filter(subConcept => !subConcept.presentOnDiagram);
+        return take(sortBy(unShownConcepts, subConcept => -this.scores[subConcept.id]), count);
+    }
+}
+
+export const KCE_RANKING_STRATEGY: ConceptRankingStrategy = {
+    id: 'kce',
+    label: 'KCE',
+    rank: graph => graph.keyConceptExtractor,
+};
+
+export const PAGE_RANK_STRATEGY: ConceptRankingStrategy = {
+    id: 'pageRank',
+    label: 'PageRank',
+    requiresRelations: true,
+    rank: graph => new ScoredConceptRanking(graph, computePageRank(graph)),
+};
+
+export const DEGREE_CENTRALITY_STRATEGY: ConceptRankingStrategy = {
+    id: 'degree',
+    label: 'Degree centrality',
+    rank: graph => new ScoredConceptRanking(graph, computeDegreeCentrality(graph)),
+};
+
+export const BETWEENNESS_CENTRALITY_STRATEGY: ConceptRankingStrategy = {
+    id: 'betweenness',
+    label: 'Betweenness centrality',
+    rank: graph => new ScoredConceptRanking(graph, computeBetweennessCentrality(graph)),
+};
+
+/** Built-in strategies, the first one is the default. */
+export const CONCEPT_RANKING_STRATEGIES: ReadonlyArray<ConceptRankingStrategy> = [
+    KCE_RANKING_STRATEGY,
+    PAGE_RANK_STRATEGY,
+    DEGREE_CENTRALITY_STRATEGY,
+    BETWEENNESS_CENTRALITY_STRATEGY,
+];
+
+export function findConceptRankingStrategy(strategyId: string): ConceptRankingStrategy | undefined {
+    return CONCEPT_RANKING_STRATEGIES.filter(strategy => strategy.id === strategyId)[0];
+}
+
+/**
+ * Computes PageRank of concepts where sub concept links to its parents
+ * and relation source links to relation target.
+ */
+export function computePageRank(graph: ConceptGraph, params: {
+    /** @default 0.85 */
+    damping?: number;
+    /** @default 100 */
+    maxIterations?: number;
+    /** @default 1e-6 */
+    tolerance?: number;
+} = {}): Dictionary<number> {
+    const {damping = 0.85, maxIterations = 100, tolerance = 1e-6} = params;
+    const {ids, outgoing} = buildAdjacency(graph.concepts, graph.relations);
+    const n = ids.length;
+
+    let ranks = ids.map(() => 1 / n);
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+        // rank of concepts without outgoing links is distributed evenly
+        let danglingRank = 0;
+        for (let i = 0; i < n; i++) {
+            if (outgoing[i].length === 0) { danglingRank += ranks[i]; }
+        }
+        const base = (1 - damping) / n + damping * danglingRank / n;
+        const nextRanks = ids.map(() => base);
+        for (let i = 0; i < n; i++) {
+            const share = damping * ranks[i] / outgoing[i].length;
+            for (const target of outgoing[i]) {
+                nextRanks[target] += share;
+            }
+        }
+
+        let change = 0;
+        for (let i = 0; i < n; i++) {
+            change += Math.abs(nextRanks[i] - ranks[i]);
+        }
+        ranks = nextRanks;
+        if (change < tolerance) { break; }
+    }
+    return toScores(ids, ranks);
+}
+
+/**
+ * Computes number of direct super and sub concepts of each concept.
+ */
+export function computeDegreeCentrality(graph: Pick<ConceptGraph, 'concepts'>): Dictionary<number> {
+    const {ids, neighbours} = buildAdjacency(graph.concepts, []);
+    return toScores(ids, neighbours.map(adjacent => adjacent.length));
+}
+
+/**
+ * Computes betweenness centrality of concepts over the concept DAG treated as undirected graph
+ * (Brandes algorithm): concepts which are on many shortest paths between other concepts get higher score.
+ *
+ * Takes O(concepts * links) time, so it's much slower than other strategies on large trees;
+ * `DiagramModel` computes it with `ComputationWorker.betweennessCentrality()` instead of `rank()`.
+ */
+export function computeBetweennessCentrality(graph: Pick<ConceptGraph, 'concepts'>): Dictionary<number> {
+    const {ids, neighbours} = buildAdjacency(graph.concepts, []);
+    const n = ids.length;
+    const centrality = ids.map(() => 0);
+
+    for (let source = 0; source < n; source++) {
+        const stack: number[] = [];
+        const predecessors: number[][] = ids.map((): number[] => []);
+        const pathCounts = ids.map(() => 0);
+        const distances = ids.map(() => -1);
+        pathCounts[source] = 1;
+        distances[source] = 0;
+
+        const queue = [source];
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
+            stack.push(current);
+            for (const next of neighbours[current]) {
+                if (distances[next] < 0) {
+                    distances[next] = distances[current] + 1;
+                    queue.push(next);
+                }
+                if (distances[next] === distances[current] + 1) {
+                    pathCounts[next] += pathCounts[current];
+                    predecessors[next].push(current);
+                }
+            }
+        }
+
+        const dependencies = ids.map(() => 0);
+        while (stack.length > 0) {
+            const current = stack.pop();
+            for (const previous of predecessors[current]) {
+                dependencies[previous] += pathCounts[previous] / pathCounts[current] * (1 + dependencies[current]);
+            }
+            if (current !== source) {
+                centrality[current] += dependencies[current];
+            }
+        }
+    }
+    // each path of undirected graph is counted from both ends
+    return toScores(ids, centrality.map(value => value / 2));
+}
+
+/**
+ * Builds adjacency lists of concepts by index: `outgoing` contains links from sub concepts
+ * to their parents and relations, `neighbours` are direct super and sub concepts.
+ */
+function buildAdjacency(concepts: ReadonlyArray<ConceptModel>, relations: ReadonlyArray<ConceptRelation>) {
+    const ids = concepts.map(concept => concept.id);
+    const indices: Dictionary<number> = {};
+    ids.forEach((id, index) => { indices[id] = index; });
+
+    const outgoing = new AdjacencyLists(ids.length);
+    const neighbours = new AdjacencyLists(ids.length);
+
+    concepts.forEach((concept, index) => {
+        each(concept.parent, parent => {
+            const parentIndex = indices[parent.id];
+            if (parentIndex === undefined) { return; }
+            outgoing.add(index, parentIndex);
+            neighbours.add(index, parentIndex);
+            neighbours.add(parentIndex, index);
+        });
+    });
+
+    for (const {sourceId, targetId} of relations) {
+        const source = indices[sourceId];
+        const target = indices[targetId];
+        if (source !== undefined && target !== undefined) {
+            outgoing.add(source, target);
+        }
+    }
+    return {ids, outgoing: outgoing.lists, neighbours: neighbours.lists};
+}
+
+/** Lists of adjacent nodes by node index without self-loops and duplicate links. */
+class AdjacencyLists {
+    readonly lists: number[][] = [];
+    private readonly added: Dictionary<boolean> = {};
+
+    constructor(nodeCount: number) {
+        for (let i = 0; i < nodeCount; i++) {
+            this.lists.push([]);
+        }
+    }
+
+    add(source: number, target: number) {
+        const key = `${source} ${target}`;
+        if (source !== target && !this.added[key]) {
+            this.added[key] = true;
+            this.lists[source].push(target);
+        }
+    }
+}
+
+function toScores(ids: ReadonlyArray<string>, values: ReadonlyArray<number>): Dictionary<number> {
+    const scores: Dictionary<number> = {};
+    ids.forEach((id, index) => { scores[id] = values[index]; });
+    return scores;
+}
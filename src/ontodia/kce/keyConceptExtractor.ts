@@ -0,0 +1,725 @@
+import { each, sortBy, take } from 'lodash';
+
+import { Dictionary, ConceptModel } from '../data/model';
+import { getLocalName } from '../data/prefixRegistry';
+
+/**
+ * Weights and constants of Key Concepts Extraction algorithm.
+ */
+export interface KceWeights {
+    /**
+     * Decrease of name simplicity for each additional compound of concept name.
+     * @default 0.3
+     */
+    nameCompoundPenalty: number;
+    /**
+     * Weight of basic level in natural category value.
+     * @default 0.66
+     */
+    basicLevel: number;
+    /**
+     * Weight of name simplicity in natural category value.
+     * @default 0.33
+     */
+    nameSimplicity: number;
+    /**
+     * Weight of local density in density.
+     * @default 0.32
+     */
+    localDensity: number;
+    /**
+     * Weight of global density in density.
+     * @default 0.08
+     */
+    globalDensity: number;
+    /**
+     * Weight of direct sub concepts count in global density.
+     * @default 0.8
+     */
+    subConcepts: number;
+    /**
+     * Weight of properties count in global density.
+     * @default 0.1
+     */
+    properties: number;
+    /**
+     * Weight of instances count in global density.
+     * @default 0.1
+     */
+    instances: number;
+    /**
+     * Weight of contribution (concepts covered only by this one) in overall score.
+     * @default 0.6
+     */
+    contribution: number;
+    /**
+     * Weight of score in overall score.
+     * @default 0.4
+     */
+    score: number;
+    /**
+     * Decrease of neighbour global density for each level between concepts in local density.
+     * @default 0.1
+     */
+    distanceRatio: number;
+    /**
+     * Weight of own global density in local density.
+     * @default 0.5
+     */
+    ownGlobalDensity: number;
+}
+
+export const DEFAULT_KCE_WEIGHTS: Readonly<KceWeights> = {
+    nameCompoundPenalty: 0.3,
+    basicLevel: 0.66,
+    nameSimplicity: 0.33,
+    localDensity: 0.32,
+    globalDensity: 0.08,
+    subConcepts: 0.8,
+    properties: 0.1,
+    instances: 0.1,
+    contribution: 0.6,
+    score: 0.4,
+    distanceRatio: 0.1,
+    ownGlobalDensity: 0.5,
+};
+
+/**
+ * Why the concept was (or wasn't) chosen by the last extraction.
+ */
+export interface KeyConceptExplanation {
+    concept: ConceptModel;
+    /** Position of the concept in ranking by score, starting from 1. */
+    rank: number;
+    /** True if the concept is in the last extracted set of key concepts. */
+    isKeyConcept: boolean;
+    /**
+     * Key concept which was replaced by this one while improving the set
+     * of key concepts; undefined if it was taken from the best ranked concepts.
+     */
+    replaced?: ConceptModel;
+    /** Contribution and overall score within extracted set, only for key concepts. */
+    contribution?: number;
+    overallScore?: number;
+}
+
+/** Number of sub concepts added by `loadMore()` by default. */
+export const DEFAULT_LOAD_MORE_COUNT = 5;
+
+/** Metrics of concept computed by the extractor which don't depend on extracted set. */
+export type ConceptMetric = 'aGlobalDensity' | 'globalDensity' | 'localDensity' | 'density'
+    | 'nameSimplicity' | 'basicLevel' | 'ncValue' | 'score';
+
+const CONCEPT_METRICS: ConceptMetric[] = [
+    'aGlobalDensity', 'globalDensity', 'localDensity', 'density', 'nameSimplicity', 'basicLevel', 'ncValue', 'score',
+];
+
+/** Number of candidates to check between progress reports of extraction. */
+const PROGRESS_STEP = 1000;
+
+/**
+ * Computed metrics and the last extracted set of key concepts in plain form which refers to concepts
+ * by index in `KeyConceptExtractor.concepts`, e.g. to pass them to or from a Web Worker.
+ */
+export interface KceState {
+    weights: KceWeights;
+    metrics: { [K in ConceptMetric]: Float64Array };
+    keyConcepts: number[];
+    /** Concept replaced by the key concept at the same position or -1 if nothing was replaced. */
+    replaced: number[];
+}
+
+/**
+ * Key Concepts Extraction over concept tree: computes metrics of concepts
+ * (stored in concept fields, e.g. `score` and `overallScore`) and selects
+ * the set of concepts which summarizes the tree best.
+ *
+ * Concept tree is expected to be built by data provider, i.e. `level` of concepts is already filled.
+ * Concepts are indexed once, so sub, super and covered concepts are computed on demand
+ * and the extraction scales to trees with tens of thousands of concepts.
+ *
+ * Metrics are computed on first request and recomputed only when weights are changed.
+ */
+export class KeyConceptExtractor {
+    /** Every concept of the tree once, even if it has several parents; root concept is the first one. */
+    readonly concepts: ReadonlyArray<ConceptModel>;
+
+    private readonly indices: Dictionary<number> = {};
+    private readonly parents: number[][];
+    private readonly children: number[][];
+    /** Marks of visited concepts for traversals, concept is visited if its mark equals current `stamp`. */
+    private readonly marks: Int32Array;
+    private stamp = 0;
+
+    private weights: KceWeights;
+    private metricsComputed = false;
+    private scores: Float64Array;
+
+    /** Position of each concept in ranking by score, starting from 1. */
+    private ranks: Int32Array;
+    private keyConcepts: ConceptModel[] = [];
+    private replacedConcepts: Dictionary<ConceptModel> = {};
+
+    constructor(readonly root: ConceptModel, weights: KceWeights = DEFAULT_KCE_WEIGHTS) {
+        this.concepts = collectConcepts(root);
+        this.weights = {...weights};
+
+        this.concepts.forEach((concept, index) => {
+            this.indices[concept.id] = index;
+        });
+        const toIndices = (concepts: ConceptModel[]) => concepts
+            .map(concept => this.indices[concept.id])
+            .filter(index => index !== undefined);
+        this.parents = this.concepts.map(concept => toIndices(concept.parent));
+        this.children = this.concepts.map(concept => toIndices(concept.children));
+        this.marks = new Int32Array(this.concepts.length);
+    }
+
+    getWeights(): KceWeights {
+        return {...this.weights};
+    }
+
+    setWeights(weights: KceWeights) {
+        this.weights = {...weights};
+        this.metricsComputed = false;
+        this.keyConcepts = [];
+        this.replacedConcepts = {};
+    }
+
+    /**
+     * Returns concepts sorted by score, from the best one.
+     */
+    rankConcepts(): ConceptModel[] {
+        return this.rankIndices().map(index => this.concepts[index]);
+    }
+
+    /**
+     * Extracts key concepts: starts from concepts with the best score and replaces the worst
+     * of them while it improves both average contribution and average overall score of the set.
+     * Root concept is always included.
+     *
+     * @param n - number of key concepts to extract
+     * @param onProgress - called with fraction of processed candidates from time to time
+     */
+    extract(n: number, onProgress?: (fraction: number) => void): ConceptModel[] {
+        const rankedIndices = this.rankIndices();
+        this.replacedConcepts = {};
+        const size = Math.min(n, rankedIndices.length);
+        if (size <= 0) {
+            this.keyConcepts = [];
+            return [];
+        }
+
+        // set of key concepts is stored in slots, replaced concept gives its slot to the new one
+        const members = rankedIndices.slice(0, size);
+        const coveredByMember = members.map(index => this.getCoveredIndices(index));
+        /** Order of adding concepts to the set to keep it in the same order as the set is built. */
+        const addedOrder = members.map((index, slot) => slot);
+        let lastAddedOrder = size;
+
+        const coverage = new CoverageCounter(this.concepts.length);
+        coveredByMember.forEach((covered, slot) => coverage.add(covered, slot));
+        let contributions = coveredByMember.map(covered => coverage.countUniquelyCovered(covered));
+        let overallScores = this.calcOverallScores(members, contributions);
+        let avgContribution = average(contributions);
+        let avgOverallScore = average(overallScores);
+
+        // candidates are compared with the set without its worst concept,
+        // which changes only when a candidate is accepted
+        let worstSlot = findWorstSlot(overallScores, addedOrder);
+        coverage.remove(coveredByMember[worstSlot], worstSlot, contributions);
+
+        const lostContributions = members.map(() => 0);
+        for (let i = size; i < rankedIndices.length; i++) {
+            if (onProgress && (i - size) % PROGRESS_STEP === 0) {
+                onProgress((i - size) / (rankedIndices.length - size));
+            }
+            const candidate = rankedIndices[i];
+            const covered = this.getCoveredIndices(candidate);
+
+            let candidateContribution = 0;
+            for (let slot = 0; slot < size; slot++) { lostContributions[slot] = 0; }
+            for (const index of covered) {
+                const count = coverage.counts[index];
+                if (count === 0) {
+                    candidateContribution++;
+                } else if (count === 1) {
+                    lostContributions[coverage.slots[index]]++;
+                }
+            }
+            const newContributions = contributions.map((contribution, slot) =>
+                slot === worstSlot ? candidateContribution : contribution - lostContributions[slot]);
+            const newMembers = members.map((member, slot) => slot === worstSlot ? candidate : member);
+            const newOverallScores = this.calcOverallScores(newMembers, newContributions);
+            const newAvgContribution = average(newContributions);
+            const newAvgOverallScore = average(newOverallScores);
+
+            if (newAvgOverallScore > avgOverallScore && newAvgContribution >= avgContribution) {
+                this.replacedConcepts[this.concepts[candidate].id] = this.concepts[members[worstSlot]];
+                members[worstSlot] = candidate;
+                coveredByMember[worstSlot] = covered;
+                addedOrder[worstSlot] = lastAddedOrder++;
+                coverage.add(covered, worstSlot);
+                contributions = newContributions;
+                overallScores = newOverallScores;
+                avgContribution = newAvgContribution;
+                avgOverallScore = newAvgOverallScore;
+
+                worstSlot = findWorstSlot(overallScores, addedOrder);
+                coverage.remove(coveredByMember[worstSlot], worstSlot, contributions);
+            }
+        }
+
+        const rootIndex = 0;
+        if (members.indexOf(rootIndex) < 0) {
+            this.replacedConcepts[this.root.id] = this.concepts[members[worstSlot]];
+            members[worstSlot] = rootIndex;
+            addedOrder[worstSlot] = lastAddedOrder++;
+        }
+
+        const keyIndices = sortBy(members.map((member, slot) => slot), slot => addedOrder[slot])
+            .map(slot => members[slot]);
+        this.updateScoresOfKeyConcepts(keyIndices);
+        this.keyConcepts = keyIndices.map(index => this.concepts[index]);
+        return this.keyConcepts;
+    }
+
+    /**
+     * Explains metrics of the concept for the last extracted set of key concepts.
+     */
+    explain(concept: ConceptModel): KeyConceptExplanation {
+        if (!this.metricsComputed) {
+            this.rankIndices();
+        }
+        const isKeyConcept = this.keyConcepts.indexOf(concept) >= 0;
+        return {
+            concept,
+            rank: this.ranks[this.indices[concept.id]],
+            isKeyConcept,
+            replaced: isKeyConcept ? this.replacedConcepts[concept.id] : undefined,
+            contribution: isKeyConcept ? concept.contribution : undefined,
+            overallScore: isKeyConcept ? concept.overallScore : undefined,
+        };
+    }
+
+    explainAll(): KeyConceptExplanation[] {
+        return this.concepts.map(concept => this.explain(concept));
+    }
+
+    exportState(): KceState {
+        this.computeMetrics();
+        const metrics = {} as KceState['metrics'];
+        for (const metric of CONCEPT_METRICS) {
+            metrics[metric] = new Float64Array(this.concepts.map(concept => concept[metric]));
+        }
+        return {
+            weights: this.getWeights(),
+            metrics,
+            keyConcepts: this.keyConcepts.map(concept => this.indices[concept.id]),
+            replaced: this.keyConcepts.map(concept => {
+                const replaced = this.replacedConcepts[concept.id];
+                return replaced ? this.indices[replaced.id] : -1;
+            }),
+        };
+    }
+
+    /**
+     * Restores metrics and extracted key concepts from the state exported by extractor of the same tree,
+     * e.g. by the one which extracted key concepts in a Web Worker.
+     *
+     * @returns extracted key concepts
+     */
+    importState(state: KceState): ConceptModel[] {
+        if (state.metrics.score.length !== this.concepts.length) {
+            throw new Error('State of key concepts extraction belongs to another concept tree');
+        }
+        this.weights = {...state.weights};
+        this.concepts.forEach((concept, index) => {
+            for (const metric of CONCEPT_METRICS) {
+                concept[metric] = state.metrics[metric][index];
+            }
+        });
+        this.scores = new Float64Array(state.metrics.score);
+        this.metricsComputed = true;
+        this.rankIndices();
+
+        this.replacedConcepts = {};
+        state.keyConcepts.forEach((index, position) => {
+            const replaced = state.replaced[position];
+            if (replaced >= 0) {
+                this.replacedConcepts[this.concepts[index].id] = this.concepts[replaced];
+            }
+        });
+        this.updateScoresOfKeyConcepts(state.keyConcepts);
+        this.keyConcepts = state.keyConcepts.map(index => this.concepts[index]);
+        return this.keyConcepts;
+    }
+
+    /**
+     * Returns sub concepts with the best score which aren't present on diagram yet.
+     */
+    loadMore(concept: ConceptModel, count = DEFAULT_LOAD_MORE_COUNT): ConceptModel[] {
+        this.computeMetrics();
+        const unShownConcepts = this.getSubConcepts(concept).filter(subConcept => !subConcept.presentOnDiagram);
+        return take(sortBy(unShownConcepts, subConcept => -subConcept.score), count);
+    }
+
+    /** Returns direct and indirect sub concepts of the concept. */
+    getSubConcepts(concept: ConceptModel): ConceptModel[] {
+        const index = this.indices[concept.id];
+        this.stamp++;
+        return this.collectSubConcepts(this.children[index], []).map(subIndex => this.concepts[subIndex]);
+    }
+
+    /** Returns direct and indirect super concepts of the concept, the nearest ones first. */
+    getSuperConcepts(concept: ConceptModel): ConceptModel[] {
+        const index = this.indices[concept.id];
+        this.stamp++;
+        return this.collectSuperConcepts(this.parents[index], []).map(superIndex => this.concepts[superIndex]);
+    }
+
+    /** Returns sub concepts of the concept children. */
+    getIndirectSubConcepts(concept: ConceptModel): ConceptModel[] {
+        const index = this.indices[concept.id];
+        this.stamp++;
+        const grandChildren: number[] = [];
+        for (const child of this.children[index]) {
+            grandChildren.push(...this.children[child]);
+        }
+        return this.collectSubConcepts(grandChildren, []).map(subIndex => this.concepts[subIndex]);
+    }
+
+    /** Returns concepts covered by the concept: itself with all its super and sub concepts. */
+    getCoveredConcepts(concept: ConceptModel): ConceptModel[] {
+        return this.getCoveredIndices(this.indices[concept.id]).map(index => this.concepts[index]);
+    }
+
+    private rankIndices(): number[] {
+        this.computeMetrics();
+        const rankedIndices = sortBy(this.concepts.map((concept, index) => index), index => -this.scores[index]);
+        this.ranks = new Int32Array(this.concepts.length);
+        rankedIndices.forEach((index, position) => {
+            this.ranks[index] = position + 1;
+        });
+        return rankedIndices;
+    }
+
+    private getCoveredIndices(index: number): number[] {
+        this.stamp++;
+        this.marks[index] = this.stamp;
+        const covered = [index];
+        this.collectSubConcepts(this.children[index], covered);
+        this.collectSuperConcepts(this.parents[index], covered);
+        return covered;
+    }
+
+    /**
+     * Collects the concepts and their sub concepts which aren't marked by current stamp yet.
+     */
+    private collectSubConcepts(starts: number[], result: number[]): number[] {
+        return this.collectReachable(starts, this.children, result);
+    }
+
+    /**
+     * Collects the concepts and their super concepts which aren't marked by current stamp yet.
+     */
+    private collectSuperConcepts(starts: number[], result: number[]): number[] {
+        return this.collectReachable(starts, this.parents, result);
+    }
+
+    /** Breadth-first traversal from `starts` by `links` between concept indices. */
+    private collectReachable(starts: number[], links: number[][], result: number[]): number[] {
+        const queue: number[] = [];
+        for (const start of starts) {
+            if (this.marks[start] !== this.stamp) {
+                this.marks[start] = this.stamp;
+                queue.push(start);
+            }
+        }
+        for (let i = 0; i < queue.length; i++) {
+            result.push(queue[i]);
+            for (const next of links[queue[i]]) {
+                if (this.marks[next] !== this.stamp) {
+                    this.marks[next] = this.stamp;
+                    queue.push(next);
+                }
+            }
+        }
+        return result;
+    }
+
+    private computeMetrics() {
+        if (this.metricsComputed) { return; }
+        this.calcDensityOfConcepts();
+        this.calcNaturalCategoryValueOfConcepts();
+        this.scores = new Float64Array(this.concepts.length);
+        this.concepts.forEach((concept, index) => {
+            concept.score = concept.ncValue + concept.density;
+            this.scores[index] = concept.score;
+        });
+        this.metricsComputed = true;
+    }
+
+    /**
+     * Overall score of concept depends on the set the concept is located in.
+     */
+    private calcOverallScores(members: number[], contributions: number[]): number[] {
+        const maxContribution = Math.max(0, ...contributions);
+        return members.map((member, slot) => {
+            let overallScore = this.weights.score * this.scores[member];
+            // check for situation when maxContribution = 0
+            if (maxContribution !== 0) {
+                overallScore += this.weights.contribution * contributions[slot] / maxContribution;
+            }
+            return overallScore;
+        });
+    }
+
+    private updateScoresOfKeyConcepts(keyIndices: number[]) {
+        const coverage = new CoverageCounter(this.concepts.length);
+        const coveredByMember = keyIndices.map(index => this.getCoveredIndices(index));
+        coveredByMember.forEach((covered, slot) => coverage.add(covered, slot));
+        const contributions = coveredByMember.map(covered => coverage.countUniquelyCovered(covered));
+        const overallScores = this.calcOverallScores(keyIndices, contributions);
+        keyIndices.forEach((index, slot) => {
+            this.concepts[index].contribution = contributions[slot];
+            this.concepts[index].overallScore = overallScores[slot];
+        });
+    }
+
+    private calcNaturalCategoryValueOfConcepts() {
+        this.calcNameSimplicityOfConcepts();
+        this.calcBasicLevelOfConcepts();
+        each(this.concepts, concept => {
+            concept.ncValue = this.weights.basicLevel * concept.basicLevel
+                + this.weights.nameSimplicity * concept.nameSimplicity;
+        });
+    }
+
+    private calcNameSimplicityOfConcepts() {
+        each(this.concepts, concept => {
+            const numberOfCompounds = countNameCompounds(concept);
+            concept.nameSimplicity = Math.max(0, 1 - this.weights.nameCompoundPenalty * (numberOfCompounds - 1));
+        });
+    }
+
+    /**
+     * Basic level of concept is the number of paths from root to leaves where
+     * the concept is in the middle, normalized by the maximum one.
+     *
+     * Paths aren't enumerated: number of paths through the concept is the number of paths
+     * from the root to it multiplied by the number of paths from it to leaves.
+     */
+    private calcBasicLevelOfConcepts() {
+        const order = this.sortTopologically();
+        const pathsFromRoot = new Float64Array(this.concepts.length);
+        const pathsToLeaves = new Float64Array(this.concepts.length);
+        pathsFromRoot[0] = 1;
+        for (const index of order) {
+            for (const child of this.children[index]) {
+                pathsFromRoot[child] += pathsFromRoot[index];
+            }
+        }
+        for (let i = order.length - 1; i >= 0; i--) {
+            const index = order[i];
+            const children = this.children[index];
+            pathsToLeaves[index] = children.length === 0 ? 1 : 0;
+            for (const child of children) {
+                pathsToLeaves[index] += pathsToLeaves[child];
+            }
+        }
+
+        let max = 0;
+        this.concepts.forEach((concept, index) => {
+            const isRootOrLeaf = index === 0 || this.children[index].length === 0;
+            concept.basicLevel = isRootOrLeaf ? 0 : pathsFromRoot[index] * pathsToLeaves[index];
+            max = Math.max(max, concept.basicLevel);
+        });
+        if (max > 0) {
+            each(this.concepts, concept => {
+                concept.basicLevel = concept.basicLevel / max;
+            });
+        }
+    }
+
+    /**
+     * Returns indices of concepts where each concept goes after all its parents;
+     * concepts on cycles (which are removed when tree is built) are skipped.
+     */
+    private sortTopologically(): number[] {
+        const parentCounts = this.parents.map(parents => parents.length);
+        const order: number[] = [];
+        parentCounts.forEach((count, index) => {
+            if (count === 0) { order.push(index); }
+        });
+        for (let i = 0; i < order.length; i++) {
+            for (const child of this.children[order[i]]) {
+                parentCounts[child]--;
+                if (parentCounts[child] === 0) { order.push(child); }
+            }
+        }
+        return order;
+    }
+
+    private calcDensityOfConcepts() {
+        let maxAGlobalDensity = 0;
+        each(this.concepts, concept => {
+            concept.aGlobalDensity = concept.children.length * this.weights.subConcepts
+                + concept.count * this.weights.instances
+                + (concept.propertyCount || 0) * this.weights.properties;
+            maxAGlobalDensity = Math.max(maxAGlobalDensity, concept.aGlobalDensity);
+        });
+
+        each(this.concepts, concept => {
+            concept.globalDensity = concept.aGlobalDensity / maxAGlobalDensity;
+        });
+
+        // local density depends on global density of neighbours
+        this.concepts.forEach((concept, index) => {
+            this.calcLocalDensity(index);
+            concept.density = this.weights.globalDensity * concept.globalDensity
+                + this.weights.localDensity * concept.localDensity;
+        });
+    }
+
+    private calcLocalDensity(index: number) {
+        const concept = this.concepts[index];
+        let maxWeightedGlobalDensity = 0;
+        for (const nearestIndex of this.getNearestConcepts(index, 2)) {
+            const nearestConcept = this.concepts[nearestIndex];
+            const distance = Math.abs(concept.level - nearestConcept.level);
+            const weightedGlobalDensity = (1 - this.weights.distanceRatio * distance) * nearestConcept.globalDensity;
+            maxWeightedGlobalDensity = Math.max(maxWeightedGlobalDensity, weightedGlobalDensity);
+        }
+        concept.localDensity = concept.globalDensity / maxWeightedGlobalDensity
+            + this.weights.ownGlobalDensity * concept.globalDensity;
+    }
+
+    /**
+     * Returns the concept with its super and sub concepts up to k levels from it.
+     */
+    private getNearestConcepts(index: number, k: number): number[] {
+        const level = this.concepts[index].level;
+        this.stamp++;
+        this.marks[index] = this.stamp;
+        const result = [index];
+        const visit = (related: (current: number) => number[], isNear: (current: number) => boolean) => {
+            const stack = [index];
+            while (stack.length > 0) {
+                const current = stack.pop();
+                if (!isNear(current)) { continue; }
+                for (const next of related(current)) {
+                    if (this.marks[next] !== this.stamp) {
+                        this.marks[next] = this.stamp;
+                        result.push(next);
+                        stack.push(next);
+                    }
+                }
+            }
+        };
+        visit(current => this.children[current], current => this.concepts[current].level + 1 - level <= k);
+        visit(current => this.parents[current], current => level - this.concepts[current].level < k);
+        return result;
+    }
+}
+
+/**
+ * Counts how many concepts of the set cover each concept of the tree; for concepts covered
+ * by a single concept of the set `slots` contains slot of that concept in the set.
+ */
+class CoverageCounter {
+    readonly counts: Int32Array;
+    /** XOR of slots of concepts which cover the concept, i.e. the slot itself if it's covered once. */
+    readonly slots: Int32Array;
+
+    constructor(conceptCount: number) {
+        this.counts = new Int32Array(conceptCount);
+        this.slots = new Int32Array(conceptCount);
+    }
+
+    add(covered: number[], slot: number) {
+        for (const index of covered) {
+            this.counts[index]++;
+            this.slots[index] ^= slot;
+        }
+    }
+
+    /**
+     * Removes concept of the slot from the set and increases contribution of concepts
+     * which become the only ones to cover something.
+     */
+    remove(covered: number[], slot: number, contributions: number[]) {
+        for (const index of covered) {
+            this.counts[index]--;
+            this.slots[index] ^= slot;
+            if (this.counts[index] === 1) {
+                contributions[this.slots[index]]++;
+            }
+        }
+    }
+
+    countUniquelyCovered(covered: number[]): number {
+        let count = 0;
+        for (const index of covered) {
+            if (this.counts[index] === 1) { count++; }
+        }
+        return count;
+    }
+}
+
+/**
+ * Collects concepts in depth-first order without recursion, because trees may be deep.
+ */
+function collectConcepts(root: ConceptModel): ConceptModel[] {
+    const concepts: ConceptModel[] = [];
+    const visited: Dictionary<boolean> = {};
+    const stack = [root];
+    while (stack.length > 0) {
+        const concept = stack.pop();
+        if (visited[concept.id]) { continue; }
+        visited[concept.id] = true;
+        concepts.push(concept);
+        for (let i = concept.children.length - 1; i >= 0; i--) {
+            stack.push(concept.children[i]);
+        }
+    }
+    return concepts;
+}
+
+function average(values: number[]): number {
+    let sum = 0;
+    for (const value of values) { sum += value; }
+    return sum / values.length;
+}
+
+/**
+ * Returns slot of the concept with the worst overall score, the earliest added one if there are several.
+ */
+function findWorstSlot(overallScores: number[], addedOrder: number[]): number {
+    let worstSlot = 0;
+    for (let slot = 1; slot < overallScores.length; slot++) {
+        const score = overallScores[slot];
+        const worstScore = overallScores[worstSlot];
+        if (score < worstScore || (score === worstScore && addedOrder[slot] < addedOrder[worstSlot])) {
+            worstSlot = slot;
+        }
+    }
+    return worstSlot;
+}
+
+/**
+ * Counts words in concept name: human-readable label is split by whitespace,
+ * names without whitespace are considered to follow owl naming convention (CamelCase or snake_case).
+ */
+function countNameCompounds(concept: ConceptModel): number {
+    const labels = concept.label.values;
+    const label = labels.filter(value => value.lang === '')[0] || labels[0];
+    const name = label ? label.text.trim() : getLocalName(concept.id);
+    if (/\s/.test(name)) {
+        return name.split(/\s+/).length;
+    }
+    const localName = name.substring(name.indexOf(':') + 1);
+    return Math.max(1, localName.length - localName.replace(/[A-Z_]/g, '').length);
+}
+
+export default KeyConceptExtractor;
@@ -8,6 +8,7 @@ import DiagramView from '../diagram/view';
 import { chooseLocalizedText } from '../diagram/model';
 
 import { Dictionary, LocalizedString, ElementModel } from '../data/model';
+import { Cancellation, isCancelledError } from '../data/cancellation';
 
 type Label = { values: LocalizedString[] };
 export interface ReactElementModel {
@@ -42,6 +43,9 @@ export class ConnectionsMenu {
     private selectedLink: FatLinkType;
     private objects: ReactElementModel[];
 
+    private readonly linksCancellation = new Cancellation();
+    private objectsCancellation: Cancellation;
+
     public cellView: joint.dia.CellView;
 
     constructor(private options: ConnectionsMenuOptions) {
@@ -79,7 +83,8 @@ export class ConnectionsMenu {
         this.state = 'loading';
         this.links = [];
         this.countMap = {};
-        this.view.model.dataProvider.linkTypesOf({elementId: this.cellView.model.id})
+        const request = {elementId: this.cellView.model.id, signal: this.linksCancellation.signal};
+        this.view.model.dataProvider.linkTypesOf(request)
             .then(linkTypes => {
                 this.state = 'completed';
 
@@ -103,6 +108,7 @@ export class ConnectionsMenu {
                 this.render();
             })
             .catch(err => {
+                if (isCancelledError(err)) { return; }
                 console.error(err);
                 this.state = 'error';
                 this.render();
@@ -110,6 +116,10 @@ export class ConnectionsMenu {
     }
 
     private loadObjects(link: FatLinkType) {
+        if (this.objectsCancellation) { this.objectsCancellation.abort(); }
+        const cancellation = new Cancellation();
+        this.objectsCancellation = cancellation;
+
         this.state = 'loading';
         this.selectedLink = link;
         this.objects = [];
@@ -124,6 +134,7 @@ export class ConnectionsMenu {
                     limit: 100,
                     offset: i * 100,
                     languageCode: this.view.getLanguage(),
+                    signal: cancellation.signal,
                 })
             );
         }
@@ -139,6 +150,7 @@ export class ConnectionsMenu {
             });
             this.render();
         }).catch(err => {
+            if (isCancelledError(err)) { return; }
             console.error(err);
             this.state = 'error';
             this.render();
@@ -241,6 +253,8 @@ export class ConnectionsMenu {
     };
 
     remove() {
+        this.linksCancellation.abort();
+        if (this.objectsCancellation) { this.objectsCancellation.abort(); }
         this.handler.stopListening();
         ReactDOM.unmountComponentAtNode(this.container);
         this.options.paper.el.removeChild(this.container);
@@ -7,6 +7,7 @@ import DiagramView from '../diagram/view';
 import { chooseLocalizedText } from '../diagram/model';
 
 import { ConceptModel } from '../data/model';
+import { defaultPrefixRegistry } from '../data/prefixRegistry';
 import {Link} from "../diagram/elements";
 
 export interface IsAPathMenuOptions {
@@ -175,7 +176,8 @@ export class SuperConceptInPopupMenu extends React.Component<SuperConceptInPopup
         return (
             <li data-conceptId={this.props.concept.id} className='link-in-popup-menu'>
                 <div className='link-in-popup-menu__link-title'
-                     title={'Naviagte to connected by link \'' + fullText + '\' elements'}
+                     title={'Naviagte to connected by link \'' + fullText + '\' elements ('
+                        + defaultPrefixRegistry.compactIri(this.props.concept.id) + ')'}
                 >
                     {fullText}
                 </div>
@@ -6,13 +6,15 @@ export interface Props {
     maxWidth?: number;
     statusText?: string;
     errorOccured?: boolean;
+    /** Shows cancel button below status text if specified. */
+    onCancel?: () => void;
 }
 
 const CLASS_NAME = 'ontodia-spinner';
 
 export class Spinner extends React.Component<Props, void> {
     render() {
-        let {position = {x: 0, y: 0}, size = 50, statusText, errorOccured} = this.props;
+        let {position = {x: 0, y: 0}, size = 50, statusText, errorOccured, onCancel} = this.props;
 
         const textLeftMargin = 5;
         const pathGeometry = 'm3.47,-19.7 a20,20 0 1,1 -6.95,0 m0,0 l-6,5 m6,-5 l-8,-0' +
@@ -26,6 +28,10 @@ export class Spinner extends React.Component<Props, void> {
                     strokeWidth='3' strokeLinecap='round' />
             </g>
             <text style={{dominantBaseline: 'middle'}} x={size / 2 + textLeftMargin}>{statusText}</text>
+            {onCancel ? <text className={`${CLASS_NAME}__cancel`} style={{dominantBaseline: 'middle'}}
+                x={size / 2 + textLeftMargin} y={size / 2} onClick={onCancel}>
+                Cancel
+            </text> : null}
         </g>;
     }
 }
@@ -3,6 +3,7 @@ import * as _ from 'lodash';
 import * as $ from 'jquery';
 
 import { Dictionary } from '../data/model';
+import { defaultPrefixRegistry } from '../data/prefixRegistry';
 
 import { ClassTreeElement } from '../diagram/model';
 import DiagramView from '../diagram/view';
@@ -12,9 +13,20 @@ import DiagramView from '../diagram/view';
 const jstreeJQuery = require<JQueryStatic>('exports?require("jquery")!jstree');
 require('jstree/dist/themes/default/style.css');
 
-interface TreeClassModel extends ClassTreeElement {
-    text?: string;
-    type?: string;
+/**
+ * Node data for jsTree: a class with several parents is shown under each of them,
+ * so node ids are generated and class id is kept in `data`.
+ *
+ * Subclasses of such class are shown only under the first of its nodes to keep
+ * number of nodes linear in the number of subclass relations.
+ */
+interface TreeNode {
+    id: string;
+    text: string;
+    type: string;
+    children: TreeNode[];
+    data: { classId: string };
+    a_attr: { href: string; title: string; class?: string };
 }
 
 export interface ClassTreeOptions extends Backbone.ViewOptions<Backbone.Model> {
@@ -32,6 +44,7 @@ export class ClassTree extends Backbone.View<Backbone.Model> {
     private tree: JQuery = null;
     private rest: JQuery = null;
     private view: DiagramView;
+    private nodes: TreeNode[] = [];
 
     constructor(options: ClassTreeOptions) {
         super(_.extend({className: CLASS_NAME}, options));
@@ -53,17 +66,13 @@ export class ClassTree extends Backbone.View<Backbone.Model> {
             .appendTo(innerDiv);
 
         this.listenTo(this.view.model, 'state:dataLoaded', () => {
-            let model = this.view.model;
-            let tree = model.classTree;
-            const iconMap = this.updateClassLabels(tree);
-            this.setUrls(tree);
+            const iconMap = this.createNodes(this.view.model.classTree);
             this.getJSTree().jstree({
                 'plugins': ['types', 'sort', 'search'],
-                'core': {'data': tree},
+                'core': {'data': this.nodes},
                 'types': iconMap,
-                'sort': (firstClassId: string, secondClassId: string) => {
-                    return (model.getClassesById(firstClassId).model as TreeClassModel).text.localeCompare(
-                        (model.getClassesById(secondClassId).model as TreeClassModel).text);
+                'sort': function (this: JSTree, firstNodeId: string, secondNodeId: string) {
+                    return this.get_text(firstNodeId).localeCompare(this.get_text(secondNodeId));
                 },
                 'search': {
                     'case_insensitive': true,
@@ -72,7 +81,7 @@ export class ClassTree extends Backbone.View<Backbone.Model> {
             });
 
             this.getJSTree().on('select_node.jstree', (e, data) => {
-                this.trigger('action:classSelected', data.selected[0]);
+                this.trigger('action:classSelected', data.node.data.classId);
             });
 
             searchInput.keyup(function (this: HTMLInputElement) {
@@ -82,66 +91,78 @@ export class ClassTree extends Backbone.View<Backbone.Model> {
         });
     }
 
-    private updateClassLabels(roots: ClassTreeElement[]): Dictionary<{icon: string}> {
+    private createNodes(roots: ClassTreeElement[]): Dictionary<{icon: string}> {
         const iconMap: Dictionary<{ icon: string }> = {
             'default': {icon: 'default-tree-icon'},
             'has-not-children': {icon: 'default-tree-icon'},
             'has-children': {icon: 'parent-tree-icon'},
         };
+        const iconTypes: Dictionary<string> = {};
+        // parent of class node with subclasses, or null for root class
+        const expandedUnder: Dictionary<ClassTreeElement | null> = {};
 
-        if (roots) {
-            for (let i = 0; i < roots.length; i++) {
-                let element = roots[i] as TreeClassModel;
+        const createNode = (element: ClassTreeElement, parent: ClassTreeElement | null): TreeNode => {
+            if (!iconTypes.hasOwnProperty(element.id)) {
                 const icon = this.view.getTypeStyle(element.id, [element.id]).icon;
-                let iconId: string;
+                iconTypes[element.id] = icon ? _.uniqueId('iconId') : undefined;
                 if (icon) {
-                    iconId = _.uniqueId('iconId');
-                    iconMap[iconId] = {icon: icon + ' ontodia-tree-icon'};
+                    iconMap[iconTypes[element.id]] = {icon: icon + ' ontodia-tree-icon'};
                 }
-
-                if ('children' in element) {
-                    const innerMap = this.updateClassLabels(element.children);
-                    Object.keys(innerMap).forEach(key => {
-                        iconMap[key] = innerMap[key];
-                    });
-
-                    if (element.children.length !== 0) {
-                        element.type = (iconId ? iconId : 'has-children');
-                    } else {
-                        element.type = (iconId ? iconId : 'has-not-children');
-                    }
-                } else {
-                    element.type = (iconId ? iconId : 'has-not-children');
+            }
+            const expanded = !expandedUnder.hasOwnProperty(element.id);
+            if (expanded) {
+                expandedUnder[element.id] = parent;
+            }
+            const children = expanded ? element.children.map(child => createNode(child, element)) : [];
+            const iconType = iconTypes[element.id];
+
+            const node: TreeNode = {
+                id: _.uniqueId('classNode'),
+                text: this.getNodeText(element),
+                type: iconType || (element.children.length > 0 ? 'has-children' : 'has-not-children'),
+                children,
+                data: {classId: element.id},
+                a_attr: {href: '#' + element.id, title: defaultPrefixRegistry.compactIri(element.id)},
+            };
+            // mark classes shown under several parents and list all of them in tooltip
+            if (element.parents.length > 1) {
+                const parents = element.parents.map(parentId => defaultPrefixRegistry.compactIri(parentId));
+                node.a_attr.title += '\nSubclass of: ' + parents.join(', ');
+                node.a_attr.class = `${CLASS_NAME}__polyhierarchy`;
+                const expandedParent = expandedUnder[element.id];
+                if (!expanded && element.children.length > 0 && expandedParent) {
+                    node.a_attr.title += '\nSubclasses are listed where it is under '
+                        + defaultPrefixRegistry.compactIri(expandedParent.id);
                 }
-
-                element.text = this.view.getLocalizedText(element.label.values).text + ' (' + element.count + ')';
             }
-        }
+            return node;
+        };
 
+        this.nodes = (roots || []).map(root => createNode(root, null));
         return iconMap;
     }
 
+    private getNodeText(element: ClassTreeElement) {
+        return this.view.getLocalizedText(element.label.values).text + ' (' + element.count + ')';
+    }
+
     private getJSTree() {
         return jstreeJQuery(this.tree.get(0));
     }
 
     private onLanguageChanged() {
-        // this.updateClassLabels(this.view.model.classTree);
+        const classTree = this.view.model.classTree;
+        if (!classTree) { return; }
+        const updateTexts = (nodes: TreeNode[]) => nodes.forEach(node => {
+            node.text = this.getNodeText(this.view.model.getClassesById(node.data.classId).model);
+            updateTexts(node.children);
+        });
+        updateTexts(this.nodes);
         let jsTree = this.getJSTree().jstree(true);
-        (jsTree as any).settings.core.data = this.view.model.classTree;
+        (jsTree as any).settings.core.data = this.nodes;
         jsTree.refresh(/* do not show loading indicator */ true, undefined);
     }
 
-    private setUrls(tree: ClassTreeElement[]) {
-        tree.forEach(el => {
-          this.setUrlsRec(el);
-        });
-    }
-    private setUrlsRec(root: ClassTreeElement) {
-        root.a_attr = { href: '#' + root.id };
-        root.children.forEach(el => this.setUrlsRec(el));
-    }
-
     render(): ClassTree {
         this.filter.appendTo(this.$el);
         this.rest.appendTo(this.$el);
@@ -3,6 +3,7 @@ import * as Backbone from 'backbone';
 
 import { Dictionary, ElementModel, LocalizedString } from '../data/model';
 import { FilterParams } from '../data/provider';
+import { Cancellation, isCancelledError } from '../data/cancellation';
 
 import { uri2name } from '../diagram/model';
 import { DiagramView } from '../diagram/view';
@@ -39,6 +40,7 @@ export class InstancesSearch extends React.Component<InstancesSearchProps, State
     private readonly listener = new Backbone.Model();
 
     private currentRequest: FilterParams;
+    private cancellation: Cancellation;
 
     constructor(props: InstancesSearchProps) {
         super(props);
@@ -207,9 +209,19 @@ export class InstancesSearch extends React.Component<InstancesSearchProps, State
     componentWillUnmount() {
         this.listener.stopListening();
         this.currentRequest = undefined;
+        this.abortCurrentRequest();
+    }
+
+    private abortCurrentRequest() {
+        if (this.cancellation) {
+            this.cancellation.abort();
+            this.cancellation = undefined;
+        }
     }
 
     private queryItems(loadMoreItems: boolean) {
+        this.abortCurrentRequest();
+
         let request: FilterParams;
         if (loadMoreItems) {
             if (!this.currentRequest) {
@@ -222,6 +234,7 @@ export class InstancesSearch extends React.Component<InstancesSearchProps, State
         }
 
         if (!(request.text || request.elementTypeId || request.refElementId || request.refElementLinkId)) {
+            this.currentRequest = undefined;
             this.setState({
                 quering: false,
                 error: undefined,
@@ -232,6 +245,9 @@ export class InstancesSearch extends React.Component<InstancesSearchProps, State
             return;
         }
 
+        this.cancellation = new Cancellation();
+        request = {...request, signal: this.cancellation.signal};
+
         this.currentRequest = request;
         this.setState({
             quering: true,
@@ -243,7 +259,7 @@ export class InstancesSearch extends React.Component<InstancesSearchProps, State
             if (this.currentRequest !== request) { return; }
             this.processFilterData(elements);
         }).catch(error => {
-            if (this.currentRequest !== request) { return; }
+            if (this.currentRequest !== request || isCancelledError(error)) { return; }
             console.error(error);
             this.setState({error});
         });
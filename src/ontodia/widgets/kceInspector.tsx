@@ -0,0 +1,221 @@
+import * as React from 'react';
+import * as Backbone from 'backbone';
+import { find, sortBy } from 'lodash';
+
+import { ConceptModel } from '../data/model';
+import { DiagramView } from '../diagram/view';
+import { KeyConceptExplanation } from '../kce/keyConceptExtractor';
+import { KCE_RANKING_STRATEGY } from '../kce/conceptRanking';
+
+export interface KceInspectorProps {
+    view: DiagramView;
+}
+
+export interface State {
+    /** Explanations of every concept for the last extraction of key concepts. */
+    readonly explanations?: ReadonlyArray<KeyConceptExplanation>;
+    readonly selectedId?: string;
+    readonly sortColumn?: string;
+    readonly sortDescending?: boolean;
+    /** Number of rows shown in the table, large trees are shown page by page. */
+    readonly shownRowCount?: number;
+}
+
+interface Column {
+    key: string;
+    label: string;
+    title: string;
+    value: (explanation: KeyConceptExplanation) => number;
+}
+
+const METRIC_COLUMNS: ReadonlyArray<Column> = [
+    {key: 'score', label: 'Score', title: 'Natural category value + density',
+        value: ({concept}) => concept.score},
+    {key: 'ncValue', label: 'NC', title: 'Natural category value',
+        value: ({concept}) => concept.ncValue},
+    {key: 'basicLevel', label: 'BL', title: 'Basic level',
+        value: ({concept}) => concept.basicLevel},
+    {key: 'nameSimplicity', label: 'NS', title: 'Name simplicity',
+        value: ({concept}) => concept.nameSimplicity},
+    {key: 'density', label: 'D', title: 'Density',
+        value: ({concept}) => concept.density},
+    {key: 'globalDensity', label: 'GD', title: 'Global density',
+        value: ({concept}) => concept.globalDensity},
+    {key: 'localDensity', label: 'LD', title: 'Local density',
+        value: ({concept}) => concept.localDensity},
+    {key: 'contribution', label: 'C', title: 'Contribution within key concepts',
+        value: explanation => explanation.contribution},
+    {key: 'overallScore', label: 'OS', title: 'Overall score within key concepts',
+        value: explanation => explanation.overallScore},
+];
+
+const COLUMNS: ReadonlyArray<Column> = [
+    {key: 'rank', label: '#', title: 'Rank by score', value: explanation => explanation.rank},
+    ...METRIC_COLUMNS,
+];
+
+const ROWS_PAGE_SIZE = 200;
+const MAX_SHOWN_COVERED = 100;
+
+const CLASS_NAME = 'ontodia-kce-inspector';
+
+export class KceInspector extends React.Component<KceInspectorProps, State> {
+    private readonly listener = new Backbone.Model();
+
+    constructor(props: KceInspectorProps) {
+        super(props);
+        this.state = {sortColumn: 'rank', sortDescending: false, shownRowCount: ROWS_PAGE_SIZE};
+    }
+
+    render() {
+        const {explanations} = this.state;
+        if (!explanations) {
+            return <div className={CLASS_NAME}>
+                <div className={`${CLASS_NAME}__empty`}>
+                    Visualize with KCE ranking to see why concepts were chosen as key concepts.
+                </div>
+            </div>;
+        }
+        return <div className={CLASS_NAME}>
+            {this.renderSelected()}
+            {this.renderTable()}
+        </div>;
+    }
+
+    private renderSelected() {
+        const selected = find(this.state.explanations, ({concept}) => concept.id === this.state.selectedId);
+        if (!selected) {
+            return <div className={`${CLASS_NAME}__empty`}>
+                Select a concept on the diagram or in the table to see its metrics.
+            </div>;
+        }
+        const {concept, rank, isKeyConcept, replaced} = selected;
+        const covered = this.props.view.model.getKeyConceptExtractor().getCoveredConcepts(concept);
+        return <div className={`${CLASS_NAME}__details`}>
+            <div className={`${CLASS_NAME}__details-heading`} title={concept.id}>
+                {this.getLabel(concept)}
+            </div>
+            <div>
+                Rank <b>{rank}</b> of {this.state.explanations.length} by score,&nbsp;
+                {isKeyConcept ? 'key concept' : 'not a key concept'}
+            </div>
+            {replaced ? <div>
+                Replaced <span className={`${CLASS_NAME}__concept`} title={replaced.id}
+                    onClick={() => this.selectConcept(replaced.id)}>{this.getLabel(replaced)}</span>
+                &nbsp;to improve the set of key concepts
+            </div> : null}
+            <table className={`${CLASS_NAME}__metrics table table-condensed`}>
+                <tbody>
+                    {METRIC_COLUMNS.map(column => <tr key={column.key}>
+                        <td>{column.title}</td>
+                        <td className={`${CLASS_NAME}__number`}>{formatMetric(column.value(selected))}</td>
+                    </tr>)}
+                </tbody>
+            </table>
+            <div>Covers {covered.length} concepts:</div>
+            <ul className={`${CLASS_NAME}__covered`}>
+                {covered.slice(0, MAX_SHOWN_COVERED).map(coveredConcept => <li key={coveredConcept.id}>
+                    <span className={`${CLASS_NAME}__concept`} title={coveredConcept.id}
+                        onClick={() => this.selectConcept(coveredConcept.id)}>
+                        {this.getLabel(coveredConcept)}
+                    </span>
+                </li>)}
+                {covered.length > MAX_SHOWN_COVERED ? <li>
+                    and {covered.length - MAX_SHOWN_COVERED} more
+                </li> : null}
+            </ul>
+        </div>;
+    }
+
+    private renderTable() {
+        const {explanations, sortColumn, sortDescending, selectedId, shownRowCount} = this.state;
+        const column = find(COLUMNS, ({key}) => key === sortColumn);
+        // concepts without value (e.g. contribution of non-key concepts) are always at the end
+        const sorted = sortBy(explanations, explanation => {
+            const value = column.value(explanation);
+            return value === undefined ? Infinity : (sortDescending ? -value : value);
+        });
+
+        return <div>
+            <table className={`${CLASS_NAME}__table table table-condensed table-hover`}>
+                <thead>
+                    <tr>
+                        <th>Concept</th>
+                        {COLUMNS.map(({key, label, title}) => <th key={key} title={title}
+                            className={`${CLASS_NAME}__sortable`}
+                            onClick={() => this.setState({
+                                sortColumn: key,
+                                sortDescending: key === sortColumn ? !sortDescending : key !== 'rank',
+                            })}>
+                            {label}
+                            {key === sortColumn ? <span className={
+                                `fa fa-sort-${sortDescending ? 'desc' : 'asc'}`} aria-hidden='true' /> : null}
+                        </th>)}
+                    </tr>
+                </thead>
+                <tbody>
+                    {sorted.slice(0, shownRowCount).map(explanation => <tr key={explanation.concept.id}
+                        className={[
+                            explanation.isKeyConcept ? `${CLASS_NAME}__key-concept` : '',
+                            explanation.concept.id === selectedId ? 'active' : '',
+                        ].join(' ')}
+                        onClick={() => this.selectConcept(explanation.concept.id)}>
+                        <td title={explanation.concept.id}>{this.getLabel(explanation.concept)}</td>
+                        {COLUMNS.map(({key, value}) => <td key={key} className={`${CLASS_NAME}__number`}>
+                            {key === 'rank' ? value(explanation) : formatMetric(value(explanation))}
+                        </td>)}
+                    </tr>)}
+                </tbody>
+            </table>
+            {explanations.length > shownRowCount ? <button type='button'
+                className={`${CLASS_NAME}__show-more btn btn-default btn-sm`}
+                onClick={() => this.setState({shownRowCount: shownRowCount + ROWS_PAGE_SIZE})}>
+                Show more ({explanations.length - shownRowCount} left)
+            </button> : null}
+        </div>;
+    }
+
+    private getLabel(concept: ConceptModel) {
+        return this.props.view.getLocalizedText(concept.label.values).text;
+    }
+
+    private selectConcept(conceptId: string) {
+        const element = this.props.view.model.getElement(conceptId);
+        if (element) {
+            this.props.view.selection.reset([element]);
+        } else {
+            this.setState({selectedId: conceptId});
+        }
+    }
+
+    componentDidMount() {
+        const {view} = this.props;
+        this.listener.listenTo(view, 'change:language', () => this.forceUpdate());
+        this.listener.listenTo(view.model, 'state:keyConceptsExtracted', () => {
+            // other ranking strategies don't compute KCE metrics
+            const explanations = view.model.getConceptRankingStrategy() === KCE_RANKING_STRATEGY
+                ? view.model.getKeyConceptExtractor().explainAll() : undefined;
+            this.setState({explanations, shownRowCount: ROWS_PAGE_SIZE});
+        });
+        // metrics are obsolete until next extraction
+        this.listener.listenTo(view.model, 'change:kceWeights change:regime change:conceptRankingStrategy', () => {
+            this.setState({explanations: undefined});
+        });
+        this.listener.listenTo(view.selection, 'add remove reset', () => {
+            const selected = view.selection.length === 1 ? view.selection.first() : undefined;
+            if (selected) {
+                this.setState({selectedId: selected.id});
+            }
+        });
+    }
+
+    componentWillUnmount() {
+        this.listener.stopListening();
+    }
+}
+
+function formatMetric(value: number): string {
+    return value === undefined || isNaN(value) ? '—' : value.toFixed(3);
+}
+
+export default KceInspector;
@@ -0,0 +1,117 @@
+import * as React from 'react';
+
+import { KceWeights, DEFAULT_KCE_WEIGHTS } from '../kce/keyConceptExtractor';
+
+export interface KceSettingsProps {
+    weights: KceWeights;
+    /** Called with new weights when user applies changes. */
+    onApply: (weights: KceWeights) => void;
+}
+
+export interface State {
+    /** Input values as typed by user, may be not a valid number. */
+    readonly inputs?: { readonly [K in keyof KceWeights]?: string };
+}
+
+const WEIGHT_GROUPS: ReadonlyArray<{
+    heading: string;
+    weights: ReadonlyArray<{ key: keyof KceWeights; label: string }>;
+}> = [
+    {heading: 'Overall score', weights: [
+        {key: 'contribution', label: 'Contribution'},
+        {key: 'score', label: 'Score'},
+    ]},
+    {heading: 'Natural category', weights: [
+        {key: 'basicLevel', label: 'Basic level'},
+        {key: 'nameSimplicity', label: 'Name simplicity'},
+        {key: 'nameCompoundPenalty', label: 'Name compound penalty'},
+    ]},
+    {heading: 'Density', weights: [
+        {key: 'localDensity', label: 'Local density'},
+        {key: 'globalDensity', label: 'Global density'},
+        {key: 'ownGlobalDensity', label: 'Own global density'},
+        {key: 'distanceRatio', label: 'Distance ratio'},
+    ]},
+    {heading: 'Global density', weights: [
+        {key: 'subConcepts', label: 'Sub concepts'},
+        {key: 'properties', label: 'Properties'},
+        {key: 'instances', label: 'Instances'},
+    ]},
+];
+
+const CLASS_NAME = 'ontodia-kce-settings';
+
+export class KceSettings extends React.Component<KceSettingsProps, State> {
+    constructor(props: KceSettingsProps) {
+        super(props);
+        this.state = {inputs: formatWeights(props.weights)};
+    }
+
+    componentWillReceiveProps(nextProps: KceSettingsProps) {
+        if (nextProps.weights !== this.props.weights) {
+            this.setState({inputs: formatWeights(nextProps.weights)});
+        }
+    }
+
+    render() {
+        const weights = this.parseWeights();
+        return <div className={CLASS_NAME}>
+            {WEIGHT_GROUPS.map(group => <fieldset key={group.heading} className={`${CLASS_NAME}__group`}>
+                <legend className={`${CLASS_NAME}__group-heading`}>{group.heading}</legend>
+                {group.weights.map(({key, label}) => this.renderWeight(key, label))}
+            </fieldset>)}
+            <div className={`${CLASS_NAME}__buttons`}>
+                <button type='button' className='btn btn-default'
+                    onClick={() => this.setState({inputs: formatWeights(DEFAULT_KCE_WEIGHTS)})}>
+                    Reset to defaults
+                </button>
+                <button type='button' className='btn btn-primary'
+                    title={weights ? undefined : 'Weights should be non-negative numbers'}
+                    disabled={!weights}
+                    onClick={() => this.props.onApply(weights)}>
+                    Apply
+                </button>
+            </div>
+        </div>;
+    }
+
+    private renderWeight(key: keyof KceWeights, label: string) {
+        const value = this.state.inputs[key];
+        const className = `${CLASS_NAME}__weight form-group form-group-sm` +
+            (parseWeight(value) === undefined ? ' has-error' : '');
+        return <div key={key} className={className}>
+            <label className={`${CLASS_NAME}__weight-label`} htmlFor={`${CLASS_NAME}-${key}`}>
+                {label}
+            </label>
+            <input id={`${CLASS_NAME}-${key}`} className={`${CLASS_NAME}__weight-input form-control`}
+                type='number' min='0' step='0.01' value={value}
+                onChange={e => this.setState({inputs: {...this.state.inputs, [key]: e.currentTarget.value}})} />
+        </div>;
+    }
+
+    /** @returns weights from inputs or undefined if any of them is invalid */
+    private parseWeights(): KceWeights {
+        const weights = {} as KceWeights;
+        for (const key of Object.keys(DEFAULT_KCE_WEIGHTS) as Array<keyof KceWeights>) {
+            const weight = parseWeight(this.state.inputs[key]);
+            if (weight === undefined) { return undefined; }
+            weights[key] = weight;
+        }
+        return weights;
+    }
+}
+
+function formatWeights(weights: KceWeights): State['inputs'] {
+    const inputs: { [K in keyof KceWeights]?: string } = {};
+    for (const key of Object.keys(weights) as Array<keyof KceWeights>) {
+        inputs[key] = String(weights[key]);
+    }
+    return inputs;
+}
+
+function parseWeight(input: string): number {
+    const weight = Number(input);
+    return input && input.trim() && isFinite(weight) && weight >= 0 ? weight : undefined;
+}
+
+export default KceSettings;
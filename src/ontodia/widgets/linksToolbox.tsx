@@ -6,7 +6,7 @@ import * as Backbone from 'backbone';
 import LinkTypesToolboxModel from './linksToolboxModel';
 import { Element, FatLinkType } from '../diagram/elements';
 import DiagramView from '../diagram/view';
-import { chooseLocalizedText } from '../diagram/model';
+import { ClassAxiomsView, chooseLocalizedText } from '../diagram/model';
 
 export { LinkTypesToolboxModel };
 export interface LinkInToolBoxProps {
@@ -18,6 +18,7 @@ export interface LinkInToolBoxProps {
 }
 
 import { LocalizedString } from '../data/model';
+import { defaultPrefixRegistry } from '../data/prefixRegistry';
 type Label = { values: LocalizedString[] };
 
 type LinkTypeVisibility = 'invisible' | 'withoutLabels' | 'allVisible';
@@ -111,7 +112,9 @@ export class LinkInToolBox extends React.Component<LinkInToolBoxProps, {}> {
                         <span className='fa fa-text-width' aria-hidden='true' />
                     </label>
                 </span>
-                <div className='link-title'>{this.getText()}</div>
+                <div className='link-title' title={defaultPrefixRegistry.compactIri(this.props.link.id)}>
+                    {this.getText()}
+                </div>
                 {badgeContainer}
                 <a className='filter-button' onClick={this.onPressFilter}><img/></a>
             </li>
@@ -126,6 +129,9 @@ export interface LinkTypesToolboxProps extends Backbone.ViewOptions<LinkTypesToo
     language?: string;
     dataState?: string;
     filterCallback?: (type: FatLinkType) => void;
+    classAxiomsView?: ClassAxiomsView;
+    /** Displays switch between links and nodes for class expressions if specified. */
+    onChangeClassAxiomsView?: (view: ClassAxiomsView) => void;
 }
 
 // Right connection panel
@@ -231,6 +237,28 @@ export class LinkTypesToolbox extends React.Component<LinkTypesToolboxProps, { f
             </button>;
         }
 
+        let classAxiomsSwitch: React.ReactElement<any> = null;
+        if (this.props.onChangeClassAxiomsView) {
+            const {classAxiomsView, onChangeClassAxiomsView} = this.props;
+            classAxiomsSwitch = (
+                <div className={`${className}__class-axioms`}>
+                    <div className='btn-group btn-group-xs'>
+                        <label className={'btn btn-default' + (classAxiomsView === 'links' ? ' active' : '')}
+                            title='Show class expressions as links between classes'
+                            onClick={() => onChangeClassAxiomsView('links')}>
+                            <span className='fa fa-long-arrow-right' aria-hidden='true' />
+                        </label>
+                        <label className={'btn btn-default' + (classAxiomsView === 'nodes' ? ' active' : '')}
+                            title='Show class expressions as anonymous class nodes'
+                            onClick={() => onChangeClassAxiomsView('nodes')}>
+                            <span className='fa fa-circle-o' aria-hidden='true' />
+                        </label>
+                    </div>
+                    <span>&nbsp;Class axioms</span>
+                </div>
+            );
+        }
+
         return (
             <div className={`${className} stateBasedProgress`} data-state={dataState}>
                 <div className={`${className}__heading`}>
@@ -262,6 +290,7 @@ export class LinkTypesToolbox extends React.Component<LinkTypesToolboxProps, { f
                         </div>
                         <span>&nbsp;Switch all</span>
                     </div>
+                    {classAxiomsSwitch}
                 </div>
                 <div className='progress'>
                     <div className='progress-bar progress-bar-striped active'
@@ -301,6 +330,7 @@ export class LinkTypesToolboxShell extends Backbone.View<LinkTypesToolboxModel>
 
         this.listenTo(this.view, 'change:language', this.render);
         this.listenTo(this.view.model, 'state:dataLoaded', this.render);
+        this.listenTo(this.view.model, 'change:classAxiomsView', this.render);
         this.listenTo(this.view, 'change:language', this.updateLinks);
 
         this.listenTo(this.view.selection, 'add remove reset', _.debounce(() => {
@@ -325,6 +355,10 @@ export class LinkTypesToolboxShell extends Backbone.View<LinkTypesToolboxModel>
         };
     }
 
+    private onChangeClassAxiomsView = (view: ClassAxiomsView) => {
+        this.view.model.setClassAxiomsView(view);
+    }
+
     private setDataState(dataState: string) {
         this.dataState = dataState;
         this.render();
@@ -364,11 +398,15 @@ export class LinkTypesToolboxShell extends Backbone.View<LinkTypesToolboxModel>
 
     public getReactComponent() {
         let selectedElement: Element = this.model.get('selectedElement');
+        const diagram = this.view.model;
+        const supportsClassAxioms = Boolean(diagram.dataProvider && diagram.dataProvider.classAxioms);
 
         return (<LinkTypesToolbox links={this.linksOfElement} countMap={this.countMap}
             filterCallback={this.filterCallback} dataState={this.dataState}
             language={this.view.getLanguage()}
             label={selectedElement ? selectedElement.template.label : null}
+            classAxiomsView={diagram.getClassAxiomsView()}
+            onChangeClassAxiomsView={supportsClassAxioms ? this.onChangeClassAxiomsView : undefined}
         />);
     }
 
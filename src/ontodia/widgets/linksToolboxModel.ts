@@ -1,5 +1,6 @@
 import * as Backbone from 'backbone';
 
+import { Cancellation, CancellationToken } from '../data/cancellation';
 import { Element } from '../diagram/elements';
 import DiagramModel from '../diagram/model';
 
@@ -17,7 +18,8 @@ import DiagramModel from '../diagram/model';
 export class LinkTypesToolboxModel extends Backbone.Model {
     connectionsOfSelectedElement: { [linkTypeId: string]: number };
 
-    private currentRequest: { elementId: string; };
+    private currentRequest: { elementId: string; signal: CancellationToken; };
+    private cancellation: Cancellation;
 
     constructor(public diagram: DiagramModel) {
         super();
@@ -25,9 +27,15 @@ export class LinkTypesToolboxModel extends Backbone.Model {
     }
 
     private onSelectedElementChanged(self: LinkTypesToolboxModel, element: Element) {
+        if (this.cancellation) {
+            this.cancellation.abort();
+            this.cancellation = null;
+        }
+
         this.trigger('state:beginQuery');
         if (element) {
-            const request = {elementId: element.id};
+            this.cancellation = new Cancellation();
+            const request = {elementId: element.id, signal: this.cancellation.signal};
             this.currentRequest = request;
             this.diagram.dataProvider.linkTypesOf(request).then(linkTypes => {
                 if (this.currentRequest !== request) { return; }
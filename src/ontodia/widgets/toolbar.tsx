@@ -1,5 +1,9 @@
 import * as React from 'react';
 
+import { RdfSerializationFormat } from '../data/rdf/rdfSerializer';
+import { GraphExportFormat, GRAPH_EXPORT_FORMATS } from '../export/graphExport';
+import { CONCEPT_RANKING_STRATEGIES } from '../kce/conceptRanking';
+
 export interface Props {
     onSaveDiagram?: () => void;
     onSaveToSelf?: () => void;
@@ -13,6 +17,8 @@ export interface Props {
     onRedo: () => void;
     onExportSVG: (link: HTMLAnchorElement) => void;
     onExportPNG: (link: HTMLAnchorElement) => void;
+    onExportRDF?: (link: HTMLAnchorElement, format: RdfSerializationFormat, includeLayout: boolean) => void;
+    onExportGraph?: (link: HTMLAnchorElement, format: GraphExportFormat) => void;
     onPrint: () => void;
     onPreviousKCEView: () => void;
     onShare?: () => void;
@@ -21,12 +27,15 @@ export interface Props {
     isEmbeddedMode?: boolean;
     isDiagramSaved?: boolean;
     onVisualizeWithKCE?: (conceptCount: number) => void;
+    /** Called with id of one of `CONCEPT_RANKING_STRATEGIES`. */
+    onChangeRankingStrategy?: (strategyId: string) => void;
     onChangeRegime: (regime: string) => void;
 }
 
 export interface State {
     showModal: boolean;
     conceptCount: number;
+    includeLayoutInRDF?: boolean;
 }
 
 const CLASS_NAME = 'ontodia-toolbar';
@@ -37,7 +46,7 @@ export class EditorToolbar extends React.Component<Props, State> {
 
     constructor(props: Props) {
         super(props);
-        this.state = {showModal: false, conceptCount: 16};
+        this.state = {showModal: false, conceptCount: 16, includeLayoutInRDF: false};
     }
 
     private onChangeLanguage = (event: React.SyntheticEvent<HTMLSelectElement>) => {
@@ -58,6 +67,32 @@ export class EditorToolbar extends React.Component<Props, State> {
         this.props.onExportPNG(this.downloadImageLink);
     };
 
+    private onExportTurtle = () => {
+        this.props.onExportRDF(this.downloadImageLink, 'text/turtle', this.state.includeLayoutInRDF);
+    };
+
+    private onExportNTriples = () => {
+        this.props.onExportRDF(this.downloadImageLink, 'application/n-triples', this.state.includeLayoutInRDF);
+    };
+
+    private onIncludeLayoutChange = (event: React.SyntheticEvent<HTMLInputElement>) => {
+        this.setState({includeLayoutInRDF: event.currentTarget.checked} as State);
+    };
+
+    private onExportGraph = (event: React.SyntheticEvent<HTMLSelectElement>) => {
+        const select = event.currentTarget;
+        const format = select.value as GraphExportFormat;
+        // reset selector to allow exporting in the same format again
+        select.value = '';
+        if (format) {
+            this.props.onExportGraph(this.downloadImageLink, format);
+        }
+    };
+
+    private onChangeRankingStrategy = (event: React.SyntheticEvent<HTMLSelectElement>) => {
+        this.props.onChangeRankingStrategy(event.currentTarget.value);
+    };
+
     private onVisualizeWithKCE = () => {
         this.props.onVisualizeWithKCE(this.state.conceptCount);
     };
@@ -159,6 +194,33 @@ export class EditorToolbar extends React.Component<Props, State> {
                             title='Export diagram as SVG' onClick={this.onExportSVG}>
                         <span className='fa fa-picture-o' aria-hidden='true' /> SVG
                     </button>
+                    {this.props.onExportRDF ? (
+                        <div className={`btn-group ${CLASS_NAME}__rdf-export`}>
+                            <button type='button' className='btn btn-default'
+                                    title='Export diagram as RDF in Turtle format' onClick={this.onExportTurtle}>
+                                <span className='fa fa-download' aria-hidden='true' /> Turtle
+                            </button>
+                            <button type='button' className='btn btn-default'
+                                    title='Export diagram as RDF in N-Triples format' onClick={this.onExportNTriples}>
+                                <span className='fa fa-download' aria-hidden='true' /> N-Triples
+                            </button>
+                            <label title='Add element positions to exported RDF'>
+                                <input type='checkbox' checked={this.state.includeLayoutInRDF}
+                                    onChange={this.onIncludeLayoutChange} /> with layout
+                            </label>
+                        </div>
+                    ) : undefined}
+                    {this.props.onExportGraph ? (
+                        <span className={`btn-group ${CLASS_NAME}__graph-export`}>
+                            <select defaultValue='' title='Export diagram for graph tools'
+                                onChange={this.onExportGraph}>
+                                <option value='' disabled={true}>Export graph as...</option>
+                                {Object.keys(GRAPH_EXPORT_FORMATS).map(format =>
+                                    <option key={format} value={format}>{GRAPH_EXPORT_FORMATS[format].label}</option>
+                                )}
+                            </select>
+                        </span>
+                    ) : undefined}
                     {(!nonEmbedded) ? (
                     <button type='button' className='btn btn-default'
                             title='Print diagram' onClick={this.props.onPrint}>
@@ -184,6 +246,17 @@ export class EditorToolbar extends React.Component<Props, State> {
                             onChange={this.onConceptCountChange}
                         />
                     </div>
+                    {this.props.onChangeRankingStrategy ? (
+                        <span className={`btn-group ${CLASS_NAME}__ranking-selector`}>
+                            <label><span>Ranking:</span></label>
+                            <select defaultValue={CONCEPT_RANKING_STRATEGIES[0].id}
+                                onChange={this.onChangeRankingStrategy}>
+                                {CONCEPT_RANKING_STRATEGIES.map(strategy =>
+                                    <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+                                )}
+                            </select>
+                        </span>
+                    ) : undefined}
                     <span className={`btn-group ${CLASS_NAME}__language-selector`}>
                         {nonEmbedded ? <label><span>Ontology Language:</span></label> : undefined}
                         <select defaultValue='en' onChange={this.onChangeLanguage}>
@@ -196,6 +269,8 @@ export class EditorToolbar extends React.Component<Props, State> {
                         <select id="regime" ref={(regime) => {this.regime = regime;}} defaultValue= "class" onChange={this.onChangeRegime}>
                             <option value='class'>Extract classes</option>
                             <option value='individual'>Extract individuals</option>
+                            <option value='schema'>Extract class diagram</option>
+                            <option value='property'>Extract properties</option>
                         </select>
                     </span>
                 </div>
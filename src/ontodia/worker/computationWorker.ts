@@ -0,0 +1,209 @@
+import { ConceptModel } from '../data/model';
+import { CancellationToken, createCancelledError } from '../data/cancellation';
+import { KceWeights, KceState } from '../kce/keyConceptExtractor';
+import { LayoutNode } from '../viewUtils/layout';
+
+import { compute, serializeConceptTree } from './computations';
+import {
+    ComputationRequest, ComputationProgress, ConceptScores, ForceLayoutResult, RequestMessage, ResponseMessage,
+} from './protocol';
+
+export interface ComputationOptions {
+    signal?: CancellationToken;
+    onProgress?: (progress: ComputationProgress) => void;
+}
+
+interface PendingComputation {
+    request: ComputationRequest;
+    options: ComputationOptions;
+    resolve: (result: any) => void;
+    reject: (error: any) => void;
+}
+
+/**
+ * Runs heavy computations in a Web Worker loaded from `workerUrl` (the bundle of `worker.ts`)
+ * to keep UI responsive, or in main thread if URL isn't specified or workers aren't supported.
+ *
+ * Cancelled computation terminates the worker, so other pending computations
+ * are sent again to a new one.
+ */
+export class ComputationWorker {
+    private worker: Worker;
+    private nextRequestId = 1;
+    private pending: { [id: number]: PendingComputation } = {};
+
+    constructor(readonly workerUrl?: string) {}
+
+    /**
+     * Extracts key concepts from the tree of concepts in the same order as in `KeyConceptExtractor.concepts`.
+     *
+     * @returns state to import into the extractor of the tree
+     */
+    extractKeyConcepts(params: {
+        concepts: ReadonlyArray<ConceptModel>;
+        weights: KceWeights;
+        conceptCount: number;
+    }, options: ComputationOptions = {}): Promise<KceState> {
+        return this.run({
+            type: 'extractKeyConcepts',
+            tree: serializeConceptTree(params.concepts),
+            weights: params.weights,
+            conceptCount: params.conceptCount,
+        }, options);
+    }
+
+    /**
+     * Computes betweenness centrality of concepts, see `computeBetweennessCentrality()`.
+     *
+     * @param concepts - concepts of `KeyConceptExtractor`, root concept first
+     * @returns scores of concepts by id
+     */
+    betweennessCentrality(params: {
+        concepts: ReadonlyArray<ConceptModel>;
+    }, options: ComputationOptions = {}): Promise<ConceptScores> {
+        return this.run({
+            type: 'betweennessCentrality',
+            tree: serializeConceptTree(params.concepts),
+        }, options);
+    }
+
+    /**
+     * Performs force layout with removal of overlaps and translation to positive quadrant.
+     *
+     * @returns nodes with new positions in the same order
+     */
+    forceLayout(params: {
+        nodes: ReadonlyArray<LayoutNode>;
+        links: Array<{ source: LayoutNode; target: LayoutNode }>;
+        preferredLinkLength: number;
+    }, options: ComputationOptions = {}): Promise<ForceLayoutResult> {
+        const {nodes, links, preferredLinkLength} = params;
+        return this.run({
+            type: 'forceLayout',
+            nodes: nodes.map(({id, x, y, width, height}): LayoutNode => ({id, x, y, width, height})),
+            links: links.map(({source, target}) => ({
+                source: nodes.indexOf(source),
+                target: nodes.indexOf(target),
+            })),
+            preferredLinkLength,
+        }, options);
+    }
+
+    /** Stops the worker and rejects pending computations. */
+    terminate() {
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = undefined;
+        }
+        const pending = this.pending;
+        this.pending = {};
+        for (const id of Object.keys(pending)) {
+            pending[Number(id)].reject(createCancelledError());
+        }
+    }
+
+    private run(request: ComputationRequest, options: ComputationOptions): Promise<any> {
+        const {signal} = options;
+        if (signal && signal.aborted) {
+            return Promise.reject(createCancelledError());
+        }
+        if (!this.workerUrl || typeof Worker === 'undefined') {
+            return this.runInMainThread(request, options);
+        }
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextRequestId++;
+            const onAbort = () => this.cancel(id);
+            this.pending[id] = {
+                request,
+                options,
+                resolve: result => {
+                    if (signal) { signal.removeListener(onAbort); }
+                    resolve(result);
+                },
+                reject: error => {
+                    if (signal) { signal.removeListener(onAbort); }
+                    reject(error);
+                },
+            };
+            if (signal) { signal.addListener(onAbort); }
+            this.post(id);
+        });
+    }
+
+    private runInMainThread(request: ComputationRequest, options: ComputationOptions): Promise<any> {
+        const {signal, onProgress = () => { /* nothing */ }} = options;
+        return new Promise((resolve, reject) => {
+            // let browser render progress indicator before the computation blocks it
+            setTimeout(() => {
+                if (signal && signal.aborted) {
+                    reject(createCancelledError());
+                    return;
+                }
+                try {
+                    resolve(compute(request, onProgress));
+                } catch (error) {
+                    reject(error);
+                }
+            }, 50);
+        });
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            this.worker = new Worker(this.workerUrl);
+            this.worker.onmessage = this.onMessage;
+            this.worker.onerror = this.onError;
+        }
+        return this.worker;
+    }
+
+    private post(id: number) {
+        const message: RequestMessage = {id, request: this.pending[id].request};
+        this.getWorker().postMessage(message);
+    }
+
+    private cancel(id: number) {
+        const computation = this.pending[id];
+        if (!computation) { return; }
+        delete this.pending[id];
+        computation.reject(createCancelledError());
+
+        // worker can't be interrupted in the middle of computation
+        this.worker.terminate();
+        this.worker = undefined;
+        for (const pendingId of Object.keys(this.pending)) {
+            this.post(Number(pendingId));
+        }
+    }
+
+    private onMessage = (e: MessageEvent) => {
+        const message = e.data as ResponseMessage;
+        const computation = this.pending[message.id];
+        if (!computation) { return; }
+
+        if (message.type === 'progress') {
+            const {onProgress} = computation.options;
+            if (onProgress) { onProgress(message.progress); }
+            return;
+        }
+        delete this.pending[message.id];
+        if (message.type === 'result') {
+            computation.resolve(message.result);
+        } else {
+            computation.reject(new Error(message.message));
+        }
+    };
+
+    private onError = (e: ErrorEvent) => {
+        e.preventDefault();
+        // worker failed to load or crashed, so none of pending computations will complete
+        const pending = this.pending;
+        this.pending = {};
+        this.worker.terminate();
+        this.worker = undefined;
+        for (const id of Object.keys(pending)) {
+            pending[Number(id)].reject(new Error(`Computation worker failed: ${e.message}`));
+        }
+    };
+}
@@ -0,0 +1,101 @@
+import { ConceptModel } from '../data/model';
+import { KeyConceptExtractor, KceState } from '../kce/keyConceptExtractor';
+import { computeBetweennessCentrality } from '../kce/conceptRanking';
+import {
+    forceLayout, removeOverlaps, padded, translateToPositiveQuadrant, LayoutNode, LayoutLink,
+} from '../viewUtils/layout';
+
+import {
+    ConceptTreeData, ComputationRequest, ComputationProgress, ExtractKeyConceptsRequest,
+    BetweennessCentralityRequest, ConceptScores, ForceLayoutRequest, ForceLayoutResult,
+} from './protocol';
+
+/**
+ * Performs computation synchronously, either in a Web Worker or in main thread
+ * when worker isn't available.
+ */
+export function compute(
+    request: ComputationRequest,
+    onProgress: (progress: ComputationProgress) => void,
+): KceState | ConceptScores | ForceLayoutResult {
+    switch (request.type) {
+        case 'extractKeyConcepts':
+            return extractKeyConcepts(request, onProgress);
+        case 'betweennessCentrality':
+            return computeConceptsBetweenness(request, onProgress);
+        case 'forceLayout':
+            return computeForceLayout(request, onProgress);
+        default:
+            throw new Error(`Unknown computation request: ${(request as ComputationRequest).type}`);
+    }
+}
+
+/**
+ * @param concepts - concepts of `KeyConceptExtractor`, root concept first
+ */
+export function serializeConceptTree(concepts: ReadonlyArray<ConceptModel>): ConceptTreeData {
+    const indices: { [id: string]: number } = {};
+    concepts.forEach((concept, index) => { indices[concept.id] = index; });
+    return {
+        concepts: concepts.map(({id, label, count, propertyCount, level, children}) => ({
+            id, label, count, propertyCount, level,
+            children: children.map(child => indices[child.id]).filter(index => index !== undefined),
+        })),
+    };
+}
+
+/** @returns concepts of the tree, root concept first */
+function deserializeConceptTree(data: ConceptTreeData): ConceptModel[] {
+    const concepts = data.concepts.map(({id, label, count, propertyCount, level}): ConceptModel => ({
+        id, label, count, propertyCount, level,
+        children: [],
+        parent: [],
+        subKeyConcepts: [],
+    }));
+    data.concepts.forEach(({children}, index) => {
+        for (const child of children) {
+            concepts[index].children.push(concepts[child]);
+            concepts[child].parent.push(concepts[index]);
+        }
+    });
+    return concepts;
+}
+
+function extractKeyConcepts(
+    request: ExtractKeyConceptsRequest,
+    onProgress: (progress: ComputationProgress) => void,
+): KceState {
+    onProgress({statusText: 'Indexing concepts...'});
+    const extractor = new KeyConceptExtractor(deserializeConceptTree(request.tree)[0], request.weights);
+    onProgress({statusText: 'Computing metrics of concepts...'});
+    extractor.rankConcepts();
+    extractor.extract(request.conceptCount, fraction => {
+        onProgress({statusText: 'Extracting key concepts...', fraction});
+    });
+    return extractor.exportState();
+}
+
+function computeConceptsBetweenness(
+    request: BetweennessCentralityRequest,
+    onProgress: (progress: ComputationProgress) => void,
+): ConceptScores {
+    onProgress({statusText: 'Computing betweenness centrality...'});
+    return computeBetweennessCentrality({concepts: deserializeConceptTree(request.tree)});
+}
+
+function computeForceLayout(
+    request: ForceLayoutRequest,
+    onProgress: (progress: ComputationProgress) => void,
+): ForceLayoutResult {
+    onProgress({statusText: 'Computing layout...'});
+    const {nodes, preferredLinkLength} = request;
+    const links: LayoutLink[] = request.links.map(({source, target}) => ({
+        source: nodes[source],
+        target: nodes[target],
+    }));
+    forceLayout({nodes, links, preferredLinkLength});
+    padded(nodes, {x: 10, y: 10}, () => removeOverlaps(nodes));
+    translateToPositiveQuadrant({nodes, padding: {x: 150, y: 150}});
+    // cola adds its own fields to nodes which are not needed outside
+    return nodes.map(({id, x, y, width, height}): LayoutNode => ({id, x, y, width, height}));
+}
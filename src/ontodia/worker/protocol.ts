@@ -0,0 +1,64 @@
+import { Dictionary, LocalizedString } from '../data/model';
+import { KceWeights, KceState } from '../kce/keyConceptExtractor';
+import { LayoutNode } from '../viewUtils/layout';
+
+/**
+ * Concept tree in plain form which can be posted to a Web Worker:
+ * concepts are listed in order of `KeyConceptExtractor.concepts` and refer to children by index.
+ */
+export interface ConceptTreeData {
+    concepts: Array<{
+        id: string;
+        label: { values: LocalizedString[] };
+        count: number;
+        propertyCount?: number;
+        level?: number;
+        children: number[];
+    }>;
+}
+
+export interface ExtractKeyConceptsRequest {
+    type: 'extractKeyConcepts';
+    tree: ConceptTreeData;
+    weights: KceWeights;
+    conceptCount: number;
+}
+
+export interface BetweennessCentralityRequest {
+    type: 'betweennessCentrality';
+    tree: ConceptTreeData;
+}
+
+export interface ForceLayoutRequest {
+    type: 'forceLayout';
+    nodes: LayoutNode[];
+    /** Links between nodes by index in `nodes`. */
+    links: Array<{ source: number; target: number }>;
+    preferredLinkLength: number;
+}
+
+export type ComputationRequest = ExtractKeyConceptsRequest | BetweennessCentralityRequest | ForceLayoutRequest;
+
+/** Result of `BetweennessCentralityRequest`: scores of concepts by id. */
+export type ConceptScores = Dictionary<number>;
+
+/** Result of `ForceLayoutRequest`: nodes with computed positions in the same order. */
+export type ForceLayoutResult = LayoutNode[];
+
+export interface ComputationProgress {
+    statusText: string;
+    /** Completed fraction of computation from 0 to 1 if it's known. */
+    fraction?: number;
+}
+
+/** Message from main thread to worker. */
+export interface RequestMessage {
+    id: number;
+    request: ComputationRequest;
+}
+
+/** Message from worker to main thread about the request with the same `id`. */
+export type ResponseMessage =
+    { id: number; type: 'progress'; progress: ComputationProgress } |
+    { id: number; type: 'result'; result: KceState | ConceptScores | ForceLayoutResult } |
+    { id: number; type: 'error'; message: string };
@@ -0,0 +1,25 @@
+/**
+ * Entry point of Web Worker which performs heavy computations (key concepts extraction and layout)
+ * off the main thread, see `ComputationWorker`.
+ */
+import { compute } from './computations';
+import { RequestMessage, ResponseMessage } from './protocol';
+
+/** Global scope of dedicated worker which isn't described by DOM typings. */
+interface WorkerScope {
+    onmessage: (e: MessageEvent) => void;
+    postMessage(message: ResponseMessage): void;
+}
+
+// shadows `self: Window` from DOM typings in this module
+declare const self: WorkerScope;
+
+self.onmessage = e => {
+    const {id, request} = e.data as RequestMessage;
+    try {
+        const result = compute(request, progress => self.postMessage({id, type: 'progress', progress}));
+        self.postMessage({id, type: 'result', result});
+    } catch (error) {
+        self.postMessage({id, type: 'error', message: error && error.message ? error.message : String(error)});
+    }
+};
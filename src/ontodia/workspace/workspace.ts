@@ -1,13 +1,15 @@
 import { Component, createElement, ReactElement} from 'react';
 import * as Backbone from 'backbone';
 
+import { isCancelledError } from '../data/cancellation';
+import { RdfSerializationFormat } from '../data/rdf/rdfSerializer';
+import { GraphExportFormat, GRAPH_EXPORT_FORMATS, exportGraph } from '../export/graphExport';
+import { KceWeights } from '../kce/keyConceptExtractor';
+import { findConceptRankingStrategy } from '../kce/conceptRanking';
 import {DiagramModel} from '../diagram/model';
 import { Link, FatLinkType } from '../diagram/elements';
 import { DiagramView, DiagramViewOptions } from '../diagram/view';
-import {
-    forceLayout, removeOverlaps, padded, translateToPositiveQuadrant,
-    LayoutNode, LayoutLink, translateToCenter,
-} from '../viewUtils/layout';
+import { LayoutNode, LayoutLink, translateToCenter } from '../viewUtils/layout';
 
 import { ClassTree } from '../widgets/classTree';
 import { LinkTypesToolboxShell, LinkTypesToolboxModel } from '../widgets/linksToolbox';
@@ -49,6 +51,8 @@ export class Workspace extends Component<Props, State> {
     private readonly diagram: DiagramView;
     private tree: ClassTree;
     private linksToolbox: LinkTypesToolboxShell;
+    /** Number of concepts of last key concepts visualization in current regime. */
+    private lastKceConceptCount: number;
 
     constructor(props: Props) {
         super(props);
@@ -65,6 +69,8 @@ export class Workspace extends Component<Props, State> {
             view: this.diagram,
             searchCriteria: this.state.criteria,
             onSearchCriteriaChanged: criteria => this.setState({criteria}),
+            kceWeights: this.model.getKceWeights(),
+            onApplyKceWeights: this.applyKceWeights,
             toolbar: createElement<EditorToolbarProps>(EditorToolbar, {
                 ref: (toolbar: EditorToolbar) => {this.toolbar = toolbar},
                 onUndo: this.undo,
@@ -78,11 +84,12 @@ export class Workspace extends Component<Props, State> {
                 },
                 onExportSVG: this.exportSvg,
                 onExportPNG: this.exportPng,
+                onExportRDF: this.exportRdf,
+                onExportGraph: this.exportGraph,
                 onShare: this.props.onShareDiagram ? () => this.props.onShareDiagram(this) : undefined,
                 onSaveDiagram: () => this.props.onSaveDiagram(this),
                 onForceLayout: () => {
-                    this.forceLayout();
-                    this.zoomToFit();
+                    this.forceLayout().then(this.zoomToFit, ignoreCancellation);
                 },
                 onChangeLanguage: this.changeLanguage,
                 onShowTutorial: showTutorial,
@@ -93,9 +100,11 @@ export class Workspace extends Component<Props, State> {
                     if(conceptCount <= 0) {
                         this.showMessageDialog('Error', 'Invalid number of concepts')
                     } else {
-                        this.diagram.visualizeKeyConcepts(conceptCount)
+                        this.lastKceConceptCount = conceptCount;
+                        this.visualizeKeyConcepts();
                     }
                 },
+                onChangeRankingStrategy: this.changeRankingStrategy,
                 onChangeRegime: this.changeRegime,
             }),
         } as MarkupProps & React.ClassAttributes<WorkspaceMarkup>);
@@ -117,6 +126,8 @@ export class Workspace extends Component<Props, State> {
                 },
                 cancelRegimeInstance: () => {
                     this.toolbar.restoreClassRegime();
+                    // previous regime might be 'schema' which is not restored by toolbar
+                    this.model.setRegime('class');
                 },
             });
         }).catch(error => {
@@ -157,8 +168,7 @@ export class Workspace extends Component<Props, State> {
         });
 
         this.diagram.listenTo(this.model, 'state:linksInfoCreated', () => {
-            this.forceLayout();
-            this.zoomToFit();
+            this.forceLayout().then(this.zoomToFit, ignoreCancellation);
         });
 
         this.diagram.listenTo(this.model, 'state:invalidClassifier', () => {
@@ -197,7 +207,11 @@ export class Workspace extends Component<Props, State> {
         this.markup.paperArea.showIndicator(promise);
     }
 
-    forceLayout = () => {
+    /**
+     * Performs force layout of diagram in computation worker,
+     * progress of layout is displayed on paper with a button to cancel it.
+     */
+    forceLayout = (): Promise<void> => {
         const nodes: LayoutNode[] = [];
         const nodeById: { [id: string]: LayoutNode } = {};
         for (const element of this.model.elements) {
@@ -227,26 +241,30 @@ export class Workspace extends Component<Props, State> {
             });
         }
 
-        forceLayout({nodes, links, preferredLinkLength: 200});
-        padded(nodes, {x: 10, y: 10}, () => removeOverlaps(nodes));
-        translateToPositiveQuadrant({nodes, padding: {x: 150, y: 150}});
-        for (const node of nodes) {
-            this.model.getElement(node.id).position(node.x, node.y);
-        }
-        this.markup.paperArea.adjustPaper();
-        translateToCenter({
-            nodes,
-            paperSize: this.markup.paperArea.getPaperSize(),
-            contentBBox: this.markup.paperArea.getContentFittingBox(),
-        });
+        const worker = this.model.getComputationWorker();
+        const layout = this.diagram.runComputation(options =>
+            worker.forceLayout({nodes, links, preferredLinkLength: 200}, options));
+        return layout.then(layoutNodes => {
+            // elements might be removed while layout was computed
+            const placedNodes = layoutNodes.filter(node => this.model.getElement(node.id));
+            for (const node of placedNodes) {
+                this.model.getElement(node.id).position(node.x, node.y);
+            }
+            this.markup.paperArea.adjustPaper();
+            translateToCenter({
+                nodes: placedNodes,
+                paperSize: this.markup.paperArea.getPaperSize(),
+                contentBBox: this.markup.paperArea.getContentFittingBox(),
+            });
 
-        for (const node of nodes) {
-            this.model.getElement(node.id).position(node.x, node.y);
-        }
+            for (const node of placedNodes) {
+                this.model.getElement(node.id).position(node.x, node.y);
+            }
 
-        for (const {link} of links) {
-            link.set('vertices', []);
-        }
+            for (const {link} of links) {
+                link.set('vertices', []);
+            }
+        });
     }
 
     exportSvg = (link: HTMLAnchorElement) => {
@@ -267,6 +285,21 @@ export class Workspace extends Component<Props, State> {
         });
     }
 
+    exportRdf = (link: HTMLAnchorElement, format: RdfSerializationFormat, includeLayout: boolean) => {
+        const content = this.model.exportRdf({format, includeLayout});
+        link.download = format === 'text/turtle' ? 'diagram.ttl' : 'diagram.nt';
+        link.href = window.URL.createObjectURL(new Blob([content], {type: format}));
+        link.click();
+    }
+
+    exportGraph = (link: HTMLAnchorElement, format: GraphExportFormat) => {
+        const {fileExtension, mimeType} = GRAPH_EXPORT_FORMATS[format];
+        const content = exportGraph(this.diagram, format);
+        link.download = `diagram.${fileExtension}`;
+        link.href = window.URL.createObjectURL(new Blob([content], {type: mimeType}));
+        link.click();
+    }
+
     undo = () => {
         this.model.undo();
     }
@@ -291,17 +324,50 @@ export class Workspace extends Component<Props, State> {
         this.diagram.setLanguage(language);
     }
 
+    applyKceWeights = (weights: KceWeights) => {
+        this.model.setKceWeights(weights);
+        this.forceUpdate();
+        if (this.lastKceConceptCount) {
+            this.visualizeKeyConcepts();
+        }
+    }
+
+    changeRankingStrategy = (strategyId: string) => {
+        this.model.setConceptRankingStrategy(findConceptRankingStrategy(strategyId));
+        if (this.lastKceConceptCount) {
+            this.visualizeKeyConcepts();
+        }
+    }
+
+    private visualizeKeyConcepts() {
+        this.diagram.visualizeKeyConcepts(this.lastKceConceptCount).catch(ignoreCancellation);
+    }
+
     changeRegime = (regime: string) => {
         // Remove graph
         this.diagram.clearPaper();
+        this.lastKceConceptCount = undefined;
         if(regime === 'individual') {
             // Show only classifier selection menu. No need to change regime immediately
             this.showClassifierSelectionMenu();
+        } else if (regime === 'property') {
+            this.model.requestPropertyConceptsTree().catch(error => {
+                console.error(error);
+                this.showMessageDialog('Error', error.message);
+                this.toolbar.restoreClassRegime();
+                this.model.setRegime('class');
+            });
         } else {
-            // Change regime to 'class'
+            // Change regime to 'class' or 'schema'
             this.model.setRegime(regime);
         }
     }
 }
 
+function ignoreCancellation(error: any) {
+    if (!isCancelledError(error)) {
+        console.error(error);
+    }
+}
+
 export default Workspace;
@@ -3,7 +3,11 @@ import * as React from 'react';
 import { DiagramView } from '../diagram/view';
 import { PaperArea } from '../diagram/paperArea';
 
+import { KceWeights } from '../kce/keyConceptExtractor';
+
 import { InstancesSearch, SearchCriteria } from '../widgets/instancesSearch';
+import { KceSettings } from '../widgets/kceSettings';
+import { KceInspector } from '../widgets/kceInspector';
 
 import { ResizableSidebar, DockSide } from './resizableSidebar';
 import { Accordion } from './accordion';
@@ -18,6 +22,9 @@ export interface Props {
 
     searchCriteria?: SearchCriteria;
     onSearchCriteriaChanged: (criteria: SearchCriteria) => void;
+
+    kceWeights: KceWeights;
+    onApplyKceWeights: (weights: KceWeights) => void;
 }
 
 const INTRO_CLASSES = `<p>Navigate through class tree and click a class to select it.</p>
@@ -41,6 +48,12 @@ const INTRO_CONNECTIONS = `<p>Connections panel lists all the connection present
 <p>You can also change the way they are shown on the diagram: it’s either with the name above
  them or without it.</p>`;
 
+const INTRO_KCE_SETTINGS = `<p>Weights of Key Concepts Extraction algorithm can be tuned here.</p>
+<p>Applying new weights re-runs the last visualization of key concepts.</p>`;
+
+const INTRO_KCE_INSPECTOR = `<p>Metrics of the concept selected on diagram explain why it was chosen
+ as a key concept.</p><p>Table lists metrics of every concept and can be sorted by any column.</p>`;
+
 const INTRO_RESIZE = `<p>Panels can be resized and collapsed.</p>`;
 
 export class WorkspaceMarkup extends React.Component<Props, void> {
@@ -87,6 +100,25 @@ export class WorkspaceMarkup extends React.Component<Props, void> {
                             criteria={this.props.searchCriteria || {}}
                             onCriteriaChanged={this.props.onSearchCriteriaChanged} />
                     </AccordionItem>
+                    <AccordionItem heading='Key concepts settings'
+                        tutorialProps={{
+                            'data-position': 'right',
+                            'data-step': '8',
+                            'data-intro-id': 'kce-settings',
+                            'data-intro': INTRO_KCE_SETTINGS,
+                        }}>
+                        <KceSettings weights={this.props.kceWeights}
+                            onApply={this.props.onApplyKceWeights} />
+                    </AccordionItem>
+                    <AccordionItem heading='Key concepts inspector'
+                        tutorialProps={{
+                            'data-position': 'right',
+                            'data-step': '9',
+                            'data-intro-id': 'kce-inspector',
+                            'data-intro': INTRO_KCE_INSPECTOR,
+                        }}>
+                        <KceInspector view={this.props.view} />
+                    </AccordionItem>
                 </Accordion>
             </ResizableSidebar>
         );
@@ -1,10 +0,0 @@
-
-
-
-export default class Config {
-    public static readonly HOSTNAME = 'http://localhost';
-    public static readonly PORT = 5820;
-    public static readonly DB = 'rating';
-    public static readonly USERNAME = 'admin';
-    public static readonly PASSWORD = 'admin';
-}
@@ -6,11 +6,21 @@ declare module "n3" {
         ): void;
     }
 
-    function Parser(): N3Parser; 
+    function Parser(options?: { format?: string; }): N3Parser;
 
     interface Triple {
         subject: string;
         predicate: string;
         object: string;
     }
+
+    namespace Util {
+        function isIRI(entity: string): boolean;
+        function isLiteral(entity: string): boolean;
+        function isBlank(entity: string): boolean;
+        function getLiteralValue(literal: string): string;
+        function getLiteralType(literal: string): string;
+        function getLiteralLanguage(literal: string): string;
+        function createLiteral(value: string | number | boolean, modifier?: string): string;
+    }
 }
@@ -9,6 +9,9 @@ var npmDir = path.join(__dirname, 'node_modules');
 module.exports = {
     entry: {
         sparql: path.join(__dirname, 'src', 'examples', 'sparql.ts'),
+        rest: path.join(__dirname, 'src', 'examples', 'rest.ts'),
+        kceBenchmark: path.join(__dirname, 'src', 'examples', 'kceBenchmark.ts'),
+        worker: path.join(__dirname, 'src', 'ontodia', 'worker', 'worker.ts'),
     },
     resolve: {
         extensions: ['', '.ts', '.tsx', '.webpack.js', '.web.js', '.js'],
@@ -38,7 +41,24 @@ module.exports = {
             chunks: ['commons', 'sparql'],
             template: path.join(__dirname, 'src', 'examples', 'template.ejs'),
         }),
-        new CommonsChunkPlugin('commons', 'commons.chunk.js'),
+        new HtmlWebpackPlugin({
+            filename: 'rest.html',
+            title: 'Ontodia REST',
+            chunks: ['commons', 'rest'],
+            template: path.join(__dirname, 'src', 'examples', 'template.ejs'),
+        }),
+        new HtmlWebpackPlugin({
+            filename: 'kceBenchmark.html',
+            title: 'Ontodia KCE Benchmark',
+            chunks: ['commons', 'kceBenchmark'],
+            template: path.join(__dirname, 'src', 'examples', 'template.ejs'),
+        }),
+        new CommonsChunkPlugin({
+            name: 'commons',
+            filename: 'commons.chunk.js',
+            // worker should be self-contained as it's loaded by URL without commons chunk
+            chunks: ['sparql', 'rest', 'kceBenchmark'],
+        }),
     ],
     output: {
         path: path.join(__dirname, 'dist', 'examples'),
@@ -55,6 +75,13 @@ module.exports = {
                 changeOrigin: true,
                 secure: false,
             },
+            "/rest-api/*": {
+                target: process.env.REST_API_ENDPOINT || 'http://localhost:10445',
+                rewrite: function (req) {
+                    req.url = req.url.replace(/^\/rest-api/, '');
+                },
+                changeOrigin: true,
+            },
         },
     },
 };